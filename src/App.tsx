@@ -1,5 +1,6 @@
 import "./App.css";
 import KanbanBoard from "./components/kanban/KanbanBoard";
+import Toaster from "./components/kanban/Toaster";
 
 function App() {
   return (
@@ -7,6 +8,7 @@ function App() {
       <div className="container mx-auto h-full max-w-full xl:max-w-7xl">
         <KanbanBoard />
       </div>
+      <Toaster />
     </div>
   );
 }
@@ -0,0 +1,198 @@
+/**
+ * ArchiveDialog Component
+ *
+ * Browses the archived tasks of the active board with a search box, and can
+ * put them back into the column they were archived from. Also offers a bulk
+ * action that archives every done task older than a number of days.
+ */
+import React, { useEffect, useState } from "react";
+import { ArchiveRestore, Search } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast, useToastStore } from "@/store/useToastStore";
+import { DEFAULT_ARCHIVE_AGE_DAYS } from "@/lib/archive";
+import type { ArchivedTask } from "@/types";
+
+/**
+ * Props for the ArchiveDialog component
+ */
+interface ArchiveDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Checks whether an archived task matches the search text
+ * @param entry - The archived task
+ * @param query - Lower-cased search text
+ * @returns True if the key, title or description contains the text
+ */
+const matchesQuery = ({ task }: ArchivedTask, query: string) =>
+  [task.key, task.title, task.description ?? ""].some((field) =>
+    field.toLowerCase().includes(query)
+  );
+
+/**
+ * Formats the date a task was archived
+ * @param date - Archive time
+ * @returns Formatted date string (e.g. "May 9, 2025")
+ */
+const formatArchivedAt = (date: Date) => {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  }).format(date);
+};
+
+const ArchiveDialog: React.FC<ArchiveDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { getActiveBoard, archiveDoneTasks, unarchiveTask } = useKanbanStore();
+  const board = getActiveBoard();
+
+  const [query, setQuery] = useState("");
+  const [olderThanDays, setOlderThanDays] = useState(
+    String(DEFAULT_ARCHIVE_AGE_DAYS)
+  );
+
+  // Start with an empty search each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setQuery("");
+    }
+  }, [open]);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const results = normalizedQuery
+    ? board.archive.filter((entry) => matchesQuery(entry, normalizedQuery))
+    : board.archive;
+  const days = Number.parseInt(olderThanDays, 10);
+  const isValidDays = Number.isInteger(days) && days >= 0;
+
+  const columnTitle = (columnId: string) =>
+    board.columns.find((column) => column.id === columnId)?.title ??
+    "Deleted column";
+
+  const handleArchiveDone = () => {
+    const count = archiveDoneTasks(days);
+    if (count === 0) {
+      useToastStore.getState().showToast({
+        message: `No done tasks older than ${days} days`,
+      });
+      return;
+    }
+    showUndoToast(`${count} done ${count === 1 ? "task" : "tasks"} archived`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Archive</DialogTitle>
+          <DialogDescription>
+            Archived tasks of "{board.title}". They are hidden from the board
+            until you un-archive them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Bulk archive of finished work */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600 dark:text-gray-300">
+            Archive done tasks older than
+          </span>
+          <Input
+            type="number"
+            min={0}
+            value={olderThanDays}
+            onChange={(e) => setOlderThanDays(e.target.value)}
+            className="w-20 h-8"
+            aria-label="Minimum age in days"
+          />
+          <span className="text-gray-600 dark:text-gray-300">days</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleArchiveDone}
+            disabled={!isValidDays}
+          >
+            Archive
+          </Button>
+        </div>
+
+        {/* Search */}
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search archived tasks"
+            className="pl-8"
+          />
+        </div>
+
+        {results.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            {board.archive.length === 0
+              ? "No archived tasks yet."
+              : "No archived tasks match your search."}
+          </p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 rounded-md border border-gray-200 dark:border-gray-700">
+            {results.map(({ task, columnId, archivedAt }) => (
+              <li key={task.id} className="flex items-center gap-2 p-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    <span className="font-mono text-xs text-gray-500 dark:text-gray-400 mr-1.5">
+                      {task.key}
+                    </span>
+                    {task.title}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    From {columnTitle(columnId)} · archived{" "}
+                    {formatArchivedAt(archivedAt)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8"
+                  onClick={() => unarchiveTask(task.id)}
+                  title="Un-archive"
+                  aria-label={`Un-archive ${task.key}`}
+                >
+                  <ArchiveRestore className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ArchiveDialog;
@@ -0,0 +1,50 @@
+/**
+ * AvatarStack Component
+ *
+ * Overlapping avatars of a task's assignees. Only the first few are shown;
+ * the rest are summed up in a "+N" bubble.
+ */
+import React from "react";
+import type { Member } from "@/types";
+import MemberAvatar from "./MemberAvatar";
+
+/** Avatars shown before the rest are summed up */
+const MAX_VISIBLE = 3;
+
+/**
+ * Props for the AvatarStack component
+ */
+interface AvatarStackProps {
+  /** The members to show, in display order */
+  members: Member[];
+}
+
+const AvatarStack: React.FC<AvatarStackProps> = ({ members }) => {
+  const visible = members.slice(0, MAX_VISIBLE);
+  const hidden = members.slice(MAX_VISIBLE);
+
+  return (
+    <div
+      className="flex -space-x-1.5"
+      aria-label={`Assigned to ${members.map((member) => member.name).join(", ")}`}
+    >
+      {visible.map((member) => (
+        <MemberAvatar
+          key={member.id}
+          member={member}
+          className="ring-2 ring-white dark:ring-gray-800"
+        />
+      ))}
+      {hidden.length > 0 && (
+        <span
+          className="inline-flex size-6 items-center justify-center rounded-full bg-gray-200 text-[10px] font-semibold text-gray-700 ring-2 ring-white dark:bg-gray-700 dark:text-gray-200 dark:ring-gray-800"
+          title={hidden.map((member) => member.name).join(", ")}
+        >
+          +{hidden.length}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default AvatarStack;
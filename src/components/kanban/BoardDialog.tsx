@@ -0,0 +1,174 @@
+/**
+ * BoardDialog Component
+ *
+ * A small modal dialog for naming a new board or editing an existing one's
+ * name and task key prefix.
+ */
+import React, { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DEFAULT_KEY_PREFIX,
+  isValidKeyPrefix,
+  normalizeKeyPrefix,
+} from "@/lib/taskKeys";
+
+/**
+ * Props for the BoardDialog component
+ */
+interface BoardDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+
+  /** Dialog heading (e.g. "New Board" or "Rename Board") */
+  heading: string;
+
+  /** Label of the submit button */
+  submitLabel: string;
+
+  /** Title to prefill the input with (empty for new boards) */
+  initialTitle?: string;
+
+  /** Key prefix to prefill the input with */
+  initialKeyPrefix?: string;
+
+  /** Called with the trimmed title and normalized key prefix on submit */
+  onSubmit: (title: string, keyPrefix: string) => void;
+}
+
+const BoardDialog: React.FC<BoardDialogProps> = ({
+  open,
+  onOpenChange,
+  heading,
+  submitLabel,
+  initialTitle = "",
+  initialKeyPrefix = DEFAULT_KEY_PREFIX,
+  onSubmit,
+}) => {
+  const [title, setTitle] = useState(initialTitle);
+  const [keyPrefix, setKeyPrefix] = useState(initialKeyPrefix);
+  const [errors, setErrors] = useState<{ title?: string; keyPrefix?: string }>(
+    {}
+  );
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTitle(initialTitle);
+      setKeyPrefix(initialKeyPrefix);
+      setErrors({});
+    }
+  }, [open, initialTitle, initialKeyPrefix]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Validation
+    const newErrors: typeof errors = {};
+    if (!title.trim()) {
+      newErrors.title = "Board name is required";
+    }
+    if (!isValidKeyPrefix(keyPrefix)) {
+      newErrors.keyPrefix = "Use letters and digits, starting with a letter";
+    }
+    if (newErrors.title || newErrors.keyPrefix) {
+      setErrors(newErrors);
+      return;
+    }
+
+    onSubmit(title.trim(), keyPrefix);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{heading}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label
+              htmlFor="boardTitle"
+              className="text-sm font-medium leading-none"
+            >
+              Name
+            </label>
+            <Input
+              id="boardTitle"
+              value={title}
+              onChange={(e) => {
+                setTitle(e.target.value);
+                if (e.target.value.trim()) {
+                  setErrors({ ...errors, title: undefined });
+                }
+              }}
+              placeholder="Enter board name"
+              className={errors.title ? "border-red-500" : ""}
+              autoFocus
+            />
+            {errors.title && (
+              <p className="text-red-500 text-xs">{errors.title}</p>
+            )}
+          </div>
+
+          {/* Task key prefix, e.g. WEB for keys like WEB-42 */}
+          <div className="space-y-2">
+            <label
+              htmlFor="boardKeyPrefix"
+              className="text-sm font-medium leading-none"
+            >
+              Task key prefix
+            </label>
+            <Input
+              id="boardKeyPrefix"
+              value={keyPrefix}
+              onChange={(e) => {
+                const normalized = normalizeKeyPrefix(e.target.value);
+                setKeyPrefix(normalized);
+                if (isValidKeyPrefix(normalized)) {
+                  setErrors({ ...errors, keyPrefix: undefined });
+                }
+              }}
+              placeholder={DEFAULT_KEY_PREFIX}
+              className={`font-mono ${
+                errors.keyPrefix ? "border-red-500" : ""
+              }`}
+            />
+            {errors.keyPrefix ? (
+              <p className="text-red-500 text-xs">{errors.keyPrefix}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                New tasks get keys like {keyPrefix || DEFAULT_KEY_PREFIX}-42.
+                Existing keys don't change.
+              </p>
+            )}
+          </div>
+
+          <DialogFooter className="sm:justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit">{submitLabel}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BoardDialog;
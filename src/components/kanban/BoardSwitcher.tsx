@@ -0,0 +1,352 @@
+/**
+ * BoardSwitcher Component
+ *
+ * Shows the active board title in the header as a dropdown that lists the
+ * other boards and offers the board actions (new, import, rename, labels,
+ * members, board rules, JSON, CSV and calendar export, duplicate,
+ * archive, delete).
+ */
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Archive,
+  ArchiveRestore,
+  Check,
+  ChevronDown,
+  Copy,
+  Download,
+  Pencil,
+  Plus,
+  Tag,
+  Trash2,
+  Upload,
+  Users,
+} from "lucide-react";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast } from "@/store/useToastStore";
+import { createBoardFile } from "@/store/boardFile";
+import { downloadFile } from "@/lib/download";
+import { boardToCsv } from "@/lib/taskCsv";
+import type { Board } from "@/types";
+import BoardDialog from "./BoardDialog";
+import LabelsDialog from "./LabelsDialog";
+import MembersDialog from "./MembersDialog";
+import ImportBoardsDialog from "./ImportBoardsDialog";
+import CsvImportDialog from "./CsvImportDialog";
+import ExternalImportDialog from "./ExternalImportDialog";
+import ICalExportDialog from "./ICalExportDialog";
+
+/**
+ * Downloads boards as a JSON export file
+ * @param boards - The boards to export
+ * @param name - File name without extension
+ */
+const exportBoards = (boards: Board[], name: string) => {
+  downloadFile(
+    `${fileSlug(name)}.json`,
+    createBoardFile(boards),
+    "application/json"
+  );
+};
+
+/**
+ * Turns a name into a file name (without extension)
+ */
+const fileSlug = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "-") || "boards";
+
+/** Which board dialog is currently open */
+type DialogMode = "create" | "rename" | null;
+
+const BoardSwitcher: React.FC = () => {
+  const {
+    boards,
+    getActiveBoard,
+    setActiveBoard,
+    createBoard,
+    renameBoard,
+    setBoardKeyPrefix,
+    duplicateBoard,
+    archiveBoard,
+    deleteBoard,
+    updateBoardSettings,
+    getFilteredBoard,
+  } = useKanbanStore();
+  const [dialogMode, setDialogMode] = useState<DialogMode>(null);
+  const [labelsDialogOpen, setLabelsDialogOpen] = useState(false);
+  const [membersDialogOpen, setMembersDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [csvDialogOpen, setCsvDialogOpen] = useState(false);
+  const [externalDialogOpen, setExternalDialogOpen] = useState(false);
+  const [icalDialogOpen, setIcalDialogOpen] = useState(false);
+
+  const activeBoard = getActiveBoard();
+  const openBoards = boards.filter((board) => !board.archived);
+  const archivedBoards = boards.filter((board) => board.archived);
+
+  /**
+   * Deletes the active board after the user confirms
+   */
+  const handleDelete = () => {
+    const confirmed = window.confirm(
+      `Delete "${activeBoard.title}" and all of its tasks?`
+    );
+    if (confirmed) {
+      deleteBoard(activeBoard.id);
+      showUndoToast(`Board "${activeBoard.title}" deleted`);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            className="px-2 -ml-2 text-xl font-bold max-w-[70vw]"
+          >
+            <span className="truncate">{activeBoard.title}</span>
+            <ChevronDown className="size-4 text-gray-500" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="min-w-[220px]">
+          <DropdownMenuLabel>Boards</DropdownMenuLabel>
+          {/* Switch between open boards */}
+          {openBoards.map((board) => (
+            <DropdownMenuItem
+              key={board.id}
+              onClick={() => setActiveBoard(board.id)}
+              className="cursor-pointer"
+            >
+              <Check
+                className={`size-4 ${
+                  board.id === activeBoard.id ? "opacity-100" : "opacity-0"
+                }`}
+              />
+              <span className="truncate">{board.title}</span>
+            </DropdownMenuItem>
+          ))}
+
+          {/* Archived boards can be restored from a submenu */}
+          {archivedBoards.length > 0 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger className="cursor-pointer">
+                <Archive className="size-4 text-muted-foreground" />
+                Archived ({archivedBoards.length})
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="min-w-[200px]">
+                {archivedBoards.map((board) => (
+                  <DropdownMenuItem
+                    key={board.id}
+                    onClick={() => {
+                      archiveBoard(board.id, false);
+                      setActiveBoard(board.id);
+                    }}
+                    className="cursor-pointer"
+                  >
+                    <ArchiveRestore className="size-4" />
+                    <span className="truncate">{board.title}</span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setDialogMode("create")}
+            className="cursor-pointer"
+          >
+            <Plus className="size-4" />
+            New board
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setImportDialogOpen(true)}
+            className="cursor-pointer"
+          >
+            <Upload className="size-4" />
+            Import boards
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setExternalDialogOpen(true)}
+            className="cursor-pointer"
+          >
+            <Upload className="size-4" />
+            Import from Trello or GitHub
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => exportBoards(boards, "kanban-boards")}
+            className="cursor-pointer"
+          >
+            <Download className="size-4" />
+            Export all boards
+          </DropdownMenuItem>
+
+          {/* Actions for the active board */}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setDialogMode("rename")}
+            className="cursor-pointer"
+          >
+            <Pencil className="size-4" />
+            Edit board
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setLabelsDialogOpen(true)}
+            className="cursor-pointer"
+          >
+            <Tag className="size-4" />
+            Labels
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setMembersDialogOpen(true)}
+            className="cursor-pointer"
+          >
+            <Users className="size-4" />
+            Members
+          </DropdownMenuItem>
+          <DropdownMenuCheckboxItem
+            checked={activeBoard.settings.blockDoneWithOpenChecklist}
+            onCheckedChange={(checked) =>
+              updateBoardSettings(activeBoard.id, {
+                blockDoneWithOpenChecklist: checked,
+              })
+            }
+            className="cursor-pointer"
+          >
+            Finish checklists before Done
+          </DropdownMenuCheckboxItem>
+          <DropdownMenuCheckboxItem
+            checked={activeBoard.settings.strictWipLimits}
+            onCheckedChange={(checked) =>
+              updateBoardSettings(activeBoard.id, {
+                strictWipLimits: checked,
+              })
+            }
+            className="cursor-pointer"
+          >
+            Strict WIP limits
+          </DropdownMenuCheckboxItem>
+          <DropdownMenuItem
+            onClick={() => exportBoards([activeBoard], activeBoard.title)}
+            className="cursor-pointer"
+          >
+            <Download className="size-4" />
+            Export board
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() =>
+              downloadFile(
+                `${fileSlug(activeBoard.title)}.csv`,
+                boardToCsv(getFilteredBoard()),
+                "text/csv"
+              )
+            }
+            className="cursor-pointer"
+          >
+            <Download className="size-4" />
+            Export shown tasks as CSV
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setCsvDialogOpen(true)}
+            className="cursor-pointer"
+          >
+            <Upload className="size-4" />
+            Import tasks from CSV
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setIcalDialogOpen(true)}
+            className="cursor-pointer"
+          >
+            <Download className="size-4" />
+            Export due dates (.ics)
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => duplicateBoard(activeBoard.id)}
+            className="cursor-pointer"
+          >
+            <Copy className="size-4" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => {
+              archiveBoard(activeBoard.id);
+              showUndoToast(`Board "${activeBoard.title}" archived`);
+            }}
+            className="cursor-pointer"
+          >
+            <Archive className="size-4" />
+            Archive
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={handleDelete}
+            className="text-red-600 dark:text-red-400 cursor-pointer"
+          >
+            <Trash2 className="size-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <BoardDialog
+        open={dialogMode !== null}
+        onOpenChange={(open) => !open && setDialogMode(null)}
+        heading={dialogMode === "rename" ? "Edit Board" : "New Board"}
+        submitLabel={dialogMode === "rename" ? "Save" : "Create"}
+        initialTitle={dialogMode === "rename" ? activeBoard.title : ""}
+        initialKeyPrefix={
+          dialogMode === "rename" ? activeBoard.keyPrefix : undefined
+        }
+        onSubmit={(title, keyPrefix) => {
+          if (dialogMode === "rename") {
+            renameBoard(activeBoard.id, title);
+            setBoardKeyPrefix(activeBoard.id, keyPrefix);
+          } else {
+            createBoard(title, keyPrefix);
+          }
+        }}
+      />
+
+      <LabelsDialog
+        open={labelsDialogOpen}
+        onOpenChange={setLabelsDialogOpen}
+      />
+
+      <MembersDialog
+        open={membersDialogOpen}
+        onOpenChange={setMembersDialogOpen}
+      />
+
+      <ImportBoardsDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+      />
+
+      <CsvImportDialog open={csvDialogOpen} onOpenChange={setCsvDialogOpen} />
+
+      <ExternalImportDialog
+        open={externalDialogOpen}
+        onOpenChange={setExternalDialogOpen}
+      />
+
+      <ICalExportDialog
+        open={icalDialogOpen}
+        onOpenChange={setIcalDialogOpen}
+      />
+    </>
+  );
+};
+
+export default BoardSwitcher;
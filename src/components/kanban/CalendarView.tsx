@@ -0,0 +1,421 @@
+/**
+ * CalendarView Component
+ *
+ * Shows the filtered tasks of the board on a month or week calendar, each on
+ * the day it is due, with the tasks that have no due date in a sidebar.
+ * Dropping a task on another day moves its due date there; dropping it on
+ * the sidebar clears the due date.
+ */
+import React, { useCallback, useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  MouseSensor,
+  TouchSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import type { DragEndEvent, DragStartEvent } from "@dnd-kit/core";
+import { restrictToWindowEdges } from "@dnd-kit/modifiers";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { ColumnCategory } from "@/types";
+import type { Task } from "@/types";
+import {
+  CalendarMode,
+  dayKey,
+  getCalendarDays,
+  getTasksByDay,
+  getUnscheduledTasks,
+  moveToDay,
+  shiftAnchor,
+} from "@/lib/calendar";
+import { getPriorityBadge } from "@/lib/colors";
+import { cn } from "@/lib/utils";
+
+/**
+ * Calendar mode display text mapping
+ */
+const calendarModeNames = {
+  [CalendarMode.MONTH]: "Month",
+  [CalendarMode.WEEK]: "Week",
+};
+
+/** Weekday headers, starting on Monday like the calendar weeks */
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** Droppable id of the unscheduled sidebar */
+const UNSCHEDULED_ID = "unscheduled";
+
+/**
+ * Gets the calendar title, e.g. "March 2026" or "Mar 2 – Mar 8, 2026"
+ */
+const calendarTitle = (days: Date[], anchor: Date, mode: CalendarMode) => {
+  if (mode === CalendarMode.MONTH) {
+    return anchor.toLocaleDateString(undefined, {
+      month: "long",
+      year: "numeric",
+    });
+  }
+  const first = days[0];
+  const last = days[days.length - 1];
+  const format = (date: Date) =>
+    date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  return `${format(first)} – ${format(last)}, ${last.getFullYear()}`;
+};
+
+/**
+ * Props for the CalendarView component
+ */
+interface CalendarViewProps {
+  /** Callback for when a task is edited */
+  onEditTask: (task: Task) => void;
+  /** Callback for opening a task's details */
+  onOpenTaskDetails?: (task: Task) => void;
+}
+
+/**
+ * Props for the CalendarTask component
+ */
+interface CalendarTaskProps {
+  task: Task;
+  /** Whether the task is in a "done" column */
+  isDone: boolean;
+  /** Callback for when the task is clicked */
+  onOpen: (task: Task) => void;
+}
+
+/**
+ * A task on the calendar - key and title, colored by priority
+ */
+const CalendarTask: React.FC<CalendarTaskProps> = ({
+  task,
+  isDone,
+  onOpen,
+}) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: task.id,
+    data: { type: "Task", task },
+  });
+
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      {...attributes}
+      {...listeners}
+      onClick={() => onOpen(task)}
+      title={`${task.key} ${task.title}`}
+      className={cn(
+        "w-full truncate rounded px-1.5 py-0.5 text-left text-xs cursor-grab",
+        getPriorityBadge(task.priority),
+        isDone && "line-through opacity-60",
+        isDragging && "opacity-30"
+      )}
+    >
+      <span className="font-medium">{task.key}</span> {task.title}
+    </button>
+  );
+};
+
+/**
+ * Props for the DayCell component
+ */
+interface DayCellProps {
+  day: Date;
+  /** The tasks due that day */
+  tasks: Task[];
+  /** Whether the day is outside the month shown (dimmed) */
+  isOutside: boolean;
+  isToday: boolean;
+  /** Whether the cell is as tall as a week view allows */
+  isTall: boolean;
+  doneIds: Set<string>;
+  onOpen: (task: Task) => void;
+}
+
+/**
+ * One day of the calendar - the drop area for tasks due that day
+ */
+const DayCell: React.FC<DayCellProps> = ({
+  day,
+  tasks,
+  isOutside,
+  isToday,
+  isTall,
+  doneIds,
+  onOpen,
+}) => {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `day:${dayKey(day)}`,
+    data: { type: "Day", day },
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "flex flex-col gap-1 p-1 bg-white dark:bg-gray-900 overflow-y-auto",
+        isTall ? "min-h-[60vh]" : "h-28",
+        isOutside && "bg-gray-50 dark:bg-gray-800/50",
+        isOver && "bg-blue-50 dark:bg-blue-950/30"
+      )}
+    >
+      <span
+        className={cn(
+          "self-end flex items-center justify-center size-6 rounded-full text-xs",
+          isOutside
+            ? "text-gray-400 dark:text-gray-500"
+            : "text-gray-700 dark:text-gray-300",
+          isToday && "bg-blue-600 text-white dark:text-white font-semibold"
+        )}
+      >
+        {day.getDate()}
+      </span>
+      {tasks.map((task) => (
+        <CalendarTask
+          key={task.id}
+          task={task}
+          isDone={doneIds.has(task.id)}
+          onOpen={onOpen}
+        />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Props for the UnscheduledList component
+ */
+interface UnscheduledListProps {
+  tasks: Task[];
+  doneIds: Set<string>;
+  onOpen: (task: Task) => void;
+}
+
+/**
+ * Sidebar of the tasks without a due date - dropping a task here clears it
+ */
+const UnscheduledList: React.FC<UnscheduledListProps> = ({
+  tasks,
+  doneIds,
+  onOpen,
+}) => {
+  const { setNodeRef, isOver } = useDroppable({
+    id: UNSCHEDULED_ID,
+    data: { type: "Unscheduled" },
+  });
+
+  return (
+    <aside
+      ref={setNodeRef}
+      className={cn(
+        "w-full md:w-60 flex-shrink-0 flex flex-col gap-1 p-2 bg-gray-50 dark:bg-gray-800/50 rounded-md",
+        isOver && "bg-blue-50 dark:bg-blue-950/30"
+      )}
+    >
+      <h2 className="flex items-center justify-between mb-1 text-sm font-semibold text-gray-700 dark:text-gray-200">
+        Unscheduled
+        <span className="bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-0.5 rounded-full text-xs font-normal">
+          {tasks.length}
+        </span>
+      </h2>
+      {tasks.map((task) => (
+        <CalendarTask
+          key={task.id}
+          task={task}
+          isDone={doneIds.has(task.id)}
+          onOpen={onOpen}
+        />
+      ))}
+      {tasks.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Every shown task has a due date.
+        </p>
+      )}
+    </aside>
+  );
+};
+
+const CalendarView: React.FC<CalendarViewProps> = ({
+  onEditTask,
+  onOpenTaskDetails,
+}) => {
+  const { getFilteredBoard, updateTask } = useKanbanStore();
+  const filteredBoard = getFilteredBoard();
+
+  const [mode, setMode] = useState<CalendarMode>(CalendarMode.MONTH);
+  const [anchor, setAnchor] = useState(() => new Date()); // Any day of the month or week shown
+  const [activeTask, setActiveTask] = useState<Task | null>(null); // For drag overlay
+
+  const sensors = useSensors(
+    useSensor(MouseSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    }),
+    useSensor(TouchSensor, {
+      activationConstraint: {
+        delay: 250,
+        tolerance: 5,
+      },
+    })
+  );
+
+  const days = getCalendarDays(anchor, mode);
+  const tasksByDay = getTasksByDay(filteredBoard);
+  const unscheduled = getUnscheduledTasks(filteredBoard);
+  const doneIds = new Set(
+    filteredBoard.columns
+      .filter((column) => column.category === ColumnCategory.DONE)
+      .flatMap((column) => column.tasks.map((task) => task.id))
+  );
+  const todayKey = dayKey(new Date());
+  const openTask = onOpenTaskDetails ?? onEditTask;
+
+  const handleDragStart = useCallback((event: DragStartEvent) => {
+    const activeData = event.active.data.current;
+    if (activeData?.type === "Task") setActiveTask(activeData.task);
+  }, []);
+
+  /**
+   * Moves the due date of a dropped task to the day it was dropped on, or
+   * clears it when dropped on the unscheduled sidebar
+   */
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      setActiveTask(null);
+      const activeData = event.active.data.current;
+      const overData = event.over?.data.current;
+      if (activeData?.type !== "Task" || !overData) return;
+
+      const task = activeData.task as Task;
+      if (overData.type === "Day") {
+        const day = overData.day as Date;
+        if (task.dueDate && dayKey(task.dueDate) === dayKey(day)) return;
+        updateTask(task.id, { dueDate: moveToDay(task.dueDate, day) });
+      } else if (overData.type === "Unscheduled" && task.dueDate) {
+        updateTask(task.id, { dueDate: undefined });
+      }
+    },
+    [updateTask]
+  );
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveTask(null)}
+      modifiers={[restrictToWindowEdges]}
+    >
+      <div className="flex flex-col md:flex-row gap-4 p-4">
+        <div className="flex-1 min-w-0 flex flex-col gap-2">
+          {/* Navigation - previous, today, next and the span shown */}
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setAnchor(shiftAnchor(anchor, mode, -1))}
+              aria-label={`Previous ${mode}`}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setAnchor(new Date())}
+            >
+              Today
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setAnchor(shiftAnchor(anchor, mode, 1))}
+              aria-label={`Next ${mode}`}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <h2 className="font-semibold text-gray-700 dark:text-gray-200 mr-auto">
+              {calendarTitle(days, anchor, mode)}
+            </h2>
+            <div className="flex rounded-md border dark:border-gray-700 overflow-hidden">
+              {Object.values(CalendarMode).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMode(value)}
+                  aria-pressed={mode === value}
+                  className={cn(
+                    "px-3 py-1 text-sm",
+                    mode === value
+                      ? "bg-gray-200 dark:bg-gray-700 font-medium"
+                      : "hover:bg-gray-100 dark:hover:bg-gray-800"
+                  )}
+                >
+                  {calendarModeNames[value]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Weekday headers and days; gaps show as grid lines */}
+          <div className="grid grid-cols-7 gap-px bg-gray-200 dark:bg-gray-700 border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden">
+            {WEEKDAYS.map((weekday) => (
+              <div
+                key={weekday}
+                className="py-1 text-center text-xs font-medium text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-800"
+              >
+                {weekday}
+              </div>
+            ))}
+            {days.map((day) => {
+              const key = dayKey(day);
+              return (
+                <DayCell
+                  key={key}
+                  day={day}
+                  tasks={tasksByDay.get(key) ?? []}
+                  isOutside={
+                    mode === CalendarMode.MONTH &&
+                    day.getMonth() !== anchor.getMonth()
+                  }
+                  isToday={key === todayKey}
+                  isTall={mode === CalendarMode.WEEK}
+                  doneIds={doneIds}
+                  onOpen={openTask}
+                />
+              );
+            })}
+          </div>
+        </div>
+
+        <UnscheduledList
+          tasks={unscheduled}
+          doneIds={doneIds}
+          onOpen={openTask}
+        />
+      </div>
+
+      {/* Drag overlay - shows the task being dragged */}
+      <DragOverlay>
+        {activeTask && (
+          <div
+            className={cn(
+              "w-48 truncate rounded px-1.5 py-0.5 text-xs shadow-lg",
+              getPriorityBadge(activeTask.priority)
+            )}
+          >
+            <span className="font-medium">{activeTask.key}</span>{" "}
+            {activeTask.title}
+          </div>
+        )}
+      </DragOverlay>
+    </DndContext>
+  );
+};
+
+export default CalendarView;
@@ -0,0 +1,213 @@
+/**
+ * ChecklistEditor Component
+ *
+ * Edits a task's checklist inside the task dialog: check items off, change
+ * their text, remove them, add new ones and drag them into a new order.
+ * Changes are kept in the dialog until it is submitted.
+ */
+import React, { useState } from "react";
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import type { DragEndEvent } from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { restrictToVerticalAxis } from "@dnd-kit/modifiers";
+import { GripVertical, Plus, X } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ChecklistItem } from "@/types";
+import { cn } from "@/lib/utils";
+
+/**
+ * Props for the ChecklistEditor component
+ */
+interface ChecklistEditorProps {
+  /** The items, in order */
+  items: ChecklistItem[];
+
+  /** Called with the changed list */
+  onChange: (items: ChecklistItem[]) => void;
+}
+
+/**
+ * Props for the SortableChecklistRow component
+ */
+interface SortableChecklistRowProps {
+  item: ChecklistItem;
+  onChange: (item: ChecklistItem) => void;
+  onRemove: () => void;
+}
+
+/**
+ * One draggable checklist item (dragged by its grip handle)
+ */
+const SortableChecklistRow: React.FC<SortableChecklistRowProps> = ({
+  item,
+  onChange,
+  onRemove,
+}) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    setActivatorNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: item.id });
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn(
+        "flex items-center gap-1.5 rounded bg-background",
+        isDragging && "relative z-10 opacity-70 shadow"
+      )}
+    >
+      <button
+        type="button"
+        ref={setActivatorNodeRef}
+        {...attributes}
+        {...listeners}
+        className="cursor-grab touch-none text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+        aria-label={`Move "${item.text}"`}
+      >
+        <GripVertical className="size-4" />
+      </button>
+      <input
+        type="checkbox"
+        checked={item.done}
+        onChange={(e) => onChange({ ...item, done: e.target.checked })}
+        className="size-4 accent-current"
+        aria-label={`Done: ${item.text}`}
+      />
+      <Input
+        value={item.text}
+        onChange={(e) => onChange({ ...item, text: e.target.value })}
+        aria-label="Checklist item"
+        className={cn(
+          "h-8 flex-1 text-sm",
+          item.done && "line-through text-gray-500 dark:text-gray-400"
+        )}
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        className="text-gray-400 hover:text-red-600"
+        aria-label={`Remove "${item.text}"`}
+      >
+        <X size={14} />
+      </button>
+    </li>
+  );
+};
+
+const ChecklistEditor: React.FC<ChecklistEditorProps> = ({
+  items,
+  onChange,
+}) => {
+  const [newItemText, setNewItemText] = useState("");
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleAdd = () => {
+    const text = newItemText.trim();
+    if (!text) return;
+    onChange([...items, { id: uuidv4(), text, done: false }]);
+    setNewItemText("");
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    const fromIndex = items.findIndex((item) => item.id === active.id);
+    const toIndex = items.findIndex((item) => item.id === over.id);
+    if (fromIndex !== -1 && toIndex !== -1) {
+      onChange(arrayMove(items, fromIndex, toIndex));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.length > 0 && (
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCenter}
+          modifiers={[restrictToVerticalAxis]}
+          onDragEnd={handleDragEnd}
+        >
+          <SortableContext
+            items={items.map((item) => item.id)}
+            strategy={verticalListSortingStrategy}
+          >
+            <ul className="max-h-48 overflow-y-auto space-y-1">
+              {items.map((item) => (
+                <SortableChecklistRow
+                  key={item.id}
+                  item={item}
+                  onChange={(changed) =>
+                    onChange(
+                      items.map((other) =>
+                        other.id === changed.id ? changed : other
+                      )
+                    )
+                  }
+                  onRemove={() =>
+                    onChange(items.filter((other) => other.id !== item.id))
+                  }
+                />
+              ))}
+            </ul>
+          </SortableContext>
+        </DndContext>
+      )}
+
+      {/* New item - Enter adds it instead of submitting the dialog */}
+      <div className="flex items-center gap-2">
+        <Input
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Add an item"
+          aria-label="New checklist item"
+          className="h-8 flex-1 text-sm"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-8"
+          onClick={handleAdd}
+          disabled={!newItemText.trim()}
+        >
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ChecklistEditor;
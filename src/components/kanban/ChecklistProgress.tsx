@@ -0,0 +1,53 @@
+/**
+ * ChecklistProgress Component
+ *
+ * A thin progress bar with a "3/5" count, summing up a task's checklist.
+ */
+import React from "react";
+import { ListChecks } from "lucide-react";
+import type { ChecklistItem } from "@/types";
+import { checklistProgress } from "@/lib/checklist";
+import { cn } from "@/lib/utils";
+
+/**
+ * Props for the ChecklistProgress component
+ */
+interface ChecklistProgressProps {
+  /** The checklist to sum up (should not be empty) */
+  checklist: ChecklistItem[];
+}
+
+const ChecklistProgress: React.FC<ChecklistProgressProps> = ({ checklist }) => {
+  const { done, total } = checklistProgress(checklist);
+  const isComplete = done === total;
+
+  return (
+    <div
+      className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400"
+      title={`${done} of ${total} checklist items done`}
+    >
+      <ListChecks className="size-3.5 shrink-0" />
+      <div
+        className="h-1.5 flex-1 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={total}
+        aria-valuenow={done}
+        aria-label="Checklist progress"
+      >
+        <div
+          className={cn(
+            "h-full rounded-full transition-[width]",
+            isComplete ? "bg-green-500" : "bg-blue-500"
+          )}
+          style={{ width: `${(done / total) * 100}%` }}
+        />
+      </div>
+      <span className="tabular-nums">
+        {done}/{total}
+      </span>
+    </div>
+  );
+};
+
+export default ChecklistProgress;
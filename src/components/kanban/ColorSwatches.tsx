@@ -0,0 +1,41 @@
+/**
+ * ColorSwatches Component
+ *
+ * A compact row of accent color buttons, used to pick label and avatar colors.
+ */
+import React from "react";
+import type { ColumnColor } from "@/types";
+import { accentColorClasses, accentColors } from "@/lib/colors";
+import { cn } from "@/lib/utils";
+
+/**
+ * Props for the ColorSwatches component
+ */
+interface ColorSwatchesProps {
+  /** The selected color */
+  value: ColumnColor;
+  /** Called with the clicked color */
+  onChange: (color: ColumnColor) => void;
+}
+
+const ColorSwatches: React.FC<ColorSwatchesProps> = ({ value, onChange }) => (
+  <div className="flex gap-1">
+    {accentColors.map((swatch) => (
+      <button
+        key={swatch}
+        type="button"
+        onClick={() => onChange(swatch)}
+        className={cn(
+          "size-4 rounded-full ring-offset-1 ring-offset-background",
+          accentColorClasses[swatch].dot,
+          value === swatch && "ring-2 ring-gray-900 dark:ring-gray-100"
+        )}
+        title={swatch}
+        aria-label={`Use ${swatch} color`}
+        aria-pressed={value === swatch}
+      />
+    ))}
+  </div>
+);
+
+export default ColorSwatches;
@@ -2,62 +2,121 @@
  * Column Component
  *
  * Represents a column in the Kanban board that contains tasks.
- * Handles the droppable area for tasks and renders task cards.
+ * The column itself is sortable (dragged by its header) and acts as the
+ * droppable area for tasks. Renders task cards, and flags the column once
+ * it reaches its WIP limit.
  */
 import React from "react";
-import { useDroppable } from "@dnd-kit/core";
 import {
   SortableContext,
+  useSortable,
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
 import type { Column as ColumnType, Task } from "@/types";
 import TaskCard from "./TaskCard";
+import TaskCountBadge from "./TaskCountBadge";
 import { cn } from "@/lib/utils";
-import { Plus } from "lucide-react";
+import { accentColorClasses } from "@/lib/colors";
+import { wipLoad } from "@/lib/wip";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { MoreVertical, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 /**
  * Props for the Column component
  */
 interface ColumnProps {
-  /** The column data to display */
+  /** The column data to display (its tasks may be filtered) */
   column: ColumnType;
   /** Callback for when a task is edited */
   onEditTask: (task: Task) => void;
+  /** Callback for opening a task's details */
+  onOpenTaskDetails?: (task: Task) => void;
   /** Callback for creating a new task in this column */
   onCreateTask?: (columnStatus: string) => void;
+  /** Callback for editing the column's title, color and category */
+  onEditColumn?: (column: ColumnType) => void;
+  /** Callback for deleting the column */
+  onDeleteColumn?: (column: ColumnType) => void;
 }
 
 const Column: React.FC<ColumnProps> = ({
   column,
   onEditTask,
+  onOpenTaskDetails,
   onCreateTask,
+  onEditColumn,
+  onDeleteColumn,
 }) => {
-  // Set up droppable functionality for drag and drop
-  const { setNodeRef, isOver } = useDroppable({
-    id: column.status,
+  // The count and WIP limit always refer to every task in the column, not
+  // only the ones matching the filters
+  const { getActiveBoard } = useKanbanStore();
+  const fullColumn =
+    getActiveBoard().columns.find((col) => col.id === column.id) ?? column;
+  const load = wipLoad(fullColumn);
+  /**
+   * Set up sortable behavior for the column
+   *
+   * The whole column is the drop target for tasks, while only the header
+   * (the activator node) starts a column drag
+   */
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    setActivatorNodeRef,
+    transform,
+    transition,
+    isDragging,
+    isOver,
+    active,
+  } = useSortable({
+    id: column.id,
     data: {
       type: "Column",
       column,
     },
   });
 
-  /**
-   * Task Sorting Logic
-   *
-   * 1. Ensure column.tasks is an array (defensive programming)
-   * 2. Sort tasks by their updated or created date (newest first)
-   */
+  // CSS styles for drag transform and transition
+  const style = {
+    transform: CSS.Translate.toString(transform),
+    transition,
+  };
+
+  // Only highlight the drop area while a task (not a column) is dragged over it
+  const isTaskOver = isOver && active?.data.current?.type === "Task";
+
+  // Tasks are already stored in their manual order, so render them as-is
+  // (guarding against malformed data that isn't an array)
   const tasks = Array.isArray(column.tasks) ? column.tasks : [];
-  const sortedTasks = [...tasks].sort((a, b) => {
-    const dateA = a.updatedAt || a.createdAt;
-    const dateB = b.updatedAt || b.createdAt;
-    return new Date(dateB).getTime() - new Date(dateA).getTime();
-  });
 
   return (
-    <div className="w-full md:w-80 flex-shrink-0 flex flex-col mb-4 md:mb-0">
-      {/* Column header */}
-      <div className="bg-gray-100 dark:bg-gray-800 p-2 rounded-t-md">
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn(
+        "w-full md:w-80 flex-shrink-0 flex flex-col mb-4 md:mb-0",
+        isDragging && "opacity-50"
+      )}
+    >
+      {/* Column header - drag handle for reordering columns */}
+      <div
+        ref={setActivatorNodeRef}
+        className={cn(
+          "bg-gray-100 dark:bg-gray-800 p-2 rounded-t-md border-t-4 cursor-grab touch-manipulation",
+          accentColorClasses[column.color].border
+        )}
+        {...attributes}
+        {...listeners}
+      >
         <div className="flex items-center justify-between">
           <h2 className="font-semibold text-gray-700 dark:text-gray-200 truncate mr-2">
             {column.title}
@@ -66,7 +125,7 @@ const Column: React.FC<ColumnProps> = ({
             {/* Column-specific "Add Task" button */}
             {onCreateTask && (
               <button
-                onClick={() => onCreateTask(column.status)}
+                onClick={() => onCreateTask(column.id)}
                 className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
                 title={`Create task in ${column.title}`}
                 aria-label={`Add new task to ${column.title}`}
@@ -74,30 +133,66 @@ const Column: React.FC<ColumnProps> = ({
                 <Plus size={16} />
               </button>
             )}
-            <span className="bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-1 rounded-full text-xs">
-              {column.tasks.length}
-            </span>
+            <TaskCountBadge column={fullColumn} />
+            {/* Column actions menu */}
+            {(onEditColumn || onDeleteColumn) && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-6 w-6">
+                    <MoreVertical className="size-4" />
+                    <span className="sr-only">Column actions</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="min-w-[140px]">
+                  {onEditColumn && (
+                    <DropdownMenuItem
+                      onClick={() => onEditColumn(column)}
+                      className="cursor-pointer py-2"
+                    >
+                      <Pencil className="mr-2 size-4" />
+                      Edit column
+                    </DropdownMenuItem>
+                  )}
+                  {onDeleteColumn && (
+                    <DropdownMenuItem
+                      onClick={() => onDeleteColumn(column)}
+                      className="text-red-600 dark:text-red-400 cursor-pointer py-2"
+                    >
+                      <Trash2 className="mr-2 size-4" />
+                      Delete column
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
         </div>
       </div>
 
       {/* Task list container - this is the droppable area */}
       <div
-        ref={setNodeRef}
         className={cn(
           "flex-grow min-h-[200px] p-2 bg-gray-50 dark:bg-gray-800/50 rounded-b-md",
+          // Tint the column once it reaches (amber) or passes (red) its limit
+          load === "at" && "bg-amber-50 dark:bg-amber-950/20",
+          load === "over" && "bg-red-50 dark:bg-red-950/30",
           // Highlight the column when a task is being dragged over it
-          isOver && "bg-blue-50 dark:bg-blue-950/30"
+          isTaskOver && "bg-blue-50 dark:bg-blue-950/30"
         )}
       >
         {/* SortableContext enables sorting tasks within this column */}
         <SortableContext
-          items={sortedTasks.map((task) => task.id)}
+          items={tasks.map((task) => task.id)}
           strategy={verticalListSortingStrategy}
         >
           {/* Render all tasks in this column */}
-          {sortedTasks.map((task) => (
-            <TaskCard key={task.id} task={task} onEdit={onEditTask} />
+          {tasks.map((task) => (
+            <TaskCard
+              key={task.id}
+              task={task}
+              onEdit={onEditTask}
+              onOpenDetails={onOpenTaskDetails}
+            />
           ))}
         </SortableContext>
 
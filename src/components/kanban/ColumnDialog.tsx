@@ -0,0 +1,219 @@
+/**
+ * ColumnDialog Component
+ *
+ * A modal dialog for adding a new column or editing an existing one
+ * (title, accent color, workflow category and WIP limit).
+ */
+import React, { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { ColumnCategory, ColumnColor } from "@/types";
+import type { Column } from "@/types";
+import { accentColorClasses, accentColors } from "@/lib/colors";
+import { parseWipLimit } from "@/lib/wip";
+import { cn } from "@/lib/utils";
+
+/**
+ * Category display text mapping
+ */
+const categoryNames = {
+  [ColumnCategory.BACKLOG]: "Backlog",
+  [ColumnCategory.TODO]: "To Do",
+  [ColumnCategory.IN_PROGRESS]: "In Progress",
+  [ColumnCategory.DONE]: "Done",
+};
+
+/**
+ * Props for the ColumnDialog component
+ */
+interface ColumnDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+
+  /** Optional column to edit (undefined for create mode) */
+  columnToEdit?: Column;
+}
+
+const ColumnDialog: React.FC<ColumnDialogProps> = ({
+  open,
+  onOpenChange,
+  columnToEdit,
+}) => {
+  const { addColumn, updateColumn } = useKanbanStore();
+
+  // Form state
+  const [title, setTitle] = useState("");
+  const [color, setColor] = useState<ColumnColor>(ColumnColor.GRAY);
+  const [category, setCategory] = useState<ColumnCategory>(ColumnCategory.TODO);
+  // Kept as typed; an empty field means "no limit"
+  const [wipLimit, setWipLimit] = useState("");
+  const [error, setError] = useState<string | undefined>();
+
+  const isEditMode = Boolean(columnToEdit);
+
+  // Populate the form from the column being edited, or reset it for a new column
+  useEffect(() => {
+    if (open) {
+      setTitle(columnToEdit?.title ?? "");
+      setColor(columnToEdit?.color ?? ColumnColor.GRAY);
+      setCategory(columnToEdit?.category ?? ColumnCategory.TODO);
+      setWipLimit(columnToEdit?.wipLimit?.toString() ?? "");
+      setError(undefined);
+    }
+  }, [open, columnToEdit]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim()) {
+      setError("Column name is required");
+      return;
+    }
+
+    const limit = parseWipLimit(wipLimit);
+    if (columnToEdit) {
+      updateColumn(columnToEdit.id, {
+        title: title.trim(),
+        color,
+        category,
+        wipLimit: limit,
+      });
+    } else {
+      addColumn(title.trim(), color, category, limit);
+    }
+
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{isEditMode ? "Edit Column" : "Add Column"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label
+              htmlFor="columnTitle"
+              className="text-sm font-medium leading-none"
+            >
+              Name
+            </label>
+            <Input
+              id="columnTitle"
+              value={title}
+              onChange={(e) => {
+                setTitle(e.target.value);
+                if (e.target.value.trim()) {
+                  setError(undefined);
+                }
+              }}
+              placeholder="Enter column name"
+              className={error ? "border-red-500" : ""}
+              autoFocus
+            />
+            {error && <p className="text-red-500 text-xs">{error}</p>}
+          </div>
+
+          {/* Color swatches */}
+          <div className="space-y-2">
+            <span className="text-sm font-medium leading-none">Color</span>
+            <div className="flex flex-wrap gap-2">
+              {accentColors.map((swatch) => (
+                <button
+                  key={swatch}
+                  type="button"
+                  onClick={() => setColor(swatch)}
+                  className={cn(
+                    "size-6 rounded-full ring-offset-2 ring-offset-background",
+                    accentColorClasses[swatch].dot,
+                    color === swatch &&
+                      "ring-2 ring-gray-900 dark:ring-gray-100"
+                  )}
+                  title={swatch}
+                  aria-label={`Use ${swatch} color`}
+                  aria-pressed={color === swatch}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Category - tells the app which workflow stage the column represents */}
+          <div className="space-y-2">
+            <label
+              htmlFor="columnCategory"
+              className="text-sm font-medium leading-none"
+            >
+              Category
+            </label>
+            <Select
+              value={category}
+              onValueChange={(value) => setCategory(value as ColumnCategory)}
+            >
+              <SelectTrigger id="columnCategory">
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(ColumnCategory).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {categoryNames[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* WIP limit - the most tasks the column should hold at once */}
+          <div className="space-y-2">
+            <label
+              htmlFor="columnWipLimit"
+              className="text-sm font-medium leading-none"
+            >
+              WIP limit
+            </label>
+            <Input
+              id="columnWipLimit"
+              type="number"
+              min={1}
+              step={1}
+              value={wipLimit}
+              onChange={(e) => setWipLimit(e.target.value)}
+              placeholder="No limit"
+            />
+          </div>
+
+          <DialogFooter className="sm:justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit">{isEditMode ? "Save" : "Add"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ColumnDialog;
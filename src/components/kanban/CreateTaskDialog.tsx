@@ -22,9 +22,21 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { X } from "lucide-react";
 import { useKanbanStore } from "@/store/useKanbanStore";
-import { TaskPriority, TaskStatus } from "@/types";
-import type { Task } from "@/types";
+import { TaskPriority } from "@/types";
+import type { ChecklistItem, Task } from "@/types";
+import { fromDateInputValue, toDateInputValue } from "@/lib/dates";
+import {
+  describeFullColumn,
+  findFullColumn,
+  getRefusalMessage,
+} from "@/lib/wip";
+import { wouldCreateCycle } from "@/lib/dependencies";
+import { cn } from "@/lib/utils";
+import ChecklistEditor from "./ChecklistEditor";
+import LabelChip from "./LabelChip";
+import MemberAvatar from "./MemberAvatar";
 
 /**
  * Props for the CreateTaskDialog component
@@ -66,19 +78,46 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
   initialColumnStatus,
 }) => {
   // Access task-related actions from the store
-  const { createTask, updateTask } = useKanbanStore();
+  const { createTask, updateTask, getActiveBoard } = useKanbanStore();
+  const board = getActiveBoard();
+  const { columns, labels, members } = board;
 
   // Form state
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [status, setStatus] = useState<string>(TaskStatus.TODO);
+  const [status, setStatus] = useState<string>("");
   const [priority, setPriority] = useState<TaskPriority>(TaskPriority.MEDIUM);
+  const [startDate, setStartDate] = useState("");
   const [dueDate, setDueDate] = useState("");
-  const [errors, setErrors] = useState<{ title?: string }>({});
+  const [blockedByIds, setBlockedByIds] = useState<string[]>([]);
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [errors, setErrors] = useState<{
+    title?: string;
+    status?: string;
+    startDate?: string;
+  }>({});
 
   // Determine if we're in edit or create mode
   const isEditMode = Boolean(taskToEdit);
 
+  // The chosen column is already at its WIP limit (new tasks have no column yet)
+  const fullColumn = findFullColumn(
+    board,
+    { status: taskToEdit?.status ?? "" },
+    status
+  );
+
+  // Tasks that can block this one: any other task on the board, unless it
+  // (through its own blockers) waits for this task
+  const boardTasks = columns.flatMap((column) => column.tasks);
+  const blockerOptions = boardTasks.filter(
+    (task) =>
+      !blockedByIds.includes(task.id) &&
+      !(taskToEdit && wouldCreateCycle(board, taskToEdit.id, [task.id]))
+  );
+
   /**
    * Update form values when the dialog opens or inputs change
    *
@@ -96,35 +135,37 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
       if (taskToEdit) {
         // EDIT MODE: Populate form with existing task data
 
-        // Extract the task title without the task code (e.g., "TASK-123")
-        const taskTitle = taskToEdit.title.split(" ");
-        taskTitle.shift(); // Remove the first element (TASK-XXX)
-
-        setTitle(taskTitle.join(" "));
+        setTitle(taskToEdit.title);
         setDescription(taskToEdit.description || "");
         setStatus(taskToEdit.status); // Set status to task's current column
         setPriority(taskToEdit.priority);
-        setDueDate(
-          taskToEdit.dueDate
-            ? new Date(taskToEdit.dueDate).toISOString().split("T")[0]
-            : ""
-        );
+        setStartDate(toDateInputValue(taskToEdit.startDate));
+        setDueDate(toDateInputValue(taskToEdit.dueDate));
+        setBlockedByIds(taskToEdit.blockedByIds);
+        setLabelIds(taskToEdit.labelIds);
+        setAssigneeIds(taskToEdit.assigneeIds);
+        setChecklist(taskToEdit.checklist);
       } else {
         // CREATE MODE: Reset form with default values
 
         setTitle("");
         setDescription("");
-        setStatus(initialColumnStatus || TaskStatus.TODO); // Use specified column or default to TODO
+        setStatus(initialColumnStatus || getActiveBoard().columns[0]?.id || ""); // Use specified column or default to the first column
         setPriority(TaskPriority.MEDIUM);
+        setStartDate("");
         setDueDate("");
+        setBlockedByIds([]);
+        setLabelIds([]);
+        setAssigneeIds([]);
+        setChecklist([]);
       }
       setErrors({});
     }
-  }, [taskToEdit, open, initialColumnStatus]);
+  }, [taskToEdit, open, initialColumnStatus, getActiveBoard]);
 
   /**
    * Handles form submission for both creating and editing tasks
-   * In edit mode: Updates an existing task (preserves task code)
+   * In edit mode: Updates an existing task (its key never changes)
    * In create mode: Creates a new task in the specified column
    *
    * @param e - The form submit event
@@ -137,24 +178,57 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
       setErrors({ title: "Title is required" });
       return;
     }
+    if (startDate && dueDate && startDate > dueDate) {
+      setErrors({ startDate: "Start date must be on or before the due date" });
+      return;
+    }
+    // Items left empty are dropped rather than saved
+    const items = checklist.filter((item) => item.text.trim());
+    // The board may refuse the task in the chosen column (limits that
+    // aren't strict only show the warning below)
+    const refusal = getRefusalMessage(
+      board,
+      {
+        key: taskToEdit?.key,
+        status: taskToEdit?.status ?? "",
+        checklist: items,
+      },
+      status
+    );
+    if (refusal) {
+      setErrors({ status: refusal });
+      return;
+    }
 
     if (isEditMode && taskToEdit) {
-      // Update existing task, preserving the task code prefix
+      // Update existing task
       updateTask(taskToEdit.id, {
-        title: `${taskToEdit.title.split(" ")[0]} ${title}`, // Keep the task code (TASK-XXX)
+        title,
         description: description || undefined,
-        status: status as TaskStatus, // This will move the task to the proper column
+        status, // This will move the task to the proper column
         priority,
-        dueDate: dueDate ? new Date(dueDate) : undefined,
+        startDate: fromDateInputValue(startDate),
+        dueDate: fromDateInputValue(dueDate),
+        blockedByIds,
+        labelIds,
+        assigneeIds,
+        checklist: items,
       });
     } else {
       // Create a new task in the specified column (status)
       createTask(
         title,
         description || undefined,
-        status as TaskStatus, // Determines which column the task appears in
+        status, // Determines which column the task appears in
         priority,
-        dueDate ? new Date(dueDate) : undefined
+        fromDateInputValue(dueDate),
+        {
+          startDate: fromDateInputValue(startDate),
+          blockedByIds,
+          labelIds,
+          assigneeIds,
+          checklist: items,
+        }
       );
     }
 
@@ -164,10 +238,10 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
-            {isEditMode ? "Edit Task" : "Create New Task"}
+            {isEditMode ? `Edit ${taskToEdit?.key}` : "Create New Task"}
           </DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -219,20 +293,37 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
             >
               Status
             </label>
-            <Select value={status} onValueChange={(value) => setStatus(value)}>
-              <SelectTrigger>
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value);
+                setErrors({ ...errors, status: undefined });
+              }}
+            >
+              <SelectTrigger className={errors.status ? "border-red-500" : ""}>
                 <SelectValue placeholder="Select status" />
               </SelectTrigger>
               <SelectContent>
-                {/* TODO:: I will add backlog later as there is no need currently right now. */}
-                {/* <SelectItem value={TaskStatus.BACKLOG}>Backlog</SelectItem>  */}
-                <SelectItem value={TaskStatus.TODO}>To Do</SelectItem>
-                <SelectItem value={TaskStatus.IN_PROGRESS}>
-                  In Progress
-                </SelectItem>
-                <SelectItem value={TaskStatus.DONE}>Done</SelectItem>
+                {/* One option per column on the active board */}
+                {columns.map((column) => (
+                  <SelectItem key={column.id} value={column.id}>
+                    {column.title}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            {errors.status ? (
+              <p className="text-red-500 text-xs">{errors.status}</p>
+            ) : (
+              fullColumn && (
+                <p className="text-amber-600 dark:text-amber-400 text-xs">
+                  {describeFullColumn(fullColumn)}
+                  {board.settings.strictWipLimits
+                    ? "; pick another column"
+                    : "; this task will go over it"}
+                </p>
+              )
+            )}
           </div>
 
           <div className="space-y-2">
@@ -257,19 +348,196 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
             </Select>
           </div>
 
+          {/* Start and due date - the task's bar on the timeline */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label
+                htmlFor="startDate"
+                className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                Start Date
+              </label>
+              <Input
+                id="startDate"
+                type="date"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  setErrors({ ...errors, startDate: undefined });
+                }}
+                className={errors.startDate ? "border-red-500" : ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <label
+                htmlFor="dueDate"
+                className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                Due Date
+              </label>
+              <Input
+                id="dueDate"
+                type="date"
+                value={dueDate}
+                onChange={(e) => {
+                  setDueDate(e.target.value);
+                  setErrors({ ...errors, startDate: undefined });
+                }}
+              />
+            </div>
+            {errors.startDate && (
+              <p className="col-span-2 text-red-500 text-xs">
+                {errors.startDate}
+              </p>
+            )}
+          </div>
+
+          {/* Labels - click a chip to toggle it */}
+          <div className="space-y-2">
+            <span className="text-sm font-medium leading-none">Labels</span>
+            {labels.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                This board has no labels yet. Add them with "Labels" in the
+                board menu.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5">
+                {labels.map((label) => {
+                  const isSelected = labelIds.includes(label.id);
+                  return (
+                    <button
+                      key={label.id}
+                      type="button"
+                      onClick={() =>
+                        setLabelIds(
+                          isSelected
+                            ? labelIds.filter((id) => id !== label.id)
+                            : [...labelIds, label.id]
+                        )
+                      }
+                      aria-pressed={isSelected}
+                      className="rounded focus-visible:outline-2 focus-visible:outline-ring"
+                    >
+                      <LabelChip
+                        label={label}
+                        className={cn(
+                          "py-1",
+                          isSelected
+                            ? "ring-1 ring-current"
+                            : "opacity-40 hover:opacity-70"
+                        )}
+                      />
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Assignees - click a member to toggle them */}
+          <div className="space-y-2">
+            <span className="text-sm font-medium leading-none">Assignees</span>
+            {members.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                This board has no members yet. Add them with "Members" in the
+                board menu.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5">
+                {members.map((member) => {
+                  const isSelected = assigneeIds.includes(member.id);
+                  return (
+                    <button
+                      key={member.id}
+                      type="button"
+                      onClick={() =>
+                        setAssigneeIds(
+                          isSelected
+                            ? assigneeIds.filter((id) => id !== member.id)
+                            : [...assigneeIds, member.id]
+                        )
+                      }
+                      aria-pressed={isSelected}
+                      className={cn(
+                        "inline-flex items-center gap-1.5 rounded-full border py-0.5 pl-0.5 pr-2 text-xs focus-visible:outline-2 focus-visible:outline-ring",
+                        isSelected
+                          ? "border-gray-900 dark:border-gray-100"
+                          : "border-gray-200 dark:border-gray-700 opacity-50 hover:opacity-80"
+                      )}
+                    >
+                      <MemberAvatar member={member} className="size-5" />
+                      <span className="max-w-[8rem] truncate">
+                        {member.name}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Blocked by - tasks that must be done before this one */}
           <div className="space-y-2">
             <label
-              htmlFor="dueDate"
-              className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              htmlFor="blockedBy"
+              className="text-sm font-medium leading-none"
             >
-              Due Date
+              Blocked By
             </label>
-            <Input
-              id="dueDate"
-              type="date"
-              value={dueDate}
-              onChange={(e) => setDueDate(e.target.value)}
-            />
+            {blockedByIds.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {boardTasks
+                  .filter((task) => blockedByIds.includes(task.id))
+                  .map((task) => (
+                    <span
+                      key={task.id}
+                      className="inline-flex items-center gap-1 rounded-full border border-gray-200 dark:border-gray-700 py-0.5 pl-2 pr-1 text-xs"
+                    >
+                      <span className="font-medium">{task.key}</span>
+                      <span className="max-w-[10rem] truncate">
+                        {task.title}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setBlockedByIds(
+                            blockedByIds.filter((id) => id !== task.id)
+                          )
+                        }
+                        className="rounded-full text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+                        aria-label={`Remove blocker ${task.key}`}
+                      >
+                        <X className="size-3.5" />
+                      </button>
+                    </span>
+                  ))}
+              </div>
+            )}
+            {/* Picking a task adds it; the select itself stays empty */}
+            <Select
+              value=""
+              onValueChange={(value) =>
+                setBlockedByIds([...blockedByIds, value])
+              }
+              disabled={blockerOptions.length === 0}
+            >
+              <SelectTrigger id="blockedBy">
+                <SelectValue placeholder="Add a blocking task" />
+              </SelectTrigger>
+              <SelectContent>
+                {blockerOptions.map((task) => (
+                  <SelectItem key={task.id} value={task.id}>
+                    {task.key} {task.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Checklist - ordered steps, reorderable by their grip */}
+          <div className="space-y-2">
+            <span className="text-sm font-medium leading-none">Checklist</span>
+            <ChecklistEditor items={checklist} onChange={setChecklist} />
           </div>
 
           <DialogFooter className="sm:justify-end">
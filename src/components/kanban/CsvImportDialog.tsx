@@ -0,0 +1,363 @@
+/**
+ * CsvImportDialog Component
+ *
+ * Imports tasks from a CSV file into the active board. After a file is
+ * picked, the dialog previews its first rows and lets the user choose the
+ * task field of each column and the column and priority each status and
+ * priority value of the file goes to. Rows that can't become a task are
+ * listed with the reason before anything is imported.
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast } from "@/store/useToastStore";
+import { parseCsv } from "@/lib/csv";
+import {
+  CsvField,
+  buildTaskDrafts,
+  csvFieldNames,
+  distinctValues,
+  guessMapping,
+  guessValueMaps,
+} from "@/lib/taskCsv";
+import type { CsvMapping, CsvValueMaps } from "@/lib/taskCsv";
+import { cn } from "@/lib/utils";
+import { TaskPriority } from "@/types";
+import type { TaskStatus } from "@/types";
+
+/** Number of rows shown in the preview */
+const PREVIEW_ROWS = 5;
+
+/** Select value for columns that are not imported */
+const IGNORE = "ignore";
+
+/**
+ * Priority display text mapping
+ */
+const priorityNames = {
+  [TaskPriority.LOW]: "Low",
+  [TaskPriority.MEDIUM]: "Medium",
+  [TaskPriority.HIGH]: "High",
+};
+
+/**
+ * A CSV file read into rows
+ */
+interface CsvFile {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Props for the CsvImportDialog component
+ */
+interface CsvImportDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+const CsvImportDialog: React.FC<CsvImportDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { getActiveBoard, importTasks } = useKanbanStore();
+  const board = getActiveBoard();
+  const [file, setFile] = useState<CsvFile | undefined>();
+  const [fileError, setFileError] = useState<string | undefined>();
+  const [mapping, setMapping] = useState<CsvMapping>([]);
+  const [valueMaps, setValueMaps] = useState<CsvValueMaps>({
+    statuses: {},
+    priorities: {},
+  });
+
+  useEffect(() => {
+    if (open) {
+      setFile(undefined);
+      setFileError(undefined);
+      setMapping([]);
+      setValueMaps({ statuses: {}, priorities: {} });
+    }
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    setFile(undefined);
+    setFileError(undefined);
+    if (!picked) return;
+
+    const [headers, ...rows] = parseCsv(await picked.text());
+    if (!headers || rows.length === 0) {
+      setFileError("This file has no rows below the header.");
+      return;
+    }
+    const guessed = guessMapping(headers);
+    setFile({ headers, rows });
+    setMapping(guessed);
+    setValueMaps(guessValueMaps(rows, guessed, board));
+  };
+
+  // Picking another column for status or priority brings new values to map
+  const handleMappingChange = (index: number, value: string) => {
+    if (!file) return;
+    const field = value === IGNORE ? undefined : (value as CsvField);
+    const next = mapping.map((current, i) => {
+      if (i === index) return field;
+      return current === field ? undefined : current;
+    });
+    const guessed = guessValueMaps(file.rows, next, board);
+    setMapping(next);
+    setValueMaps({
+      statuses: { ...guessed.statuses, ...valueMaps.statuses },
+      priorities: { ...guessed.priorities, ...valueMaps.priorities },
+    });
+  };
+
+  const { drafts, errors } = useMemo(
+    () =>
+      file
+        ? buildTaskDrafts(file.rows, mapping, valueMaps, board)
+        : { drafts: [], errors: [] },
+    [file, mapping, valueMaps, board]
+  );
+
+  const statusValues = file
+    ? distinctValues(file.rows, mapping, CsvField.STATUS)
+    : [];
+  const priorityValues = file
+    ? distinctValues(file.rows, mapping, CsvField.PRIORITY)
+    : [];
+
+  const handleImport = () => {
+    const count = importTasks(drafts);
+    showUndoToast(`Imported ${count} ${count === 1 ? "task" : "tasks"}`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Tasks from CSV</DialogTitle>
+          <DialogDescription>
+            Tasks are added to "{board.title}". Choose what each column holds;
+            columns set to "Ignore" are left out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept="text/csv,.csv"
+          onChange={handleFileChange}
+          aria-label="CSV file"
+        />
+
+        {fileError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{fileError}</p>
+        )}
+
+        {file && (
+          <div className="space-y-4">
+            {/* Preview of the first rows, with the field of each column */}
+            <div className="overflow-x-auto rounded-md border border-gray-200 dark:border-gray-700">
+              <table className="text-xs w-full">
+                <thead>
+                  <tr className="bg-gray-50 dark:bg-gray-800">
+                    {file.headers.map((header, index) => (
+                      <th key={index} className="p-2 text-left align-top">
+                        <div className="font-medium mb-1 truncate">
+                          {header}
+                        </div>
+                        <Select
+                          value={mapping[index] ?? IGNORE}
+                          onValueChange={(value) =>
+                            handleMappingChange(index, value)
+                          }
+                        >
+                          <SelectTrigger
+                            className="h-7 min-w-28 text-xs"
+                            aria-label={`Field for ${header}`}
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={IGNORE}>Ignore</SelectItem>
+                            {Object.values(CsvField).map((field) => (
+                              <SelectItem key={field} value={field}>
+                                {csvFieldNames[field]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {file.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                    <tr
+                      key={rowIndex}
+                      className="border-t border-gray-200 dark:border-gray-700"
+                    >
+                      {file.headers.map((_, index) => (
+                        <td
+                          key={index}
+                          className={cn(
+                            "p-2 align-top max-w-48 truncate",
+                            !mapping[index] &&
+                              "text-gray-400 dark:text-gray-500"
+                          )}
+                        >
+                          {row[index]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Where each status and priority of the file goes */}
+            {(statusValues.length > 0 || priorityValues.length > 0) && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                {statusValues.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Status values</p>
+                    {statusValues.map((value) => (
+                      <div key={value} className="flex items-center gap-2">
+                        <span className="text-xs flex-1 truncate">
+                          {value || "(empty)"}
+                        </span>
+                        <Select
+                          value={valueMaps.statuses[value]}
+                          onValueChange={(status) =>
+                            setValueMaps({
+                              ...valueMaps,
+                              statuses: {
+                                ...valueMaps.statuses,
+                                [value]: status as TaskStatus,
+                              },
+                            })
+                          }
+                        >
+                          <SelectTrigger
+                            className="h-7 w-40 text-xs"
+                            aria-label={`Column for ${value || "empty status"}`}
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {board.columns.map((column) => (
+                              <SelectItem key={column.id} value={column.id}>
+                                {column.title}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {priorityValues.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Priority values</p>
+                    {priorityValues.map((value) => (
+                      <div key={value} className="flex items-center gap-2">
+                        <span className="text-xs flex-1 truncate">
+                          {value || "(empty)"}
+                        </span>
+                        <Select
+                          value={valueMaps.priorities[value]}
+                          onValueChange={(priority) =>
+                            setValueMaps({
+                              ...valueMaps,
+                              priorities: {
+                                ...valueMaps.priorities,
+                                [value]: priority as TaskPriority,
+                              },
+                            })
+                          }
+                        >
+                          <SelectTrigger
+                            className="h-7 w-40 text-xs"
+                            aria-label={`Priority for ${value || "empty priority"}`}
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.values(TaskPriority).map((priority) => (
+                              <SelectItem key={priority} value={priority}>
+                                {priorityNames[priority]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* What will happen, and which rows are skipped */}
+            <div className="space-y-1">
+              <p className="text-sm">
+                {drafts.length} {drafts.length === 1 ? "task" : "tasks"} will be
+                imported
+                {errors.length > 0 &&
+                  `, ${errors.length} ${errors.length === 1 ? "row" : "rows"} skipped`}
+                .
+              </p>
+              {errors.length > 0 && (
+                <ul className="max-h-32 overflow-y-auto text-xs space-y-0.5 text-amber-700 dark:text-amber-400">
+                  {errors.map((error) => (
+                    <li key={error.row}>
+                      Row {error.row}: {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={drafts.length === 0}
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvImportDialog;
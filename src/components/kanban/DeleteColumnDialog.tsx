@@ -0,0 +1,137 @@
+/**
+ * DeleteColumnDialog Component
+ *
+ * Confirms deleting a column and asks where its tasks should go:
+ * another column on the board, or deleted along with the column.
+ */
+import React, { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast } from "@/store/useToastStore";
+import type { Column } from "@/types";
+
+// Special value for "trash the tasks with the column" - must not be empty string
+const DELETE_TASKS = "delete_tasks";
+
+/**
+ * Props for the DeleteColumnDialog component
+ */
+interface DeleteColumnDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+
+  /** The column to delete */
+  column?: Column;
+}
+
+const DeleteColumnDialog: React.FC<DeleteColumnDialogProps> = ({
+  open,
+  onOpenChange,
+  column,
+}) => {
+  const { deleteColumn, getActiveBoard } = useKanbanStore();
+  const otherColumns = getActiveBoard().columns.filter(
+    (col) => col.id !== column?.id
+  );
+  const [destination, setDestination] = useState<string>(DELETE_TASKS);
+
+  // Default to moving tasks into the first other column
+  useEffect(() => {
+    if (open) {
+      const firstOther = getActiveBoard().columns.find(
+        (col) => col.id !== column?.id
+      );
+      setDestination(firstOther?.id ?? DELETE_TASKS);
+    }
+  }, [open, column, getActiveBoard]);
+
+  if (!column) return null;
+
+  const taskCount = column.tasks.length;
+  const isLastColumn = otherColumns.length === 0;
+
+  const handleDelete = () => {
+    deleteColumn(
+      column.id,
+      destination === DELETE_TASKS ? undefined : destination
+    );
+    showUndoToast(`Column "${column.title}" deleted`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Delete "{column.title}"?</DialogTitle>
+          <DialogDescription>
+            {isLastColumn
+              ? "A board needs at least one column, so this column can't be deleted."
+              : taskCount === 0
+                ? "This column has no tasks."
+                : `This column has ${taskCount} ${
+                    taskCount === 1 ? "task" : "tasks"
+                  }. Choose where ${taskCount === 1 ? "it goes" : "they go"}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Destination for the column's tasks */}
+        {!isLastColumn && taskCount > 0 && (
+          <Select value={destination} onValueChange={setDestination}>
+            <SelectTrigger>
+              <SelectValue placeholder="Move tasks to..." />
+            </SelectTrigger>
+            <SelectContent>
+              {otherColumns.map((col) => (
+                <SelectItem key={col.id} value={col.id}>
+                  Move to {col.title}
+                </SelectItem>
+              ))}
+              <SelectItem value={DELETE_TASKS}>
+                Move the tasks to the trash
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+
+        <DialogFooter className="sm:justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={isLastColumn}
+          >
+            Delete column
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeleteColumnDialog;
@@ -0,0 +1,187 @@
+/**
+ * ExternalImportDialog Component
+ *
+ * Creates a new board from a Trello board export or a GitHub issue or
+ * project dump. The kind of file is detected when it is picked; the dialog
+ * then shows what will be created and lets the user name the board.
+ */
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast } from "@/store/useToastStore";
+import { isTrelloExport, readTrelloExport } from "@/lib/trelloImport";
+import { isGitHubExport, readGitHubExport } from "@/lib/githubImport";
+import type { ExternalBoard } from "@/types";
+
+/**
+ * Result of reading an export file of another tool
+ */
+type ExternalFileResult =
+  | { ok: true; source: string; board: ExternalBoard }
+  | { ok: false; message: string };
+
+/**
+ * Detects the tool a file was exported from and reads it
+ * @param text - Content of the file
+ */
+const readExternalFile = (text: string): ExternalFileResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, message: "This file is not valid JSON." };
+  }
+  if (isTrelloExport(data)) {
+    return { ok: true, source: "Trello", board: readTrelloExport(data) };
+  }
+  if (isGitHubExport(data)) {
+    return { ok: true, source: "GitHub", board: readGitHubExport(data) };
+  }
+  return {
+    ok: false,
+    message:
+      "This file is not a Trello board export or a GitHub issue or project list.",
+  };
+};
+
+/**
+ * Props for the ExternalImportDialog component
+ */
+interface ExternalImportDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+const ExternalImportDialog: React.FC<ExternalImportDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { importExternalBoard } = useKanbanStore();
+  const [result, setResult] = useState<ExternalFileResult | undefined>();
+  const [title, setTitle] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setResult(undefined);
+      setTitle("");
+    }
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const read = file ? readExternalFile(await file.text()) : undefined;
+    setResult(read);
+    setTitle(read?.ok ? read.board.title : "");
+  };
+
+  const handleImport = () => {
+    if (!result?.ok || !title.trim()) return;
+    importExternalBoard({ ...result.board, title: title.trim() });
+    showUndoToast(`Imported "${title.trim()}" from ${result.source}`);
+    onOpenChange(false);
+  };
+
+  const taskCount = result?.ok
+    ? result.board.columns.reduce(
+        (total, column) => total + column.tasks.length,
+        0
+      )
+    : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import from Trello or GitHub</DialogTitle>
+          <DialogDescription>
+            Pick a Trello board JSON export, or the JSON written by{" "}
+            <code>gh issue list --json</code> or{" "}
+            <code>gh project item-list --format json</code>. A new board is
+            created; fields without a place on a task are kept in its
+            description.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          aria-label="Export file"
+        />
+
+        {result && !result.ok && (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            {result.message}
+          </p>
+        )}
+
+        {/* What will be created */}
+        {result?.ok && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {result.source} export with {result.board.columns.length}{" "}
+              {result.board.columns.length === 1 ? "column" : "columns"},{" "}
+              {taskCount} {taskCount === 1 ? "task" : "tasks"} and{" "}
+              {result.board.labels.length}{" "}
+              {result.board.labels.length === 1 ? "label" : "labels"}:
+            </p>
+            <ul className="text-sm space-y-1">
+              {result.board.columns.map((column, index) => (
+                <li key={index}>
+                  <span className="font-medium">{column.title}</span>{" "}
+                  <span className="text-gray-500 dark:text-gray-400">
+                    ({column.tasks.length})
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <div className="space-y-2">
+              <label
+                htmlFor="externalBoardTitle"
+                className="text-sm font-medium leading-none"
+              >
+                Board name
+              </label>
+              <Input
+                id="externalBoardTitle"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={!result?.ok || !title.trim()}
+          >
+            Create board
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExternalImportDialog;
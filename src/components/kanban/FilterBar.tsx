@@ -1,10 +1,20 @@
 /**
  * FilterBar Component
  *
- * Provides UI for filtering tasks in the Kanban board by status or priority.
+ * Provides UI for filtering tasks in the Kanban board by status (column),
+ * priority, label, assignee and due date (several values each), by created/updated date
+ * ranges, and for searching their key, title and description. Also picks
+ * the sort order and swimlane grouping, and lists the board's saved views.
  */
-import React from "react";
+import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Select,
   SelectContent,
@@ -12,19 +22,28 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { TaskPriority, TaskStatus } from "@/types";
+import {
+  AssigneeFilter,
+  DuePreset,
+  GroupField,
+  SortField,
+  TaskPriority,
+} from "@/types";
+import type { DateRange } from "@/types";
 import { useKanbanStore } from "@/store/useKanbanStore";
-import { Filter, X } from "lucide-react";
-
-/**
- * Status display text mapping
- */
-const statusNames = {
-  [TaskStatus.BACKLOG]: "Backlog",
-  [TaskStatus.TODO]: "To Do",
-  [TaskStatus.IN_PROGRESS]: "In Progress",
-  [TaskStatus.DONE]: "Done",
-};
+import { hasActiveFilters } from "@/lib/filters";
+import { fromDateInputValue, toDateInputValue } from "@/lib/dates";
+import {
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  CalendarRange,
+  ChevronDown,
+  Filter,
+  Search,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import SavedViewsMenu from "./SavedViewsMenu";
 
 /**
  * Priority display text mapping
@@ -35,24 +54,177 @@ const priorityNames = {
   [TaskPriority.HIGH]: "High",
 };
 
-// Special value for "Any" options in selects - must not be empty string
-const ANY_STATUS = "any_status";
-const ANY_PRIORITY = "any_priority";
+/**
+ * Due-date preset display text mapping
+ */
+const duePresetNames = {
+  [DuePreset.OVERDUE]: "Overdue",
+  [DuePreset.TODAY]: "Due today",
+  [DuePreset.THIS_WEEK]: "Due this week",
+  [DuePreset.NONE]: "No due date",
+};
+
+/**
+ * Sort field display text mapping
+ */
+const sortFieldNames = {
+  [SortField.MANUAL]: "Manual order",
+  [SortField.PRIORITY]: "Priority",
+  [SortField.DUE_DATE]: "Due date",
+  [SortField.CREATED_AT]: "Created",
+  [SortField.UPDATED_AT]: "Updated",
+  [SortField.TITLE]: "Title",
+};
+
+/**
+ * Swimlane grouping display text mapping
+ */
+const groupFieldNames = {
+  [GroupField.NONE]: "No swimlanes",
+  [GroupField.PRIORITY]: "By priority",
+  [GroupField.DUE]: "By due date",
+  [GroupField.ASSIGNEE]: "By assignee",
+  [GroupField.LABEL]: "By label",
+};
+
+/**
+ * Props for the MultiSelectFilter component
+ */
+interface MultiSelectFilterProps<T extends string> {
+  /** Name of the filtered field (e.g. "Status") */
+  label: string;
+  /** Values to choose from, with their display text */
+  options: Array<{ value: T; label: string }>;
+  /** Currently selected values */
+  selected: T[];
+  /** Called with the new selection */
+  onChange: (selected: T[]) => void;
+}
+
+/**
+ * Dropdown with a checkbox per value; shows how many values are selected
+ */
+const MultiSelectFilter = <T extends string>({
+  label,
+  options,
+  selected,
+  onChange,
+}: MultiSelectFilterProps<T>) => {
+  const toggle = (value: T, checked: boolean) => {
+    onChange(
+      checked
+        ? [...selected, value]
+        : selected.filter((selectedValue) => selectedValue !== value)
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("h-9 text-sm", selected.length > 0 && "border-primary")}
+        >
+          {selected.length === 1
+            ? options.find((option) => option.value === selected[0])?.label
+            : selected.length > 1
+              ? `${label}: ${selected.length}`
+              : `Any ${label}`}
+          <ChevronDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="min-w-[160px]">
+        {options.map((option) => (
+          <DropdownMenuCheckboxItem
+            key={option.value}
+            checked={selected.includes(option.value)}
+            onCheckedChange={(checked) => toggle(option.value, checked)}
+            // Keep the menu open so several values can be picked in a row
+            onSelect={(e) => e.preventDefault()}
+          >
+            {option.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+/**
+ * Props for the DateRangeFilter component
+ */
+interface DateRangeFilterProps {
+  /** Name of the filtered date (e.g. "Created") */
+  label: string;
+  /** The current range */
+  range: DateRange;
+  /** Called with the new range */
+  onChange: (range: DateRange) => void;
+}
+
+/**
+ * Pair of date inputs for an inclusive from/to range
+ */
+const DateRangeFilter: React.FC<DateRangeFilterProps> = ({
+  label,
+  range,
+  onChange,
+}) => (
+  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+    <span className="w-16">{label}</span>
+    <Input
+      type="date"
+      value={toDateInputValue(range.from)}
+      max={toDateInputValue(range.to) || undefined}
+      onChange={(e) =>
+        onChange({ ...range, from: fromDateInputValue(e.target.value) })
+      }
+      aria-label={`${label} from`}
+      className="h-9 w-36 text-sm"
+    />
+    <span>to</span>
+    <Input
+      type="date"
+      value={toDateInputValue(range.to)}
+      min={toDateInputValue(range.from) || undefined}
+      onChange={(e) =>
+        onChange({ ...range, to: fromDateInputValue(e.target.value) })
+      }
+      aria-label={`${label} to`}
+      className="h-9 w-36 text-sm"
+    />
+  </div>
+);
 
 /**
  * Filter bar component for filtering tasks
  */
 const FilterBar: React.FC = React.memo(() => {
   const {
-    filterByStatus,
-    filterByPriority,
-    setFilterStatus,
-    setFilterPriority,
+    filters,
+    setFilters,
     clearFilters,
+    sort,
+    setSort,
+    groupBy,
+    setGroupBy,
+    getActiveBoard,
+    getCurrentMember,
   } = useKanbanStore();
 
-  // Check if any filter is active
-  const hasActiveFilters = Boolean(filterByStatus || filterByPriority);
+  // Show the date ranges when opened, or when one of them is in use
+  const [showDateRanges, setShowDateRanges] = useState(false);
+  const hasDateRange = Boolean(
+    filters.created.from ||
+    filters.created.to ||
+    filters.updated.from ||
+    filters.updated.to
+  );
+
+  // Statuses are the columns of the active board
+  const { columns, labels, members } = getActiveBoard();
+  const currentMember = getCurrentMember();
 
   // Get filtered board to show filtered task count
   const filteredBoard = useKanbanStore().getFilteredBoard();
@@ -64,90 +236,212 @@ const FilterBar: React.FC = React.memo(() => {
   );
 
   return (
-    <div className="flex flex-wrap items-center gap-3 mb-6 p-3 bg-background border border-border/40 rounded-lg">
-      <div className="flex items-center gap-2 mr-1">
-        <Filter size={16} className="text-muted-foreground" />
-        <span className="text-sm font-medium text-muted-foreground">
-          Filters
-        </span>
-      </div>
+    <div className="flex flex-col gap-3 mb-6 p-3 bg-background border border-border/40 rounded-lg">
+      <div className="flex flex-wrap items-center gap-3">
+        {/* Saved views - one click applies a stored filter set */}
+        <SavedViewsMenu />
 
-      {/* Status filter */}
-      <Select
-        value={filterByStatus || ANY_STATUS}
-        onValueChange={(value) => {
-          // Convert ANY_STATUS to undefined, or keep the TaskStatus value
-          setFilterStatus(
-            value === ANY_STATUS ? undefined : (value as TaskStatus)
-          );
-        }}
-      >
-        <SelectTrigger className="w-[120px] sm:w-[130px] h-9 text-sm">
-          <SelectValue placeholder="Status: Any" />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectItem value={ANY_STATUS}>Any Status</SelectItem>
-          {/* I remove backlog filter as currently no need to implement. */}
-          {/* <SelectItem value={TaskStatus.BACKLOG}>
-            {statusNames[TaskStatus.BACKLOG]}
-          </SelectItem> */}
-          <SelectItem value={TaskStatus.TODO}>
-            {statusNames[TaskStatus.TODO]}
-          </SelectItem>
-          <SelectItem value={TaskStatus.IN_PROGRESS}>
-            {statusNames[TaskStatus.IN_PROGRESS]}
-          </SelectItem>
-          <SelectItem value={TaskStatus.DONE}>
-            {statusNames[TaskStatus.DONE]}
-          </SelectItem>
-        </SelectContent>
-      </Select>
-
-      {/* Priority filter */}
-      <Select
-        value={filterByPriority || ANY_PRIORITY}
-        onValueChange={(value) => {
-          // Convert ANY_PRIORITY to undefined, or keep the TaskPriority value
-          setFilterPriority(
-            value === ANY_PRIORITY ? undefined : (value as TaskPriority)
-          );
-        }}
-      >
-        <SelectTrigger className="w-[120px] sm:w-[130px] h-9 text-sm">
-          <SelectValue placeholder="Priority: Any" />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectItem value={ANY_PRIORITY}>Any Priority</SelectItem>
-          <SelectItem value={TaskPriority.LOW}>
-            {priorityNames[TaskPriority.LOW]}
-          </SelectItem>
-          <SelectItem value={TaskPriority.MEDIUM}>
-            {priorityNames[TaskPriority.MEDIUM]}
-          </SelectItem>
-          <SelectItem value={TaskPriority.HIGH}>
-            {priorityNames[TaskPriority.HIGH]}
-          </SelectItem>
-        </SelectContent>
-      </Select>
-
-      {/* Task count */}
-      <div className="ml-auto flex items-center">
-        <span className="text-sm text-muted-foreground">
-          {taskCount} {taskCount === 1 ? "task" : "tasks"}
-        </span>
-      </div>
+        <div className="flex items-center gap-2 mr-1">
+          <Filter size={16} className="text-muted-foreground" />
+          <span className="text-sm font-medium text-muted-foreground">
+            Filters
+          </span>
+        </div>
+
+        {/* Full-text search - ignores case and accents */}
+        <div className="relative w-full sm:w-56">
+          <Search
+            size={14}
+            className="absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground"
+          />
+          <Input
+            type="search"
+            value={filters.search}
+            onChange={(e) => setFilters({ search: e.target.value })}
+            placeholder="Search tasks"
+            aria-label="Search tasks"
+            className="h-9 pl-8 text-sm"
+          />
+        </div>
+
+        {/* Status filter */}
+        <MultiSelectFilter
+          label="Status"
+          options={columns.map((column) => ({
+            value: column.id,
+            label: column.title,
+          }))}
+          selected={filters.statuses}
+          onChange={(statuses) => setFilters({ statuses })}
+        />
+
+        {/* Priority filter */}
+        <MultiSelectFilter
+          label="Priority"
+          options={Object.values(TaskPriority).map((priority) => ({
+            value: priority,
+            label: priorityNames[priority],
+          }))}
+          selected={filters.priorities}
+          onChange={(priorities) => setFilters({ priorities })}
+        />
+
+        {/* Label filter - a task matches if it has any selected label */}
+        {labels.length > 0 && (
+          <MultiSelectFilter
+            label="Label"
+            options={labels.map((label) => ({
+              value: label.id,
+              label: label.name,
+            }))}
+            selected={filters.labelIds}
+            onChange={(labelIds) => setFilters({ labelIds })}
+          />
+        )}
+
+        {/* Assignee filter - "me" follows the current user set under Members */}
+        <MultiSelectFilter
+          label="Assignee"
+          options={[
+            {
+              value: AssigneeFilter.ME,
+              label: currentMember
+                ? `Assigned to me (${currentMember.name})`
+                : "Assigned to me (not set)",
+            },
+            { value: AssigneeFilter.UNASSIGNED, label: "Unassigned" },
+            ...members.map((member) => ({
+              value: member.id,
+              label: member.name,
+            })),
+          ]}
+          selected={filters.assignees}
+          onChange={(assignees) => setFilters({ assignees })}
+        />
+
+        {/* Due date presets */}
+        <MultiSelectFilter
+          label="Due Date"
+          options={Object.values(DuePreset).map((preset) => ({
+            value: preset,
+            label: duePresetNames[preset],
+          }))}
+          selected={filters.due}
+          onChange={(due) => setFilters({ due })}
+        />
 
-      {/* Clear filters button, only shown when filters are active */}
-      {hasActiveFilters && (
+        {/* Toggle for the created/updated date ranges */}
         <Button
           variant="outline"
           size="sm"
-          onClick={clearFilters}
-          className="h-8 ml-2 text-xs whitespace-nowrap"
+          onClick={() => setShowDateRanges((shown) => !shown)}
+          className={cn("h-9 text-sm", hasDateRange && "border-primary")}
+          aria-expanded={showDateRanges || hasDateRange}
         >
-          <X size={14} className="mr-1" />
-          <span className="hidden sm:inline">Clear</span>
+          <CalendarRange className="h-4 w-4" />
+          Dates
         </Button>
+
+        {/* Sort order within columns */}
+        <div className="flex items-center gap-1">
+          <Select
+            value={sort.field}
+            onValueChange={(field) =>
+              setSort({ ...sort, field: field as SortField })
+            }
+          >
+            <SelectTrigger
+              className="w-[140px] h-9 text-sm"
+              aria-label="Sort tasks by"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(SortField).map((field) => (
+                <SelectItem key={field} value={field}>
+                  {sortFieldNames[field]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {sort.field !== SortField.MANUAL && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-9"
+              onClick={() =>
+                setSort({
+                  ...sort,
+                  direction: sort.direction === "asc" ? "desc" : "asc",
+                })
+              }
+              title={sort.direction === "asc" ? "Ascending" : "Descending"}
+              aria-label="Toggle sort direction"
+            >
+              {sort.direction === "asc" ? (
+                <ArrowUpNarrowWide className="h-4 w-4" />
+              ) : (
+                <ArrowDownWideNarrow className="h-4 w-4" />
+              )}
+            </Button>
+          )}
+        </div>
+
+        {/* Swimlanes - split the board into rows by a task field */}
+        <Select
+          value={groupBy}
+          onValueChange={(field) => setGroupBy(field as GroupField)}
+        >
+          <SelectTrigger
+            className="w-[140px] h-9 text-sm"
+            aria-label="Group tasks into swimlanes"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(GroupField).map((field) => (
+              <SelectItem key={field} value={field}>
+                {groupFieldNames[field]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Task count */}
+        <div className="ml-auto flex items-center">
+          <span className="text-sm text-muted-foreground">
+            {taskCount} {taskCount === 1 ? "task" : "tasks"}
+          </span>
+        </div>
+
+        {/* Clear filters button, only shown when filters are active */}
+        {hasActiveFilters(filters) && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={clearFilters}
+            className="h-8 ml-2 text-xs whitespace-nowrap"
+          >
+            <X size={14} className="mr-1" />
+            <span className="hidden sm:inline">Clear</span>
+          </Button>
+        )}
+      </div>
+
+      {/* Created / updated date ranges */}
+      {(showDateRanges || hasDateRange) && (
+        <div className="flex flex-wrap gap-x-6 gap-y-2">
+          <DateRangeFilter
+            label="Created"
+            range={filters.created}
+            onChange={(created) => setFilters({ created })}
+          />
+          <DateRangeFilter
+            label="Updated"
+            range={filters.updated}
+            onChange={(updated) => setFilters({ updated })}
+          />
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,45 @@
+/**
+ * HighlightedText Component
+ *
+ * Renders text with the parts that match the search query highlighted.
+ * Matching ignores case and accents (see lib/search).
+ */
+import React from "react";
+import { findMatches } from "@/lib/search";
+
+/**
+ * Props for the HighlightedText component
+ */
+interface HighlightedTextProps {
+  /** The text to render */
+  text: string;
+
+  /** Search text whose words should be highlighted */
+  query: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query }) => {
+  const matches = findMatches(text, query);
+  if (matches.length === 0) return <>{text}</>;
+
+  // Alternate between plain text and highlighted matches
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  matches.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark
+        key={start}
+        className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-700/60"
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
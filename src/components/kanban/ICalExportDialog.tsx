@@ -0,0 +1,169 @@
+/**
+ * ICalExportDialog Component
+ *
+ * Downloads the due dates of the active board as an iCalendar (.ics) file
+ * that calendar apps can import. The user picks whether all tasks or only
+ * those shown with the current filters are exported, and whether they
+ * become to-dos or events.
+ */
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download } from "lucide-react";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import {
+  CalendarComponent,
+  boardToICalendar,
+  countDatedTasks,
+} from "@/lib/ical";
+import { downloadFile } from "@/lib/download";
+
+/** Which tasks are exported */
+type ExportScope = "board" | "filtered";
+
+/**
+ * Calendar component display text mapping
+ */
+const componentNames = {
+  [CalendarComponent.TODO]: "To-dos (due on the date)",
+  [CalendarComponent.EVENT]: "Events on the due date",
+};
+
+/**
+ * Props for the ICalExportDialog component
+ */
+interface ICalExportDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+const ICalExportDialog: React.FC<ICalExportDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { getActiveBoard, getFilteredBoard } = useKanbanStore();
+  const [scope, setScope] = useState<ExportScope>("filtered");
+  const [component, setComponent] = useState<CalendarComponent>(
+    CalendarComponent.EVENT
+  );
+
+  useEffect(() => {
+    if (open) {
+      setScope("filtered");
+      setComponent(CalendarComponent.EVENT);
+    }
+  }, [open]);
+
+  const board = scope === "board" ? getActiveBoard() : getFilteredBoard();
+  const count = open ? countDatedTasks(board) : 0;
+
+  const handleDownload = () => {
+    const slug = board.title.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    downloadFile(
+      `${slug || "board"}.ics`,
+      boardToICalendar(board, component),
+      "text/calendar"
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Due Dates</DialogTitle>
+          <DialogDescription>
+            Downloads an .ics file with every task that has a due date, to
+            import into a calendar app.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label
+            htmlFor="icalScope"
+            className="text-sm font-medium leading-none"
+          >
+            Tasks
+          </label>
+          <Select
+            value={scope}
+            onValueChange={(value) => setScope(value as ExportScope)}
+          >
+            <SelectTrigger id="icalScope">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="filtered">
+                Shown with the current filters
+              </SelectItem>
+              <SelectItem value="board">All tasks of the board</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <label
+            htmlFor="icalComponent"
+            className="text-sm font-medium leading-none"
+          >
+            Add as
+          </label>
+          <Select
+            value={component}
+            onValueChange={(value) => setComponent(value as CalendarComponent)}
+          >
+            <SelectTrigger id="icalComponent">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(CalendarComponent).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {componentNames[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {count === 0
+            ? "No tasks with a due date to export."
+            : `${count} ${count === 1 ? "task" : "tasks"} with a due date.`}
+        </p>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleDownload} disabled={count === 0}>
+            <Download className="h-4 w-4" />
+            Download .ics
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ICalExportDialog;
@@ -0,0 +1,188 @@
+/**
+ * ImportBoardsDialog Component
+ *
+ * Imports boards from a JSON export file. The file is checked as soon as it
+ * is picked: a valid file shows what it contains, an invalid one lists every
+ * problem by field. The user then picks how the boards are added.
+ */
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast } from "@/store/useToastStore";
+import { readBoardFile } from "@/store/boardFile";
+import type { BoardFileReadResult } from "@/store/boardFile";
+import { ImportMode } from "@/types";
+
+/**
+ * Import mode display text and explanation mapping
+ */
+const importModeTexts = {
+  [ImportMode.NEW_BOARD]: {
+    name: "Import as new board",
+    description: "Adds a copy of each board next to your current boards.",
+  },
+  [ImportMode.MERGE]: {
+    name: "Merge by task ID",
+    description:
+      "Updates tasks that already exist and adds the others, into the same board or the current one.",
+  },
+  [ImportMode.REPLACE]: {
+    name: "Replace",
+    description:
+      "Replaces boards with the same ID entirely; other boards are added.",
+  },
+};
+
+/**
+ * Props for the ImportBoardsDialog component
+ */
+interface ImportBoardsDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+const ImportBoardsDialog: React.FC<ImportBoardsDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { importBoards } = useKanbanStore();
+  const [result, setResult] = useState<BoardFileReadResult | undefined>();
+  const [mode, setMode] = useState<ImportMode>(ImportMode.NEW_BOARD);
+
+  useEffect(() => {
+    if (open) {
+      setResult(undefined);
+      setMode(ImportMode.NEW_BOARD);
+    }
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setResult(file ? readBoardFile(await file.text()) : undefined);
+  };
+
+  const handleImport = () => {
+    if (!result?.ok) return;
+    const boardIds = importBoards(result.boards, mode);
+    showUndoToast(
+      `Imported ${boardIds.length} ${boardIds.length === 1 ? "board" : "boards"}`
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Boards</DialogTitle>
+          <DialogDescription>
+            Pick a JSON file exported from this app. Nothing changes until you
+            import it, and the import can be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          aria-label="Export file"
+        />
+
+        {/* Problems found in the file, by field */}
+        {result && !result.ok && (
+          <div className="space-y-1">
+            <p className="text-sm text-red-600 dark:text-red-400">
+              This file can't be imported:
+            </p>
+            <ul className="max-h-48 overflow-y-auto text-xs font-mono space-y-0.5">
+              {result.errors.map((error, index) => (
+                <li key={index}>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {error.path}
+                  </span>{" "}
+                  {error.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* What the file contains, and how to add it */}
+        {result?.ok && (
+          <div className="space-y-3">
+            <ul className="text-sm space-y-1">
+              {result.summaries.map((summary, index) => (
+                <li key={index}>
+                  <span className="font-medium">{summary.title}</span>{" "}
+                  <span className="text-gray-500 dark:text-gray-400">
+                    ({summary.columns} columns, {summary.tasks} tasks)
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <div className="space-y-2">
+              <label
+                htmlFor="importMode"
+                className="text-sm font-medium leading-none"
+              >
+                Mode
+              </label>
+              <Select
+                value={mode}
+                onValueChange={(value) => setMode(value as ImportMode)}
+              >
+                <SelectTrigger id="importMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(ImportMode).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {importModeTexts[value].name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {importModeTexts[mode].description}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleImport} disabled={!result?.ok}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportBoardsDialog;
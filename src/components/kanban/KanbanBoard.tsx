@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
 import {
   DndContext,
   DragOverlay,
@@ -12,33 +12,107 @@ import type {
   DragOverEvent,
   DragStartEvent,
 } from "@dnd-kit/core";
-import { arrayMove } from "@dnd-kit/sortable";
+import {
+  horizontalListSortingStrategy,
+  SortableContext,
+} from "@dnd-kit/sortable";
 import { Button } from "@/components/ui/button";
-import { Plus } from "lucide-react";
+import { Archive, FileText, Plus, Redo2, Trash2, Undo2 } from "lucide-react";
 import { useKanbanStore } from "@/store/useKanbanStore";
-import type { Task } from "@/types";
-import { TaskStatus } from "@/types";
+import { showWarningToast } from "@/store/useToastStore";
+import { getOverLimitWarning, getRefusalMessage } from "@/lib/wip";
+import { BoardLayout, GroupField, SortField } from "@/types";
+import type { Column as ColumnType, Task } from "@/types";
 import Column from "./Column";
 import TaskCard from "./TaskCard";
 import CreateTaskDialog from "./CreateTaskDialog";
 import FilterBar from "./FilterBar";
+import BoardSwitcher from "./BoardSwitcher";
+import ColumnDialog from "./ColumnDialog";
+import DeleteColumnDialog from "./DeleteColumnDialog";
+import QuarantineNotice from "./QuarantineNotice";
+import TrashDialog from "./TrashDialog";
+import ArchiveDialog from "./ArchiveDialog";
+import MarkdownExportDialog from "./MarkdownExportDialog";
+import TaskDetailDialog from "./TaskDetailDialog";
+import Swimlanes from "./Swimlanes";
+import CalendarView from "./CalendarView";
+import TableView from "./TableView";
+import TimelineView from "./TimelineView";
+import LayoutSwitcher from "./LayoutSwitcher";
 import { restrictToWindowEdges } from "@dnd-kit/modifiers";
+import { useViewUrlSync } from "@/hooks/useViewUrlSync";
 
 const KanbanBoard: React.FC = () => {
-  const { board, moveTask, updateTask, getFilteredBoard } = useKanbanStore();
+  const {
+    moveTask,
+    reorderTask,
+    moveColumn,
+    getFilteredBoard,
+    getActiveBoard,
+    sort,
+    groupBy,
+    layout,
+    past,
+    future,
+    undo,
+    redo,
+    beginHistoryBatch,
+    endHistoryBatch,
+  } = useKanbanStore();
+  const board = getActiveBoard();
+  // Mirror the board, filters and saved view in the URL
+  useViewUrlSync();
   const [activeTask, setActiveTask] = useState<Task | null>(null); // For drag overlay
+  const [activeColumn, setActiveColumn] = useState<ColumnType | null>(null); // For column drag overlay
   const [createDialogOpen, setCreateDialogOpen] = useState(false); // Controls dialog visibility
   const [taskToEdit, setTaskToEdit] = useState<Task | undefined>(undefined); // For edit mode
+  const [detailTaskId, setDetailTaskId] = useState<string | undefined>(); // Task shown in the detail view
   // Tracks which column a new task should be created in (when using column-specific "+" button)
-  const [currentColumnStatus, setCurrentColumnStatus] = useState<string>(
-    TaskStatus.TODO
-  );
+  const [currentColumnStatus, setCurrentColumnStatus] = useState<string>("");
+  // Column dialogs: add/edit uses columnToEdit (undefined = add), delete uses columnToDelete
+  const [columnDialogOpen, setColumnDialogOpen] = useState(false);
+  const [columnToEdit, setColumnToEdit] = useState<ColumnType | undefined>();
+  const [columnToDelete, setColumnToDelete] = useState<
+    ColumnType | undefined
+  >();
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [archiveOpen, setArchiveOpen] = useState(false);
+  const [markdownOpen, setMarkdownOpen] = useState(false);
 
   // Get the filtered board data based on current filters
   const filteredBoard = getFilteredBoard();
 
-  // Check if there's an issue with board data
-  const hasBoardDataIssue = !board?.columns || !Array.isArray(board.columns);
+  /**
+   * Keyboard shortcuts for history:
+   * Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes.
+   * Text fields keep their native undo behavior.
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (
+        target?.isContentEditable ||
+        target?.tagName === "INPUT" ||
+        target?.tagName === "TEXTAREA"
+      ) {
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
 
   // Configure sensors for drag and drop
   const sensors = useSensors(
@@ -58,14 +132,22 @@ const KanbanBoard: React.FC = () => {
   );
 
   // Event handlers for drag and drop - memoized to prevent recreation on each render
-  const handleDragStart = useCallback((event: DragStartEvent) => {
-    const { active } = event;
-    const activeData = active.data.current;
+  const handleDragStart = useCallback(
+    (event: DragStartEvent) => {
+      const { active } = event;
+      const activeData = active.data.current;
 
-    if (activeData?.type === "Task") {
-      setActiveTask(activeData.task);
-    }
-  }, []);
+      // Group every change made during this drag into one undo step
+      beginHistoryBatch();
+
+      if (activeData?.type === "Task") {
+        setActiveTask(activeData.task);
+      } else if (activeData?.type === "Column") {
+        setActiveColumn(activeData.column);
+      }
+    },
+    [beginHistoryBatch]
+  );
 
   const handleDragOver = useCallback(
     (event: DragOverEvent) => {
@@ -85,69 +167,153 @@ const KanbanBoard: React.FC = () => {
       // Task over column
       if (activeData?.type === "Task" && overData?.type === "Column") {
         const task = activeData.task as Task;
-        const destinationStatus = overData.column.status;
+        const destinationStatus = overData.column.id;
 
         // Only move if the status is different
         if (task.status !== destinationStatus) {
           moveTask(task.id, destinationStatus);
         }
       }
+
+      // Task over a task in another column - drop it right at that task's position
+      if (
+        activeData?.type === "Task" &&
+        overData?.type === "Task" &&
+        activeData.task.status !== overData.task.status
+      ) {
+        const destinationStatus = overData.task.status;
+        const destinationColumn = board.columns.find(
+          (col) => col.id === destinationStatus
+        );
+        const overIndex =
+          destinationColumn?.tasks.findIndex((t) => t.id === overId) ?? -1;
+
+        moveTask(
+          activeData.task.id,
+          destinationStatus,
+          overIndex === -1 ? undefined : overIndex
+        );
+      }
     },
-    [moveTask]
+    [board, moveTask]
   );
 
-  const handleDragEnd = useCallback(
+  /**
+   * Applies the final position of a dropped task or column
+   * @param event - The drag end event from dnd-kit
+   */
+  const applyDrop = useCallback(
     (event: DragEndEvent) => {
       const { active, over } = event;
 
-      if (!over) {
-        setActiveTask(null);
-        return;
-      }
+      if (!over) return;
 
       const activeId = active.id;
       const overId = over.id;
 
       // Return if no change
-      if (activeId === overId) {
-        setActiveTask(null);
-        return;
-      }
+      if (activeId === overId) return;
 
       const activeData = active.data.current;
       const overData = over.data.current;
 
-      // Task over task (reordering)
+      // Column over column (or over a task inside another column): reorder columns
+      if (activeData?.type === "Column") {
+        const targetColumnId =
+          overData?.type === "Task"
+            ? overData.task.status
+            : overData?.column?.id;
+        const newIndex = board.columns.findIndex(
+          (col) => col.id === targetColumnId
+        );
+
+        if (newIndex !== -1) {
+          moveColumn(activeData.column.id, newIndex);
+        }
+        return;
+      }
+
+      // Task over task (reordering) - only in manual order, since a sorted
+      // column has no position to drop into
       if (
         activeData?.type === "Task" &&
         overData?.type === "Task" &&
-        activeData.task.status === overData.task.status
+        activeData.task.status === overData.task.status &&
+        sort.field === SortField.MANUAL
       ) {
         // Find the column containing these tasks
         const column = board.columns.find(
-          (col) => col.status === activeData.task.status
+          (col) => col.id === activeData.task.status
         );
 
         if (column) {
-          // Get the task indices
-          const oldIndex = column.tasks.findIndex((t) => t.id === activeId);
+          // Indices come from the unfiltered column so the stored order stays
+          // correct even while filters hide some of its tasks
           const newIndex = column.tasks.findIndex((t) => t.id === overId);
 
-          // Reorder tasks in the column
-          const newTasks = arrayMove(column.tasks, oldIndex, newIndex);
-
-          // Update tasks with new order (we'd need to add ordering logic to our state)
-          // This is a simplified approach, you might want to use an order field in your tasks
-          newTasks.forEach((task, index) => {
-            updateTask(task.id, { updatedAt: new Date(Date.now() + index) });
-          });
+          if (newIndex !== -1) {
+            reorderTask(String(activeId), column.id, newIndex);
+          }
         }
       }
+    },
+    [board, sort, reorderTask, moveColumn]
+  );
+
+  /**
+   * Explains why a dropped task stayed put when the board refuses it in the
+   * target column (open checklist items or a strict WIP limit), and warns
+   * when a drop takes a column past its limit on other boards
+   * @param event - The drag end event from dnd-kit
+   */
+  const warnIfBlocked = useCallback(
+    (event: DragEndEvent) => {
+      const activeData = event.active.data.current;
+      const overData = event.over?.data.current;
+      if (activeData?.type !== "Task" || !activeTask) return;
+
+      const task = activeData.task as Task;
+      const targetStatus =
+        overData?.type === "Task" ? overData.task.status : overData?.column?.id;
+      if (!targetStatus) return;
+      // Drag-over moves happen live, so by now the task is in the target
+      // column unless the board refused it there
+      const targetColumn = board.columns.find((col) => col.id === targetStatus);
+      if (!targetColumn) return;
+      const arrived = targetColumn.tasks.some((t) => t.id === task.id);
+      const warning = arrived
+        ? activeTask.status !== targetStatus
+          ? getOverLimitWarning(targetColumn)
+          : undefined
+        : getRefusalMessage(
+            board,
+            { ...task, status: activeTask.status },
+            targetStatus
+          );
+      if (warning) showWarningToast(warning);
+    },
+    [board, activeTask]
+  );
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      warnIfBlocked(event);
+      applyDrop(event);
 
+      // Close the history entry opened in handleDragStart, so the whole
+      // gesture (every moveTask during drag-over plus the drop) undoes in one step
+      endHistoryBatch();
       setActiveTask(null);
+      setActiveColumn(null);
     },
-    [board, updateTask, setActiveTask]
+    [warnIfBlocked, applyDrop, endHistoryBatch]
   );
+
+  const handleDragCancel = useCallback(() => {
+    endHistoryBatch();
+    setActiveTask(null);
+    setActiveColumn(null);
+  }, [endHistoryBatch]);
   /**
    * Opens the edit dialog for an existing task
    * @param task - The task to edit
@@ -157,6 +323,14 @@ const KanbanBoard: React.FC = () => {
     setCreateDialogOpen(true);
   }, []);
 
+  /**
+   * Opens the detail view (comments and activity) of a task
+   * @param task - The task to show
+   */
+  const handleOpenTaskDetails = useCallback((task: Task) => {
+    setDetailTaskId(task.id);
+  }, []);
+
   /**
    * Opens the create task dialog for a specific column
    * This is triggered when clicking the "+" button in a column header
@@ -168,32 +342,94 @@ const KanbanBoard: React.FC = () => {
     setCreateDialogOpen(true); // Open the dialog
   }, []);
 
-  // Function to clear localStorage and reload
-  const resetBoardData = () => {
-    localStorage.removeItem("kanban-storage");
-    window.location.reload();
-  };
+  /**
+   * Opens the column dialog in add mode (no column) or edit mode
+   * @param column - The column to edit, undefined to add a new column
+   */
+  const handleOpenColumnDialog = useCallback((column?: ColumnType) => {
+    setColumnToEdit(column);
+    setColumnDialogOpen(true);
+  }, []);
+
+  /**
+   * Opens the delete confirmation for a column
+   * Looks the column up on the unfiltered board so the task count is accurate
+   * @param column - The column to delete
+   */
+  const handleDeleteColumn = useCallback(
+    (column: ColumnType) => {
+      setColumnToDelete(board.columns.find((col) => col.id === column.id));
+    },
+    [board]
+  );
 
   return (
     <div className="flex flex-col h-full overscroll-none">
       <div className="flex flex-wrap justify-between items-center gap-3 mb-4 p-2">
-        <h1 className="text-xl font-bold">Kanban Board</h1>
+        {/* Board switcher - shows the active board title and board actions */}
+        <BoardSwitcher />
         <div className="flex flex-wrap gap-2">
-          {hasBoardDataIssue && (
-            <Button
-              onClick={resetBoardData}
-              variant="destructive"
-              size="sm"
-              className="whitespace-nowrap"
-            >
-              Reset Data
-            </Button>
-          )}
+          {/* Layout - columns, calendar, table or timeline */}
+          <LayoutSwitcher />
+          {/* Undo / redo the last board change */}
+          <Button
+            onClick={undo}
+            disabled={past.length === 0}
+            variant="outline"
+            size="sm"
+            title="Undo (Ctrl+Z)"
+            aria-label="Undo"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            onClick={redo}
+            disabled={future.length === 0}
+            variant="outline"
+            size="sm"
+            title="Redo (Ctrl+Shift+Z)"
+            aria-label="Redo"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          {/* Markdown - the shown tasks as text for status updates */}
+          <Button
+            onClick={() => setMarkdownOpen(true)}
+            variant="outline"
+            size="sm"
+            title="Export as Markdown"
+            aria-label="Export as Markdown"
+          >
+            <FileText className="h-4 w-4" />
+          </Button>
+          {/* Archive - finished tasks moved out of the columns */}
+          <Button
+            onClick={() => setArchiveOpen(true)}
+            variant="outline"
+            size="sm"
+            title="Archive"
+            aria-label="Open archive"
+          >
+            <Archive className="h-4 w-4" />
+          </Button>
+          {/* Trash - deleted tasks of this board, with restore */}
+          <Button
+            onClick={() => setTrashOpen(true)}
+            variant="outline"
+            size="sm"
+            title="Trash"
+            aria-label="Open trash"
+          >
+            <Trash2 className="h-4 w-4" />
+            {board.trash.length > 0 && (
+              <span className="text-xs">{board.trash.length}</span>
+            )}
+          </Button>
           {/* Main "Add Task" button - creates tasks in the To Do column by default */}
           <Button
             onClick={() => {
               setTaskToEdit(undefined); // Not editing an existing task
-              setCurrentColumnStatus(TaskStatus.TODO); // Default to TODO column
+              setCurrentColumnStatus(board.columns[0]?.id ?? ""); // Default to the first column
               setCreateDialogOpen(true); // Open the task creation dialog
             }}
             size="sm"
@@ -204,61 +440,114 @@ const KanbanBoard: React.FC = () => {
         </div>
       </div>
 
+      {/* Shown only when stored records failed validation on load */}
+      <QuarantineNotice />
+
       {/* Filter bar for filtering tasks */}
       <div className="px-2">
         <FilterBar />
       </div>
 
       <div className="flex-1 overflow-x-auto">
-        <DndContext
-          sensors={sensors}
-          onDragStart={handleDragStart}
-          onDragOver={handleDragOver}
-          onDragEnd={handleDragEnd}
-          modifiers={[restrictToWindowEdges]}
-        >
-          <div className="flex flex-col md:flex-row gap-4 p-4">
-            {filteredBoard &&
-            filteredBoard.columns &&
-            Array.isArray(filteredBoard.columns) ? (
-              <>
-                {filteredBoard.columns.map((column) => (
-                  <Column
-                    key={column.id}
-                    column={column}
-                    onEditTask={handleEditTask}
-                    onCreateTask={handleCreateTaskInColumn} // Enables "+" button in column header
-                  />
-                ))}
-
-                {/* Show message when no tasks match the filters */}
-                {filteredBoard.columns.every(
-                  (col) => col.tasks.length === 0
-                ) && (
-                  <div className="w-full text-center p-4 sm:p-8 bg-gray-50 dark:bg-gray-800/50 rounded-md">
-                    <p>No tasks match the current filters.</p>
-                    <p className="text-xs sm:text-sm text-gray-500 mt-2">
-                      Try adjusting your filters or create new tasks.
-                    </p>
-                  </div>
-                )}
-              </>
-            ) : (
-              <div className="w-full text-center p-8">
-                Loading board data...
-              </div>
-            )}
-          </div>
-
-          {/* Drag overlay - shows the task being dragged */}
-          <DragOverlay>
-            {activeTask && (
-              <div className="w-full md:w-80">
-                <TaskCard task={activeTask} onEdit={() => {}} />
-              </div>
-            )}
-          </DragOverlay>
-        </DndContext>
+        {/* The calendar places tasks on their due date, the table lists them
+            as rows and the timeline draws them from start to due date;
+            grouped boards show swimlanes, each with the full set of columns */}
+        {layout === BoardLayout.CALENDAR ? (
+          <CalendarView
+            onEditTask={handleEditTask}
+            onOpenTaskDetails={handleOpenTaskDetails}
+          />
+        ) : layout === BoardLayout.TABLE ? (
+          <TableView
+            onEditTask={handleEditTask}
+            onOpenTaskDetails={handleOpenTaskDetails}
+          />
+        ) : layout === BoardLayout.TIMELINE ? (
+          <TimelineView
+            onEditTask={handleEditTask}
+            onOpenTaskDetails={handleOpenTaskDetails}
+          />
+        ) : groupBy !== GroupField.NONE ? (
+          <Swimlanes
+            onEditTask={handleEditTask}
+            onOpenTaskDetails={handleOpenTaskDetails}
+            onCreateTask={handleCreateTaskInColumn}
+          />
+        ) : (
+          <DndContext
+            sensors={sensors}
+            onDragStart={handleDragStart}
+            onDragOver={handleDragOver}
+            onDragEnd={handleDragEnd}
+            onDragCancel={handleDragCancel}
+            modifiers={[restrictToWindowEdges]}
+          >
+            <div className="flex flex-col md:flex-row gap-4 p-4">
+              {filteredBoard &&
+              filteredBoard.columns &&
+              Array.isArray(filteredBoard.columns) ? (
+                <>
+                  {/* Columns can be reordered by dragging their headers */}
+                  <SortableContext
+                    items={filteredBoard.columns.map((column) => column.id)}
+                    strategy={horizontalListSortingStrategy}
+                  >
+                    {filteredBoard.columns.map((column) => (
+                      <Column
+                        key={column.id}
+                        column={column}
+                        onEditTask={handleEditTask}
+                        onOpenTaskDetails={handleOpenTaskDetails}
+                        onCreateTask={handleCreateTaskInColumn} // Enables "+" button in column header
+                        onEditColumn={handleOpenColumnDialog}
+                        onDeleteColumn={handleDeleteColumn}
+                      />
+                    ))}
+                  </SortableContext>
+
+                  {/* Add a new column at the end of the board */}
+                  <Button
+                    variant="outline"
+                    onClick={() => handleOpenColumnDialog()}
+                    className="w-full md:w-60 flex-shrink-0 border-dashed text-gray-500"
+                  >
+                    <Plus className="mr-1 h-4 w-4" /> Add Column
+                  </Button>
+
+                  {/* Show message when no tasks match the filters */}
+                  {filteredBoard.columns.every(
+                    (col) => col.tasks.length === 0
+                  ) && (
+                    <div className="w-full text-center p-4 sm:p-8 bg-gray-50 dark:bg-gray-800/50 rounded-md">
+                      <p>No tasks match the current filters.</p>
+                      <p className="text-xs sm:text-sm text-gray-500 mt-2">
+                        Try adjusting your filters or create new tasks.
+                      </p>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="w-full text-center p-8">
+                  Loading board data...
+                </div>
+              )}
+            </div>
+
+            {/* Drag overlay - shows the task being dragged */}
+            <DragOverlay>
+              {activeTask && (
+                <div className="w-full md:w-80">
+                  <TaskCard task={activeTask} onEdit={() => {}} />
+                </div>
+              )}
+              {activeColumn && (
+                <div className="w-full md:w-80 bg-gray-100 dark:bg-gray-800 p-2 rounded-md shadow-lg font-semibold text-gray-700 dark:text-gray-200">
+                  {activeColumn.title}
+                </div>
+              )}
+            </DragOverlay>
+          </DndContext>
+        )}
       </div>
 
       <CreateTaskDialog
@@ -267,6 +556,33 @@ const KanbanBoard: React.FC = () => {
         taskToEdit={taskToEdit}
         initialColumnStatus={currentColumnStatus}
       />
+
+      <TaskDetailDialog
+        taskId={detailTaskId}
+        onOpenChange={(open) => !open && setDetailTaskId(undefined)}
+        onEdit={handleEditTask}
+      />
+
+      <ColumnDialog
+        open={columnDialogOpen}
+        onOpenChange={setColumnDialogOpen}
+        columnToEdit={columnToEdit}
+      />
+
+      <DeleteColumnDialog
+        open={Boolean(columnToDelete)}
+        onOpenChange={(open) => !open && setColumnToDelete(undefined)}
+        column={columnToDelete}
+      />
+
+      <TrashDialog open={trashOpen} onOpenChange={setTrashOpen} />
+
+      <ArchiveDialog open={archiveOpen} onOpenChange={setArchiveOpen} />
+
+      <MarkdownExportDialog
+        open={markdownOpen}
+        onOpenChange={setMarkdownOpen}
+      />
     </div>
   );
 };
@@ -0,0 +1,35 @@
+/**
+ * LabelChip Component
+ *
+ * A small colored pill showing a label's name.
+ */
+import React from "react";
+import type { Label } from "@/types";
+import { accentColorClasses } from "@/lib/colors";
+import { cn } from "@/lib/utils";
+
+/**
+ * Props for the LabelChip component
+ */
+interface LabelChipProps {
+  /** The label to show */
+  label: Label;
+
+  /** Optional extra classes (e.g. to dim unselected labels) */
+  className?: string;
+}
+
+const LabelChip: React.FC<LabelChipProps> = ({ label, className }) => (
+  <span
+    className={cn(
+      "inline-flex items-center max-w-[10rem] px-1.5 py-0.5 rounded text-[11px] font-medium leading-none",
+      accentColorClasses[label.color].chip,
+      className
+    )}
+    title={label.name}
+  >
+    <span className="truncate">{label.name}</span>
+  </span>
+);
+
+export default LabelChip;
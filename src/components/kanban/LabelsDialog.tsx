@@ -0,0 +1,183 @@
+/**
+ * LabelsDialog Component
+ *
+ * Manages the active board's label catalog: add labels, rename or recolor
+ * them, and delete them. Tasks refer to labels by ID, so every change shows
+ * up on all tasks using the label right away.
+ */
+import React, { useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast } from "@/store/useToastStore";
+import { ColumnColor } from "@/types";
+import type { Label } from "@/types";
+import { cn } from "@/lib/utils";
+import LabelChip from "./LabelChip";
+import ColorSwatches from "./ColorSwatches";
+
+/**
+ * Props for the LabelsDialog component
+ */
+interface LabelsDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+const LabelsDialog: React.FC<LabelsDialogProps> = ({ open, onOpenChange }) => {
+  const { getActiveBoard, addLabel, updateLabel, deleteLabel } =
+    useKanbanStore();
+  const board = getActiveBoard();
+
+  // Form state for a new label
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<ColumnColor>(ColumnColor.BLUE);
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setColor(ColumnColor.BLUE);
+      setError(undefined);
+    }
+  }, [open]);
+
+  /**
+   * Checks a label name against the catalog
+   * @returns An error message, or undefined if the name can be used
+   */
+  const validateName = (value: string, ignoreId?: string) => {
+    if (!value.trim()) return "Label name is required";
+    const isTaken = board.labels.some(
+      (label) =>
+        label.id !== ignoreId &&
+        label.name.toLowerCase() === value.trim().toLowerCase()
+    );
+    return isTaken ? "A label with this name already exists" : undefined;
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nameError = validateName(name);
+    if (nameError) {
+      setError(nameError);
+      return;
+    }
+    addLabel(name.trim(), color);
+    setName("");
+  };
+
+  const handleRename = (label: Label, value: string) => {
+    // Invalid names are ignored; the input falls back to the current name
+    if (value.trim() !== label.name && !validateName(value, label.id)) {
+      updateLabel(label.id, { name: value.trim() });
+    }
+  };
+
+  const handleDelete = (label: Label) => {
+    deleteLabel(label.id);
+    showUndoToast(`Label "${label.name}" deleted`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Labels</DialogTitle>
+          <DialogDescription>
+            Labels of "{board.title}". Renaming or deleting a label updates
+            every task that uses it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {board.labels.length === 0 ? (
+          <p className="py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+            No labels yet.
+          </p>
+        ) : (
+          <ul className="max-h-72 overflow-y-auto space-y-2">
+            {board.labels.map((label) => (
+              <li key={label.id} className="flex items-center gap-2">
+                <LabelChip label={label} className="w-20 justify-center" />
+                <Input
+                  // Re-mount when the name changes elsewhere (e.g. undo)
+                  key={label.name}
+                  defaultValue={label.name}
+                  onBlur={(e) => handleRename(label, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                  }}
+                  aria-label={`Name of label ${label.name}`}
+                  className="h-8 flex-1 text-sm"
+                />
+                <ColorSwatches
+                  value={label.color}
+                  onChange={(swatch) =>
+                    updateLabel(label.id, { color: swatch })
+                  }
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 text-red-600 hover:text-red-700"
+                  onClick={() => handleDelete(label)}
+                  aria-label={`Delete label ${label.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* New label */}
+        <form
+          onSubmit={handleAdd}
+          className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-4"
+        >
+          <div className="flex items-center gap-2">
+            <Input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(undefined);
+              }}
+              placeholder="New label, e.g. bug"
+              aria-label="New label name"
+              className={cn("h-8 flex-1 text-sm", error && "border-red-500")}
+            />
+            <ColorSwatches value={color} onChange={setColor} />
+            <Button type="submit" size="sm" className="h-8">
+              Add
+            </Button>
+          </div>
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+        </form>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LabelsDialog;
@@ -0,0 +1,58 @@
+/**
+ * LayoutSwitcher Component
+ *
+ * Toggle buttons for how the tasks of the board are laid out. Filters, sort
+ * and the saved view stay the same when switching.
+ */
+import React from "react";
+import { CalendarDays, ChartGantt, Columns3, Table } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { BoardLayout } from "@/types";
+import { cn } from "@/lib/utils";
+
+/**
+ * Layout display text and icon mapping
+ */
+const layoutOptions: Record<BoardLayout, { name: string; icon: LucideIcon }> = {
+  [BoardLayout.BOARD]: { name: "Board", icon: Columns3 },
+  [BoardLayout.CALENDAR]: { name: "Calendar", icon: CalendarDays },
+  [BoardLayout.TABLE]: { name: "Table", icon: Table },
+  [BoardLayout.TIMELINE]: { name: "Timeline", icon: ChartGantt },
+};
+
+const LayoutSwitcher: React.FC = () => {
+  const { layout, setLayout } = useKanbanStore();
+
+  return (
+    <div
+      className="flex rounded-md border dark:border-gray-700 overflow-hidden"
+      role="group"
+      aria-label="Layout"
+    >
+      {Object.values(BoardLayout).map((value) => {
+        const { name, icon: Icon } = layoutOptions[value];
+        return (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setLayout(value)}
+            aria-pressed={layout === value}
+            title={`${name} layout`}
+            className={cn(
+              "flex items-center gap-1 px-2 py-1 text-sm",
+              layout === value
+                ? "bg-gray-200 dark:bg-gray-700 font-medium"
+                : "hover:bg-gray-100 dark:hover:bg-gray-800"
+            )}
+          >
+            <Icon className="h-4 w-4" />
+            <span className="hidden sm:inline">{name}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LayoutSwitcher;
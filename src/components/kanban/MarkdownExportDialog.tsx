@@ -0,0 +1,229 @@
+/**
+ * MarkdownExportDialog Component
+ *
+ * Shows the tasks currently on screen (after filters) as Markdown, ready to
+ * paste into a status update, with a section per column. A template picks
+ * the task fields shown and where finished tasks go; the board remembers it
+ * for the next export.
+ */
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Download } from "lucide-react";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { useToastStore } from "@/store/useToastStore";
+import { MARKDOWN_TEMPLATES, boardToMarkdown } from "@/lib/markdown";
+import { downloadFile } from "@/lib/download";
+import { DoneGrouping, MarkdownField } from "@/types";
+import type { MarkdownTemplate } from "@/types";
+
+/** Select value shown when the fields were picked by hand */
+const CUSTOM_TEMPLATE = "custom";
+
+/**
+ * Markdown field display text mapping
+ */
+const markdownFieldNames = {
+  [MarkdownField.KEY]: "Key",
+  [MarkdownField.PRIORITY]: "Priority",
+  [MarkdownField.DUE_DATE]: "Due date",
+  [MarkdownField.DESCRIPTION]: "First line of description",
+  [MarkdownField.LABELS]: "Labels",
+  [MarkdownField.ASSIGNEES]: "Assignees",
+  [MarkdownField.CHECKLIST]: "Checklist progress",
+};
+
+/**
+ * Done grouping display text mapping
+ */
+const doneGroupingNames = {
+  [DoneGrouping.COLUMNS]: "In their columns",
+  [DoneGrouping.SECTION]: "In a Completed section at the end",
+  [DoneGrouping.COUNT]: "Only as a count",
+  [DoneGrouping.HIDE]: "Left out",
+};
+
+/**
+ * Checks whether two templates show the same thing
+ */
+const sameTemplate = (a: MarkdownTemplate, b: MarkdownTemplate) =>
+  a.doneGrouping === b.doneGrouping &&
+  a.fields.length === b.fields.length &&
+  a.fields.every((field) => b.fields.includes(field));
+
+/**
+ * Props for the MarkdownExportDialog component
+ */
+interface MarkdownExportDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+const MarkdownExportDialog: React.FC<MarkdownExportDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { getActiveBoard, getFilteredBoard, updateBoardSettings } =
+    useKanbanStore();
+  const board = getActiveBoard();
+  const template = board.settings.markdownTemplate;
+  const markdown = open ? boardToMarkdown(getFilteredBoard(), template) : "";
+
+  const presetIndex = MARKDOWN_TEMPLATES.findIndex((preset) =>
+    sameTemplate(preset.template, template)
+  );
+
+  const setTemplate = (changes: Partial<MarkdownTemplate>) =>
+    updateBoardSettings(board.id, {
+      markdownTemplate: { ...template, ...changes },
+    });
+
+  const toggleField = (field: MarkdownField, checked: boolean) =>
+    setTemplate({
+      // Keep the fields in their usual order
+      fields: Object.values(MarkdownField).filter((item) =>
+        item === field ? checked : template.fields.includes(item)
+      ),
+    });
+
+  const handleCopy = async () => {
+    const { showToast } = useToastStore.getState();
+    try {
+      await navigator.clipboard.writeText(markdown);
+      showToast({ message: "Markdown copied" });
+    } catch {
+      showToast({ message: "Could not copy the Markdown", variant: "warning" });
+    }
+  };
+
+  const handleDownload = () => {
+    const slug = board.title.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    downloadFile(`${slug || "board"}.md`, markdown, "text/markdown");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export as Markdown</DialogTitle>
+          <DialogDescription>
+            The tasks shown with the current filters, one section per column.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <label
+              htmlFor="markdownTemplate"
+              className="text-sm font-medium leading-none"
+            >
+              Template
+            </label>
+            <Select
+              value={presetIndex === -1 ? CUSTOM_TEMPLATE : String(presetIndex)}
+              onValueChange={(value) =>
+                value !== CUSTOM_TEMPLATE &&
+                setTemplate(MARKDOWN_TEMPLATES[Number(value)].template)
+              }
+            >
+              <SelectTrigger id="markdownTemplate">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MARKDOWN_TEMPLATES.map((preset, index) => (
+                  <SelectItem key={preset.name} value={String(index)}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+                {presetIndex === -1 && (
+                  <SelectItem value={CUSTOM_TEMPLATE}>Custom</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+
+            <label
+              htmlFor="doneGrouping"
+              className="block pt-2 text-sm font-medium leading-none"
+            >
+              Finished tasks
+            </label>
+            <Select
+              value={template.doneGrouping}
+              onValueChange={(value) =>
+                setTemplate({ doneGrouping: value as DoneGrouping })
+              }
+            >
+              <SelectTrigger id="doneGrouping">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(DoneGrouping).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {doneGroupingNames[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Fields shown after each task title */}
+          <fieldset className="space-y-1.5">
+            <legend className="text-sm font-medium leading-none mb-2">
+              Fields
+            </legend>
+            {Object.values(MarkdownField).map((field) => (
+              <label key={field} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={template.fields.includes(field)}
+                  onChange={(e) => toggleField(field, e.target.checked)}
+                  className="size-4 accent-current"
+                />
+                {markdownFieldNames[field]}
+              </label>
+            ))}
+          </fieldset>
+        </div>
+
+        <Textarea
+          value={markdown}
+          readOnly
+          rows={12}
+          className="font-mono text-xs"
+          aria-label="Markdown"
+        />
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleDownload}>
+            <Download className="h-4 w-4" />
+            Download .md
+          </Button>
+          <Button type="button" onClick={handleCopy}>
+            <Copy className="h-4 w-4" />
+            Copy as Markdown
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MarkdownExportDialog;
@@ -0,0 +1,35 @@
+/**
+ * MemberAvatar Component
+ *
+ * A small round avatar showing a board member's initials in their color.
+ */
+import React from "react";
+import type { Member } from "@/types";
+import { accentColorClasses } from "@/lib/colors";
+import { cn } from "@/lib/utils";
+
+/**
+ * Props for the MemberAvatar component
+ */
+interface MemberAvatarProps {
+  /** The member to show */
+  member: Member;
+
+  /** Optional extra classes (e.g. a ring when stacked) */
+  className?: string;
+}
+
+const MemberAvatar: React.FC<MemberAvatarProps> = ({ member, className }) => (
+  <span
+    className={cn(
+      "inline-flex size-6 shrink-0 items-center justify-center rounded-full text-[10px] font-semibold text-white select-none",
+      accentColorClasses[member.color].dot,
+      className
+    )}
+    title={member.name}
+  >
+    {member.initials}
+  </span>
+);
+
+export default MemberAvatar;
@@ -0,0 +1,244 @@
+/**
+ * MembersDialog Component
+ *
+ * Manages the active board's members: add people, rename them, change their
+ * avatar, delete them, and pick which of them is "me" in this browser.
+ * Tasks refer to members by ID, so every change shows up on all of their
+ * tasks right away.
+ */
+import React, { useEffect, useState } from "react";
+import { Trash2, UserCheck } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast } from "@/store/useToastStore";
+import { ColumnColor } from "@/types";
+import type { Member } from "@/types";
+import { MAX_INITIALS, deriveInitials, normalizeInitials } from "@/lib/members";
+import { cn } from "@/lib/utils";
+import MemberAvatar from "./MemberAvatar";
+import ColorSwatches from "./ColorSwatches";
+
+/**
+ * Props for the MembersDialog component
+ */
+interface MembersDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+const MembersDialog: React.FC<MembersDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const {
+    getActiveBoard,
+    getCurrentMember,
+    addMember,
+    updateMember,
+    deleteMember,
+    setCurrentMember,
+  } = useKanbanStore();
+  const board = getActiveBoard();
+  const currentMember = getCurrentMember();
+
+  // Form state for a new member
+  const [name, setName] = useState("");
+  const [initials, setInitials] = useState("");
+  const [color, setColor] = useState<ColumnColor>(ColumnColor.BLUE);
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setInitials("");
+      setColor(ColumnColor.BLUE);
+      setError(undefined);
+    }
+  }, [open]);
+
+  /**
+   * Checks a member name against the board's members
+   * @returns An error message, or undefined if the name can be used
+   */
+  const validateName = (value: string, ignoreId?: string) => {
+    if (!value.trim()) return "Name is required";
+    const isTaken = board.members.some(
+      (member) =>
+        member.id !== ignoreId &&
+        member.name.toLowerCase() === value.trim().toLowerCase()
+    );
+    return isTaken ? "A member with this name already exists" : undefined;
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nameError = validateName(name);
+    if (nameError) {
+      setError(nameError);
+      return;
+    }
+    addMember(name.trim(), color, initials || deriveInitials(name));
+    setName("");
+    setInitials("");
+  };
+
+  const handleRename = (member: Member, value: string) => {
+    // Invalid names are ignored; the input falls back to the current name
+    if (value.trim() !== member.name && !validateName(value, member.id)) {
+      updateMember(member.id, { name: value.trim() });
+    }
+  };
+
+  const handleInitialsChange = (member: Member, value: string) => {
+    const normalized = normalizeInitials(value);
+    if (normalized && normalized !== member.initials) {
+      updateMember(member.id, { initials: normalized });
+    }
+  };
+
+  const handleDelete = (member: Member) => {
+    deleteMember(member.id);
+    showUndoToast(`Member "${member.name}" removed`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Members</DialogTitle>
+          <DialogDescription>
+            People working on "{board.title}". Mark yourself with the check so
+            "Assigned to me" works in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        {board.members.length === 0 ? (
+          <p className="py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+            No members yet.
+          </p>
+        ) : (
+          <ul className="max-h-72 overflow-y-auto space-y-2">
+            {board.members.map((member) => {
+              const isMe = member.id === currentMember?.id;
+              return (
+                <li key={member.id} className="flex items-center gap-2">
+                  <MemberAvatar member={member} />
+                  <Input
+                    // Re-mount when the name changes elsewhere (e.g. undo)
+                    key={member.name}
+                    defaultValue={member.name}
+                    onBlur={(e) => handleRename(member, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") e.currentTarget.blur();
+                    }}
+                    aria-label={`Name of member ${member.name}`}
+                    className="h-8 flex-1 text-sm"
+                  />
+                  <Input
+                    key={member.initials}
+                    defaultValue={member.initials}
+                    maxLength={MAX_INITIALS}
+                    onBlur={(e) => handleInitialsChange(member, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") e.currentTarget.blur();
+                    }}
+                    aria-label={`Initials of member ${member.name}`}
+                    className="h-8 w-12 text-center text-sm uppercase"
+                  />
+                  <ColorSwatches
+                    value={member.color}
+                    onChange={(swatch) =>
+                      updateMember(member.id, { color: swatch })
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className={cn(
+                      "h-8",
+                      isMe
+                        ? "text-green-600 hover:text-green-700"
+                        : "text-gray-400"
+                    )}
+                    onClick={() =>
+                      setCurrentMember(isMe ? undefined : member.id)
+                    }
+                    aria-pressed={isMe}
+                    title={isMe ? "This is you" : "This is me"}
+                    aria-label={`${member.name} is me`}
+                  >
+                    <UserCheck className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 text-red-600 hover:text-red-700"
+                    onClick={() => handleDelete(member)}
+                    aria-label={`Delete member ${member.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {/* New member */}
+        <form
+          onSubmit={handleAdd}
+          className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-4"
+        >
+          <div className="flex items-center gap-2">
+            <Input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(undefined);
+              }}
+              placeholder="New member, e.g. Jane Doe"
+              aria-label="New member name"
+              className={cn("h-8 flex-1 text-sm", error && "border-red-500")}
+            />
+            <Input
+              value={initials}
+              onChange={(e) => setInitials(normalizeInitials(e.target.value))}
+              placeholder={name.trim() ? deriveInitials(name) : "JD"}
+              aria-label="New member initials"
+              className="h-8 w-12 text-center text-sm"
+            />
+            <ColorSwatches value={color} onChange={setColor} />
+            <Button type="submit" size="sm" className="h-8">
+              Add
+            </Button>
+          </div>
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+        </form>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MembersDialog;
@@ -0,0 +1,61 @@
+/**
+ * QuarantineNotice Component
+ *
+ * Tells the user when stored records failed validation on load. The rest of
+ * the data loads normally; the broken records can be downloaded for manual
+ * recovery or dismissed.
+ */
+import React from "react";
+import { AlertTriangle, Download, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { downloadFile } from "@/lib/download";
+
+const QuarantineNotice: React.FC = () => {
+  const { quarantine, clearQuarantine } = useKanbanStore();
+
+  if (quarantine.length === 0) return null;
+
+  const handleDownload = () => {
+    downloadFile(
+      "kanban-quarantine.json",
+      JSON.stringify(quarantine, null, 2),
+      "application/json"
+    );
+  };
+
+  return (
+    <div
+      role="alert"
+      className="flex flex-wrap items-center gap-2 mx-2 mb-4 p-3 rounded-lg border border-yellow-300 bg-yellow-50 text-yellow-800 dark:border-yellow-900 dark:bg-yellow-950/40 dark:text-yellow-300 text-sm"
+    >
+      <AlertTriangle size={16} className="flex-shrink-0" />
+      <span className="flex-1 min-w-[200px]">
+        {quarantine.length}{" "}
+        {quarantine.length === 1 ? "stored record" : "stored records"} could not
+        be loaded and {quarantine.length === 1 ? "was" : "were"} set aside. The
+        rest of your data is fine.
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleDownload}
+        className="h-8 text-xs"
+      >
+        <Download size={14} className="mr-1" />
+        Download
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={clearQuarantine}
+        className="h-8 text-xs"
+      >
+        <X size={14} className="mr-1" />
+        Dismiss
+      </Button>
+    </div>
+  );
+};
+
+export default QuarantineNotice;
@@ -0,0 +1,115 @@
+/**
+ * SaveViewDialog Component
+ *
+ * A small modal dialog for naming the current filters and sort as a saved view.
+ */
+import React, { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useKanbanStore } from "@/store/useKanbanStore";
+
+/**
+ * Props for the SaveViewDialog component
+ */
+interface SaveViewDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+const SaveViewDialog: React.FC<SaveViewDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { saveView, getActiveBoard } = useKanbanStore();
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | undefined>();
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setError(undefined);
+    }
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Validation
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError("View name is required");
+      return;
+    }
+    if (
+      getActiveBoard().views.some(
+        (view) => view.name.toLowerCase() === trimmed.toLowerCase()
+      )
+    ) {
+      setError("A view with this name already exists");
+      return;
+    }
+
+    saveView(trimmed);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Save View</DialogTitle>
+          <DialogDescription>
+            Saves the current filters and sort of this board.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label
+              htmlFor="viewName"
+              className="text-sm font-medium leading-none"
+            >
+              Name
+            </label>
+            <Input
+              id="viewName"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(undefined);
+              }}
+              placeholder="e.g. My high-priority this week"
+              className={error ? "border-red-500" : ""}
+              autoFocus
+            />
+            {error && <p className="text-red-500 text-xs">{error}</p>}
+          </div>
+
+          <DialogFooter className="sm:justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit">Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveViewDialog;
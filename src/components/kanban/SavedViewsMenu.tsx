@@ -0,0 +1,108 @@
+/**
+ * SavedViewsMenu Component
+ *
+ * Lists the saved views of the active board for one-click switching, and
+ * offers saving the current filters as a view and copying a link to it.
+ */
+import React, { useState } from "react";
+import { Bookmark, Check, ChevronDown, Link, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast, useToastStore } from "@/store/useToastStore";
+import SaveViewDialog from "./SaveViewDialog";
+
+const SavedViewsMenu: React.FC = () => {
+  const { getActiveBoard, activeViewId, applyView, deleteView } =
+    useKanbanStore();
+  const { views } = getActiveBoard();
+  const activeView = views.find((view) => view.id === activeViewId);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+
+  // The URL always reflects the current view (see useViewUrlSync)
+  const handleCopyLink = async () => {
+    const { showToast } = useToastStore.getState();
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      showToast({ message: "Link copied" });
+    } catch {
+      showToast({ message: "Could not copy the link", variant: "warning" });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-9 text-sm max-w-[200px]"
+          >
+            <Bookmark className="h-4 w-4" />
+            <span className="truncate">{activeView?.name ?? "Views"}</span>
+            <ChevronDown className="h-4 w-4 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="min-w-[220px]">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {views.length === 0 && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">
+              No saved views yet
+            </p>
+          )}
+          {views.map((view) => (
+            <DropdownMenuItem
+              key={view.id}
+              onClick={() => applyView(view.id)}
+              className="cursor-pointer group"
+            >
+              <Check
+                className={`size-4 ${
+                  view.id === activeViewId ? "opacity-100" : "opacity-0"
+                }`}
+              />
+              <span className="flex-1 truncate">{view.name}</span>
+              <button
+                onClick={(e) => {
+                  // Deleting must not also apply the view
+                  e.stopPropagation();
+                  deleteView(view.id);
+                  showUndoToast(`View "${view.name}" deleted`);
+                }}
+                className="opacity-0 group-hover:opacity-100 group-focus:opacity-100 text-gray-400 hover:text-red-600"
+                aria-label={`Delete view ${view.name}`}
+              >
+                <X size={14} />
+              </button>
+            </DropdownMenuItem>
+          ))}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setSaveDialogOpen(true)}
+            className="cursor-pointer"
+          >
+            <Plus className="size-4" />
+            Save current view
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleCopyLink} className="cursor-pointer">
+            <Link className="size-4" />
+            Copy link to this view
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <SaveViewDialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen} />
+    </>
+  );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,346 @@
+/**
+ * Swimlanes Component
+ *
+ * Shows the board split into horizontal lanes by a task field (priority, due
+ * date, assignee or label). Every lane holds the full set of columns, can be
+ * collapsed, and shows how many of the filtered tasks it holds. Dropping a
+ * task in another lane changes that field along with the task's column.
+ */
+import React, { useCallback, useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  MouseSensor,
+  TouchSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import type { DragEndEvent, DragStartEvent } from "@dnd-kit/core";
+import {
+  SortableContext,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { restrictToWindowEdges } from "@dnd-kit/modifiers";
+import { ChevronDown, ChevronRight, Plus } from "lucide-react";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showWarningToast } from "@/store/useToastStore";
+import { SortField } from "@/types";
+import type { Column, Task } from "@/types";
+import { getLaneChanges, getLanes, getTaskLaneKeys } from "@/lib/swimlanes";
+import type { Lane } from "@/lib/swimlanes";
+import { getOverLimitWarning, getRefusalMessage } from "@/lib/wip";
+import { accentColorClasses } from "@/lib/colors";
+import { cn } from "@/lib/utils";
+import TaskCard from "./TaskCard";
+import TaskCountBadge from "./TaskCountBadge";
+
+/**
+ * Props for the Swimlanes component
+ */
+interface SwimlanesProps {
+  /** Callback for when a task is edited */
+  onEditTask: (task: Task) => void;
+  /** Callback for opening a task's details */
+  onOpenTaskDetails?: (task: Task) => void;
+  /** Callback for creating a new task in a column */
+  onCreateTask?: (columnStatus: string) => void;
+}
+
+/**
+ * Props for the LaneCell component
+ */
+interface LaneCellProps {
+  lane: Lane;
+  column: Column;
+  /** The tasks of the column that belong to the lane */
+  tasks: Task[];
+  onEditTask: (task: Task) => void;
+  onOpenTaskDetails?: (task: Task) => void;
+}
+
+/**
+ * The part of one column inside one lane - the drop area for tasks
+ */
+const LaneCell: React.FC<LaneCellProps> = ({
+  lane,
+  column,
+  tasks,
+  onEditTask,
+  onOpenTaskDetails,
+}) => {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `${lane.key}:${column.id}`,
+    data: { type: "LaneCell", laneKey: lane.key, columnId: column.id },
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "w-full md:w-80 flex-shrink-0 min-h-[80px] p-2 bg-gray-50 dark:bg-gray-800/50 rounded-md",
+        isOver && "bg-blue-50 dark:bg-blue-950/30"
+      )}
+    >
+      <SortableContext
+        items={tasks.map((task) => `${lane.key}:${task.id}`)}
+        strategy={verticalListSortingStrategy}
+      >
+        {tasks.map((task) => (
+          <TaskCard
+            key={task.id}
+            task={task}
+            onEdit={onEditTask}
+            onOpenDetails={onOpenTaskDetails}
+            laneKey={lane.key}
+          />
+        ))}
+      </SortableContext>
+    </div>
+  );
+};
+
+const Swimlanes: React.FC<SwimlanesProps> = ({
+  onEditTask,
+  onOpenTaskDetails,
+  onCreateTask,
+}) => {
+  const {
+    getActiveBoard,
+    getFilteredBoard,
+    groupBy,
+    sort,
+    updateTask,
+    moveTask,
+    reorderTask,
+    beginHistoryBatch,
+    endHistoryBatch,
+  } = useKanbanStore();
+  const board = getActiveBoard();
+  const filteredBoard = getFilteredBoard();
+  const lanes = getLanes(board, groupBy);
+
+  const [activeTask, setActiveTask] = useState<Task | null>(null); // For drag overlay
+  // Lanes are open unless collapsed; lane keys are only unique per grouping
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const collapseKey = (lane: Lane) => `${groupBy}:${lane.key}`;
+
+  const toggleLane = (lane: Lane) => {
+    setCollapsed((previous) => {
+      const next = new Set(previous);
+      if (!next.delete(collapseKey(lane))) next.add(collapseKey(lane));
+      return next;
+    });
+  };
+
+  // Same activation rules as the plain board
+  const sensors = useSensors(
+    useSensor(MouseSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    }),
+    useSensor(TouchSensor, {
+      activationConstraint: {
+        delay: 250,
+        tolerance: 5,
+      },
+    })
+  );
+
+  // Sort every task into its lanes once per render
+  const now = new Date();
+  const laneTasks = new Map<string, Task[]>(
+    lanes.map((lane) => [lane.key, []])
+  );
+  filteredBoard.columns.forEach((column) =>
+    column.tasks.forEach((task) =>
+      getTaskLaneKeys(task, groupBy, now).forEach((key) =>
+        laneTasks.get(key)?.push(task)
+      )
+    )
+  );
+
+  const handleDragStart = useCallback((event: DragStartEvent) => {
+    const activeData = event.active.data.current;
+    if (activeData?.type === "Task") setActiveTask(activeData.task);
+  }, []);
+
+  /**
+   * Moves a dropped task to the target lane and column in one undo step
+   *
+   * Unlike the plain board, nothing moves while dragging: changing lanes
+   * changes task fields, so the task only changes once it is dropped.
+   */
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      setActiveTask(null);
+      const activeData = event.active.data.current;
+      const overData = event.over?.data.current;
+      if (activeData?.type !== "Task" || !overData) return;
+
+      const task = activeData.task as Task;
+      const fromLane = activeData.laneKey as string;
+      const toLane = overData.laneKey as string | undefined;
+      const targetStatus: string | undefined =
+        overData.type === "Task" ? overData.task.status : overData.columnId;
+      const targetColumn = board.columns.find((col) => col.id === targetStatus);
+      if (!toLane || !targetColumn) return;
+
+      const changes =
+        fromLane === toLane
+          ? {}
+          : getLaneChanges(task, groupBy, fromLane, toLane);
+      if (!changes) {
+        const lane = lanes.find((item) => item.key === toLane);
+        showWarningToast(`Tasks can't be dragged into "${lane?.title}"`);
+        return;
+      }
+
+      // The board may refuse the task in the target column
+      const changesColumn = targetColumn.id !== task.status;
+      const refusal = getRefusalMessage(board, task, targetColumn.id);
+      if (refusal) {
+        showWarningToast(refusal);
+        return;
+      }
+
+      // Drop right at the task it was dropped on - only in manual order,
+      // since a sorted column has no position to drop into
+      const overIndex =
+        overData.type === "Task" && sort.field === SortField.MANUAL
+          ? targetColumn.tasks.findIndex((t) => t.id === overData.task.id)
+          : -1;
+
+      beginHistoryBatch();
+      if (Object.keys(changes).length > 0) updateTask(task.id, changes);
+      if (overIndex !== -1) {
+        reorderTask(task.id, targetColumn.id, overIndex);
+      } else if (changesColumn) {
+        moveTask(task.id, targetColumn.id);
+      }
+      endHistoryBatch();
+
+      const movedColumn = useKanbanStore
+        .getState()
+        .getActiveBoard()
+        .columns.find((col) => col.id === targetColumn.id);
+      const warning =
+        changesColumn && movedColumn && getOverLimitWarning(movedColumn);
+      if (warning) showWarningToast(warning);
+    },
+    [
+      board,
+      lanes,
+      groupBy,
+      sort,
+      updateTask,
+      moveTask,
+      reorderTask,
+      beginHistoryBatch,
+      endHistoryBatch,
+    ]
+  );
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveTask(null)}
+      modifiers={[restrictToWindowEdges]}
+    >
+      <div className="inline-flex flex-col gap-4 p-4 min-w-full">
+        {/* Column headers, shared by every lane */}
+        <div className="flex flex-col md:flex-row gap-4">
+          {board.columns.map((column) => (
+            <div
+              key={column.id}
+              className={cn(
+                "w-full md:w-80 flex-shrink-0 flex items-center justify-between bg-gray-100 dark:bg-gray-800 p-2 rounded-md border-t-4",
+                accentColorClasses[column.color].border
+              )}
+            >
+              <h2 className="font-semibold text-gray-700 dark:text-gray-200 truncate mr-2">
+                {column.title}
+              </h2>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                {onCreateTask && (
+                  <button
+                    onClick={() => onCreateTask(column.id)}
+                    className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                    title={`Create task in ${column.title}`}
+                    aria-label={`Add new task to ${column.title}`}
+                  >
+                    <Plus size={16} />
+                  </button>
+                )}
+                <TaskCountBadge column={column} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {lanes.map((lane) => {
+          const tasks = laneTasks.get(lane.key) ?? [];
+          const isCollapsed = collapsed.has(collapseKey(lane));
+          return (
+            <section key={lane.key} className="flex flex-col gap-2">
+              {/* Lane header - click to collapse or expand */}
+              <button
+                type="button"
+                onClick={() => toggleLane(lane)}
+                className="sticky left-4 self-start flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-200"
+                aria-expanded={!isCollapsed}
+              >
+                {isCollapsed ? (
+                  <ChevronRight className="size-4" />
+                ) : (
+                  <ChevronDown className="size-4" />
+                )}
+                {lane.color && (
+                  <span
+                    className={cn(
+                      "size-2.5 rounded-full",
+                      accentColorClasses[lane.color].dot
+                    )}
+                  />
+                )}
+                {lane.title}
+                <span className="bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-0.5 rounded-full text-xs">
+                  {tasks.length}
+                </span>
+              </button>
+
+              {!isCollapsed && (
+                <div className="flex flex-col md:flex-row gap-4">
+                  {filteredBoard.columns.map((column) => (
+                    <LaneCell
+                      key={column.id}
+                      lane={lane}
+                      column={column}
+                      tasks={tasks.filter((task) => task.status === column.id)}
+                      onEditTask={onEditTask}
+                      onOpenTaskDetails={onOpenTaskDetails}
+                    />
+                  ))}
+                </div>
+              )}
+            </section>
+          );
+        })}
+      </div>
+
+      {/* Drag overlay - shows the task being dragged */}
+      <DragOverlay>
+        {activeTask && (
+          <div className="w-full md:w-80">
+            <TaskCard task={activeTask} onEdit={() => {}} />
+          </div>
+        )}
+      </DragOverlay>
+    </DndContext>
+  );
+};
+
+export default Swimlanes;
@@ -0,0 +1,339 @@
+/**
+ * TableView Component
+ *
+ * Lists the filtered tasks of every column as rows of a table, for triaging
+ * many tasks at once. Clicking a column header sorts by it; status, priority
+ * and due date can be changed right in the row. Only the rows in view are
+ * rendered, so large boards stay fast.
+ */
+import React, { useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showWarningToast } from "@/store/useToastStore";
+import { useVirtualRows } from "@/hooks/useVirtualRows";
+import { ColumnCategory, TaskPriority } from "@/types";
+import type { Task } from "@/types";
+import {
+  BOARD_ORDER_SORT,
+  TableField,
+  getTableRows,
+  sortTableRows,
+} from "@/lib/taskTable";
+import type { TableRow, TableSort } from "@/lib/taskTable";
+import { getOverLimitWarning, getRefusalMessage } from "@/lib/wip";
+import { fromDateInputValue, toDateInputValue } from "@/lib/dates";
+import { getPriorityBadge } from "@/lib/colors";
+import { cn } from "@/lib/utils";
+
+/** Height of every row, in pixels (rows are virtualized) */
+const ROW_HEIGHT = 44;
+
+/** Widths of the table columns, shared by the header and the rows */
+const GRID_COLUMNS =
+  "grid grid-cols-[6rem_minmax(14rem,1fr)_11rem_8rem_10rem_7rem_7rem] gap-2 items-center px-2";
+
+/**
+ * Table column header text mapping
+ */
+const tableFieldNames = {
+  [TableField.KEY]: "Key",
+  [TableField.TITLE]: "Title",
+  [TableField.STATUS]: "Status",
+  [TableField.PRIORITY]: "Priority",
+  [TableField.DUE_DATE]: "Due",
+  [TableField.CREATED_AT]: "Created",
+  [TableField.UPDATED_AT]: "Updated",
+};
+
+/**
+ * Priority display text mapping
+ */
+const priorityNames = {
+  [TaskPriority.LOW]: "Low",
+  [TaskPriority.MEDIUM]: "Medium",
+  [TaskPriority.HIGH]: "High",
+};
+
+/**
+ * Formats a date for display
+ * @param date The date to format
+ * @returns Formatted date string (e.g. "May 9, 2026")
+ */
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  }).format(date);
+
+/**
+ * Props for the TableView component
+ */
+interface TableViewProps {
+  /** Callback for when a task is edited */
+  onEditTask: (task: Task) => void;
+  /** Callback for opening a task's details */
+  onOpenTaskDetails?: (task: Task) => void;
+}
+
+/**
+ * Props for the TaskRow component
+ */
+interface TaskRowProps {
+  row: TableRow;
+  /** Distance from the top of the table body, in pixels */
+  top: number;
+  onOpen: (task: Task) => void;
+}
+
+/**
+ * One task of the table, with inline editors for status, priority and due date
+ */
+const TaskRow: React.FC<TaskRowProps> = ({ row, top, onOpen }) => {
+  const { getActiveBoard, updateTask } = useKanbanStore();
+  const { task, column } = row;
+  const isDone = column.category === ColumnCategory.DONE;
+
+  /**
+   * Moves the task to another column, unless the board refuses it there
+   */
+  const handleStatusChange = (status: string) => {
+    const board = getActiveBoard();
+    if (
+      status === task.status ||
+      !board.columns.some((col) => col.id === status)
+    ) {
+      return;
+    }
+
+    const refusal = getRefusalMessage(board, task, status);
+    if (refusal) {
+      showWarningToast(refusal);
+      return;
+    }
+
+    updateTask(task.id, { status });
+
+    const movedColumn = getActiveBoard().columns.find(
+      (col) => col.id === status
+    );
+    const warning = movedColumn && getOverLimitWarning(movedColumn);
+    if (warning) showWarningToast(warning);
+  };
+
+  /**
+   * Saves the date of the due date field, unless it is half-typed or unchanged
+   */
+  const handleDueDateChange = (input: HTMLInputElement) => {
+    if (input.validity.badInput) {
+      input.value = toDateInputValue(task.dueDate);
+      return;
+    }
+    if (input.value === toDateInputValue(task.dueDate)) return;
+    updateTask(task.id, { dueDate: fromDateInputValue(input.value) });
+  };
+
+  return (
+    <div
+      role="row"
+      className={cn(
+        GRID_COLUMNS,
+        "absolute inset-x-0 border-b border-gray-100 dark:border-gray-800 text-sm hover:bg-gray-50 dark:hover:bg-gray-800/50"
+      )}
+      style={{ top, height: ROW_HEIGHT }}
+    >
+      <button
+        role="cell"
+        type="button"
+        onClick={() => onOpen(task)}
+        className="text-left font-medium text-gray-500 dark:text-gray-400 hover:underline"
+      >
+        {task.key}
+      </button>
+      <button
+        role="cell"
+        type="button"
+        onClick={() => onOpen(task)}
+        title={task.title}
+        className={cn(
+          "text-left truncate hover:underline",
+          isDone && "line-through text-gray-500 dark:text-gray-400"
+        )}
+      >
+        {task.title}
+      </button>
+      <div role="cell">
+        <Select value={task.status} onValueChange={handleStatusChange}>
+          <SelectTrigger
+            size="sm"
+            className="w-full"
+            aria-label={`Status of ${task.key}`}
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {getActiveBoard().columns.map((col) => (
+              <SelectItem key={col.id} value={col.id}>
+                {col.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div role="cell">
+        <Select
+          value={task.priority}
+          onValueChange={(value) =>
+            updateTask(task.id, { priority: value as TaskPriority })
+          }
+        >
+          <SelectTrigger
+            size="sm"
+            className={cn(
+              "w-full border-transparent",
+              getPriorityBadge(task.priority)
+            )}
+            aria-label={`Priority of ${task.key}`}
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(TaskPriority).map((priority) => (
+              <SelectItem key={priority} value={priority}>
+                {priorityNames[priority]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div role="cell">
+        {/* Saved when the field is left (or on Enter), so half-typed dates
+            are not saved; the key resets it when the date changes elsewhere */}
+        <input
+          key={toDateInputValue(task.dueDate)}
+          type="date"
+          defaultValue={toDateInputValue(task.dueDate)}
+          onBlur={(e) => handleDueDateChange(e.target)}
+          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+          aria-label={`Due date of ${task.key}`}
+          className="w-full h-8 rounded-md border border-input bg-transparent px-2 text-sm dark:bg-input/30"
+        />
+      </div>
+      <div role="cell" className="text-gray-500 dark:text-gray-400">
+        {formatDate(task.createdAt)}
+      </div>
+      <div role="cell" className="text-gray-500 dark:text-gray-400">
+        {formatDate(task.updatedAt ?? task.createdAt)}
+      </div>
+    </div>
+  );
+};
+
+const TableView: React.FC<TableViewProps> = ({
+  onEditTask,
+  onOpenTaskDetails,
+}) => {
+  const { getFilteredBoard } = useKanbanStore();
+  const [sort, setSort] = useState<TableSort>(BOARD_ORDER_SORT);
+
+  const rows = sortTableRows(getTableRows(getFilteredBoard()), sort);
+  const { containerRef, onScroll, start, end, totalHeight } =
+    useVirtualRows<HTMLDivElement>(rows.length, ROW_HEIGHT);
+  const openTask = onOpenTaskDetails ?? onEditTask;
+
+  /**
+   * Sorts by a table column, or flips the direction if it already sorts by it
+   */
+  const handleSort = (field: TableField) =>
+    setSort((previous) =>
+      previous.field === field
+        ? {
+            field,
+            direction: previous.direction === "asc" ? "desc" : "asc",
+          }
+        : { field, direction: "asc" }
+    );
+
+  return (
+    <div className="p-4">
+      <div
+        ref={containerRef}
+        onScroll={onScroll}
+        role="table"
+        aria-rowcount={rows.length}
+        className="h-[70vh] overflow-auto rounded-md border border-gray-200 dark:border-gray-700"
+      >
+        <div className="min-w-[64rem]">
+          {/* Header - stays in view while the rows scroll */}
+          <div
+            role="row"
+            className={cn(
+              GRID_COLUMNS,
+              "sticky top-0 z-10 h-10 bg-gray-100 dark:bg-gray-800 text-xs font-medium text-gray-500 dark:text-gray-400"
+            )}
+          >
+            {Object.values(TableField).map((field) => (
+              <button
+                key={field}
+                role="columnheader"
+                type="button"
+                onClick={() => handleSort(field)}
+                aria-sort={
+                  sort.field === field
+                    ? sort.direction === "asc"
+                      ? "ascending"
+                      : "descending"
+                    : "none"
+                }
+                className="flex items-center gap-1 text-left hover:text-gray-700 dark:hover:text-gray-200"
+              >
+                {tableFieldNames[field]}
+                {sort.field === field &&
+                  (sort.direction === "asc" ? (
+                    <ArrowUp className="size-3" />
+                  ) : (
+                    <ArrowDown className="size-3" />
+                  ))}
+              </button>
+            ))}
+          </div>
+
+          {/* Body - only the rows in view are rendered */}
+          <div
+            role="rowgroup"
+            className="relative"
+            style={{ height: totalHeight }}
+          >
+            {rows.slice(start, end).map((row, index) => (
+              <TaskRow
+                key={row.task.id}
+                row={row}
+                top={(start + index) * ROW_HEIGHT}
+                onOpen={openTask}
+              />
+            ))}
+          </div>
+
+          {/* Show message when no tasks match the filters */}
+          {rows.length === 0 && (
+            <div className="text-center p-4 sm:p-8">
+              <p>No tasks match the current filters.</p>
+              <p className="text-xs sm:text-sm text-gray-500 mt-2">
+                Try adjusting your filters or create new tasks.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TableView;
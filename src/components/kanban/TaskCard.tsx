@@ -2,8 +2,8 @@
  * TaskCard Component
  *
  * Displays a single task card that can be dragged and dropped
- * between columns. Shows task details including title, description,
- * priority, and due date.
+ * between columns. Shows task details including title, labels, description,
+ * checklist progress, priority, due date and assignees.
  */
 
 import React from "react";
@@ -16,16 +16,29 @@ import {
   CardHeader,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { MoreVertical, Pencil, Trash2 } from "lucide-react";
+import {
+  Archive,
+  MessageSquare,
+  MoreVertical,
+  PanelRightOpen,
+  Pencil,
+  Trash2,
+} from "lucide-react";
 import type { Task } from "@/types";
-import { TaskStatus } from "@/types";
+import { ColumnCategory } from "@/types";
 import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast } from "@/store/useToastStore";
+import { getPriorityBadge } from "@/lib/colors";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import HighlightedText from "./HighlightedText";
+import LabelChip from "./LabelChip";
+import AvatarStack from "./AvatarStack";
+import ChecklistProgress from "./ChecklistProgress";
 
 /**
  * Formats a date for display
@@ -37,25 +50,7 @@ const formatDate = (date: Date | undefined) => {
   return new Intl.DateTimeFormat("en-US", {
     month: "short",
     day: "numeric",
-  }).format(new Date(date));
-};
-
-/**
- * Returns appropriate CSS classes for priority badges
- * @param priority The task priority level
- * @returns CSS class string for styling the priority badge
- */
-const getPriorityBadge = (priority: string) => {
-  switch (priority) {
-    case "high":
-      return "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-400";
-    case "medium":
-      return "bg-yellow-100 text-yellow-700 dark:bg-yellow-950 dark:text-yellow-400";
-    case "low":
-      return "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-400";
-    default:
-      return "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400";
-  }
+  }).format(date);
 };
 
 /**
@@ -66,18 +61,39 @@ interface TaskCardProps {
   task: Task;
   /** Callback for when the edit button is clicked */
   onEdit: (task: Task) => void;
+  /** Callback for opening the task's details, comments and activity */
+  onOpenDetails?: (task: Task) => void;
+  /** Swimlane the card is shown in; a task can sit in several lanes at once */
+  laneKey?: string;
 }
 
 /**
  * TaskCard Component
  *
  * Displays a single task and enables drag-and-drop functionality.
- * Shows task details and provides edit and delete actions.
+ * Shows task details and provides edit, archive and delete actions.
  */
-const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit }) => {
-  const { deleteTask } = useKanbanStore();
-  // Check if the task is in the "Done" status to apply special styling
-  const isDone = task.status === TaskStatus.DONE;
+const TaskCard: React.FC<TaskCardProps> = ({
+  task,
+  onEdit,
+  onOpenDetails,
+  laneKey,
+}) => {
+  const { deleteTask, archiveTask, getActiveBoard, filters } = useKanbanStore();
+  const board = getActiveBoard();
+  // Check if the task's column is a "Done" column to apply special styling
+  const isDone = board.columns.some(
+    (column) =>
+      column.id === task.status && column.category === ColumnCategory.DONE
+  );
+  // Labels in catalog order
+  const labels = board.labels.filter((label) =>
+    task.labelIds.includes(label.id)
+  );
+  // Assignees in member list order
+  const assignees = board.members.filter((member) =>
+    task.assigneeIds.includes(member.id)
+  );
 
   /**
    * Set up sortable (draggable) behavior using dnd-kit
@@ -92,10 +108,12 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit }) => {
     transition, // Transition to apply during drag
     isDragging, // Whether the item is currently being dragged
   } = useSortable({
-    id: task.id,
+    // Cards of the same task in different lanes need their own IDs
+    id: laneKey === undefined ? task.id : `${laneKey}:${task.id}`,
     data: {
       type: "Task",
       task,
+      laneKey,
     },
   });
 
@@ -105,10 +123,6 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit }) => {
     transition,
   };
 
-  // Extract task code (e.g., "TASK-123") and title from the complete title string
-  const taskCode = task.title.split(" ")[0]; // First part is the code
-  const taskTitle = task.title.substring(taskCode.length + 1); // Rest is the title
-
   return (
     <Card
       ref={setNodeRef}
@@ -122,14 +136,15 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit }) => {
       <CardHeader className="px-3 pb-0 flex flex-row items-start justify-between">
         <div className="flex-1 overflow-hidden">
           <div className="text-xs font-mono text-gray-500 dark:text-gray-400">
-            {taskCode}
+            <HighlightedText text={task.key} query={filters.search} />
           </div>
           <h3
             className={`font-medium truncate ${
               isDone ? "line-through text-gray-500 dark:text-gray-400" : ""
-            }`}
+            } ${onOpenDetails ? "cursor-pointer hover:underline" : ""}`}
+            onClick={() => onOpenDetails?.(task)}
           >
-            {taskTitle}
+            <HighlightedText text={task.title} query={filters.search} />
           </h3>
         </div>
         {/* Actions dropdown menu */}
@@ -141,6 +156,16 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit }) => {
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end" className="min-w-[140px]">
+            {/* Details action - comments and activity */}
+            {onOpenDetails && (
+              <DropdownMenuItem
+                onClick={() => onOpenDetails(task)}
+                className="cursor-pointer py-2"
+              >
+                <PanelRightOpen className="mr-2 size-4" />
+                Details
+              </DropdownMenuItem>
+            )}
             {/* Edit action */}
             <DropdownMenuItem
               onClick={() => onEdit(task)}
@@ -149,9 +174,23 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit }) => {
               <Pencil className="mr-2 size-4" />
               Edit
             </DropdownMenuItem>
+            {/* Archive action - moves the task out of the board */}
+            <DropdownMenuItem
+              onClick={() => {
+                archiveTask(task.id);
+                showUndoToast(`${task.key} archived`);
+              }}
+              className="cursor-pointer py-2"
+            >
+              <Archive className="mr-2 size-4" />
+              Archive
+            </DropdownMenuItem>
             {/* Delete action with warning color */}
             <DropdownMenuItem
-              onClick={() => deleteTask(task.id)}
+              onClick={() => {
+                deleteTask(task.id);
+                showUndoToast(`${task.key} moved to trash`);
+              }}
               className="text-red-600 dark:text-red-400 cursor-pointer py-2"
             >
               <Trash2 className="mr-2 size-4" />
@@ -162,6 +201,14 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit }) => {
       </CardHeader>
       {/* Task description (if present) */}
       <CardContent className="p-3">
+        {/* Label chips */}
+        {labels.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {labels.map((label) => (
+              <LabelChip key={label.id} label={label} />
+            ))}
+          </div>
+        )}
         {task.description && (
           <p
             className={`text-sm text-gray-600 dark:text-gray-300 break-words ${
@@ -169,12 +216,20 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit }) => {
             }`}
           >
             {/* Display limited text on very small screens */}
-            <span className="line-clamp-3">{task.description}</span>
+            <span className="line-clamp-3">
+              <HighlightedText text={task.description} query={filters.search} />
+            </span>
           </p>
         )}
+        {/* Checklist progress (if the task has a checklist) */}
+        {task.checklist.length > 0 && (
+          <div className={task.description ? "mt-2" : ""}>
+            <ChecklistProgress checklist={task.checklist} />
+          </div>
+        )}
       </CardContent>
 
-      {/* Card footer with priority badge and due date */}
+      {/* Card footer with priority badge, due date and assignees */}
       <CardFooter className="px-3 py-2 flex flex-wrap justify-between items-center gap-2">
         {/* Priority badge with color-coding */}
         <span
@@ -191,6 +246,30 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit }) => {
             Due {formatDate(task.dueDate)}
           </span>
         )}
+
+        {/* Comment count (if any) */}
+        {task.comments.length > 0 && (
+          <span
+            className={`inline-flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 ${
+              task.dueDate ? "" : "ml-auto"
+            }`}
+            title={`${task.comments.length} comment(s)`}
+          >
+            <MessageSquare className="size-3.5" />
+            {task.comments.length}
+          </span>
+        )}
+
+        {/* Assignee avatars (if any) */}
+        {assignees.length > 0 && (
+          <div
+            className={
+              task.dueDate || task.comments.length > 0 ? "" : "ml-auto"
+            }
+          >
+            <AvatarStack members={assignees} />
+          </div>
+        )}
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,45 @@
+/**
+ * TaskCountBadge Component
+ *
+ * The task count in a column header, with the column's WIP limit ("4/5")
+ * when it has one. Turns amber at the limit and red past it.
+ */
+import React from "react";
+import type { Column } from "@/types";
+import { wipLoad } from "@/lib/wip";
+import { cn } from "@/lib/utils";
+
+/**
+ * Props for the TaskCountBadge component
+ */
+interface TaskCountBadgeProps {
+  /** The column with all of its tasks (not a filtered view) */
+  column: Column;
+}
+
+const TaskCountBadge: React.FC<TaskCountBadgeProps> = ({ column }) => {
+  const load = wipLoad(column);
+  return (
+    <span
+      className={cn(
+        "px-2 py-1 rounded-full text-xs",
+        load === "under" &&
+          "bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300",
+        load === "at" &&
+          "bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-400",
+        load === "over" &&
+          "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-400"
+      )}
+      title={
+        column.wipLimit === undefined
+          ? undefined
+          : `WIP limit: ${column.wipLimit}`
+      }
+    >
+      {column.tasks.length}
+      {column.wipLimit !== undefined && `/${column.wipLimit}`}
+    </span>
+  );
+};
+
+export default TaskCountBadge;
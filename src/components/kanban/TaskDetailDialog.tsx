@@ -0,0 +1,466 @@
+/**
+ * TaskDetailDialog Component
+ *
+ * Shows everything about one task: its fields, a threaded comment list and
+ * the activity log the store writes as the task is created, edited, moved,
+ * archived, deleted and restored. Comments are signed with the current user
+ * (see MembersDialog).
+ */
+import React, { useState } from "react";
+import { MessageSquare, Pencil, Reply, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast } from "@/store/useToastStore";
+import { ActivityType } from "@/types";
+import type { ActivityEntry, Column, Member, Task, TaskComment } from "@/types";
+import { getBlockers, isTaskDone } from "@/lib/dependencies";
+import { cn } from "@/lib/utils";
+import MemberAvatar from "./MemberAvatar";
+import AvatarStack from "./AvatarStack";
+import LabelChip from "./LabelChip";
+import ChecklistProgress from "./ChecklistProgress";
+
+/**
+ * Props for the TaskDetailDialog component
+ */
+interface TaskDetailDialogProps {
+  /** ID of the task to show; the dialog follows the task as it changes */
+  taskId?: string;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+
+  /** Opens the edit dialog for the task */
+  onEdit: (task: Task) => void;
+}
+
+/** Which list the lower half of the dialog shows */
+type DetailTab = "comments" | "activity";
+
+/**
+ * Display names of the task fields in change entries
+ */
+const fieldNames: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  priority: "Priority",
+  startDate: "Start date",
+  dueDate: "Due date",
+  blockedBy: "Blocked by",
+  labels: "Labels",
+  assignees: "Assignees",
+  checklist: "Checklist",
+  status: "Status",
+};
+
+/**
+ * What each kind of activity entry says after the actor's name
+ */
+const activityVerbs: Record<ActivityType, string> = {
+  [ActivityType.CREATED]: "created the task",
+  [ActivityType.UPDATED]: "edited the task",
+  [ActivityType.MOVED]: "moved the task",
+  [ActivityType.ARCHIVED]: "archived the task",
+  [ActivityType.UNARCHIVED]: "took the task out of the archive",
+  [ActivityType.DELETED]: "moved the task to the trash",
+  [ActivityType.RESTORED]: "restored the task from the trash",
+};
+
+/**
+ * Formats the time of a comment or activity entry
+ * @param date - The time
+ * @returns Formatted date string (e.g. "Mar 4, 14:05")
+ */
+const formatTimestamp = (date: Date) =>
+  date.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+/**
+ * Shows an empty field value as "none" in change entries
+ */
+const formatValue = (value: string) => value || "none";
+
+/**
+ * Props for the TaskDetailContent component
+ */
+interface TaskDetailContentProps {
+  task: Task;
+  /** The column the task is in */
+  column: Column;
+  onOpenChange: (open: boolean) => void;
+  onEdit: (task: Task) => void;
+}
+
+/**
+ * The dialog body for one task (re-mounted per task, which resets its forms)
+ */
+const TaskDetailContent: React.FC<TaskDetailContentProps> = ({
+  task,
+  column,
+  onOpenChange,
+  onEdit,
+}) => {
+  const { getActiveBoard, getCurrentMember, addComment, deleteComment } =
+    useKanbanStore();
+  const board = getActiveBoard();
+  const currentMember = getCurrentMember();
+
+  const [tab, setTab] = useState<DetailTab>("comments");
+  const [newComment, setNewComment] = useState("");
+  const [replyTo, setReplyTo] = useState<string | undefined>();
+  const [replyText, setReplyText] = useState("");
+
+  /**
+   * Names the member behind a comment or activity entry
+   * @param memberId - ID of the author or actor, if one was recorded
+   */
+  const findMember = (memberId: string | undefined): Member | undefined =>
+    board.members.find((member) => member.id === memberId);
+  const memberName = (memberId: string | undefined) =>
+    findMember(memberId)?.name ?? (memberId ? "A former member" : "Someone");
+
+  const labels = board.labels.filter((label) =>
+    task.labelIds.includes(label.id)
+  );
+  const assignees = board.members.filter((member) =>
+    task.assigneeIds.includes(member.id)
+  );
+  const blockers = getBlockers(board, task);
+  const threads = task.comments.filter((comment) => !comment.parentId);
+  const repliesTo = (comment: TaskComment) =>
+    task.comments.filter((reply) => reply.parentId === comment.id);
+
+  const handleAddComment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newComment.trim()) return;
+    addComment(task.id, newComment.trim());
+    setNewComment("");
+  };
+
+  const handleReply = (e: React.FormEvent, parent: TaskComment) => {
+    e.preventDefault();
+    if (!replyText.trim()) return;
+    addComment(task.id, replyText.trim(), parent.id);
+    setReplyTo(undefined);
+    setReplyText("");
+  };
+
+  const handleDeleteComment = (comment: TaskComment) => {
+    deleteComment(task.id, comment.id);
+    showUndoToast("Comment deleted");
+  };
+
+  /**
+   * One comment with its author, time and actions
+   */
+  const renderComment = (comment: TaskComment) => {
+    const author = findMember(comment.authorId);
+    return (
+      <div className="flex gap-2">
+        {author ? (
+          <MemberAvatar member={author} />
+        ) : (
+          <span className="inline-flex size-6 shrink-0 items-center justify-center rounded-full bg-gray-200 text-[10px] text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+            ?
+          </span>
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-baseline gap-2 text-xs">
+            <span className="font-medium">{memberName(comment.authorId)}</span>
+            <span className="text-gray-500 dark:text-gray-400">
+              {formatTimestamp(comment.createdAt)}
+            </span>
+          </div>
+          <p className="text-sm whitespace-pre-wrap break-words">
+            {comment.text}
+          </p>
+          <div className="flex gap-3 text-xs text-gray-500 dark:text-gray-400">
+            {!comment.parentId && (
+              <button
+                type="button"
+                onClick={() => {
+                  setReplyTo(comment.id);
+                  setReplyText("");
+                }}
+                className="inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-gray-100"
+              >
+                <Reply size={12} />
+                Reply
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => handleDeleteComment(comment)}
+              className="inline-flex items-center gap-1 hover:text-red-600"
+              aria-label="Delete comment"
+            >
+              <Trash2 size={12} />
+              Delete
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  /**
+   * Describes an activity entry, with one line per changed field
+   */
+  const renderActivity = (entry: ActivityEntry) => (
+    <li key={entry.id} className="text-sm">
+      <div>
+        <span className="font-medium">{memberName(entry.actorId)}</span>{" "}
+        {entry.type === ActivityType.MOVED && entry.changes[0]
+          ? `moved the task from ${formatValue(
+              entry.changes[0].before
+            )} to ${formatValue(entry.changes[0].after)}`
+          : activityVerbs[entry.type]}
+        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+          {formatTimestamp(entry.createdAt)}
+        </span>
+      </div>
+      {entry.type === ActivityType.UPDATED && (
+        <ul className="ml-3 text-xs text-gray-600 dark:text-gray-300">
+          {entry.changes.map((change) => (
+            <li key={change.field} className="break-words">
+              {fieldNames[change.field] ?? change.field}:{" "}
+              <span className="line-through opacity-70">
+                {formatValue(change.before)}
+              </span>{" "}
+              → {formatValue(change.after)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+
+  return (
+    <>
+      <DialogHeader>
+        <div className="text-xs font-mono text-gray-500 dark:text-gray-400">
+          {task.key}
+        </div>
+        <DialogTitle className="break-words">{task.title}</DialogTitle>
+        <DialogDescription>
+          In {column.title} · {task.priority} priority
+          {task.startDate &&
+            ` · starts ${task.startDate.toLocaleDateString("en-US", {
+              month: "short",
+              day: "numeric",
+              year: "numeric",
+            })}`}
+          {task.dueDate &&
+            ` · due ${task.dueDate.toLocaleDateString("en-US", {
+              month: "short",
+              day: "numeric",
+              year: "numeric",
+            })}`}
+        </DialogDescription>
+      </DialogHeader>
+
+      {/* Task fields */}
+      <div className="space-y-3">
+        {(labels.length > 0 || assignees.length > 0) && (
+          <div className="flex flex-wrap items-center gap-2">
+            {labels.map((label) => (
+              <LabelChip key={label.id} label={label} />
+            ))}
+            {assignees.length > 0 && (
+              <div className="ml-auto">
+                <AvatarStack members={assignees} />
+              </div>
+            )}
+          </div>
+        )}
+        {task.description && (
+          <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+            {task.description}
+          </p>
+        )}
+        {task.checklist.length > 0 && (
+          <ChecklistProgress checklist={task.checklist} />
+        )}
+        {blockers.length > 0 && (
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="font-medium">Blocked by</span>{" "}
+            {blockers.map((blocker, index) => (
+              <React.Fragment key={blocker.id}>
+                {index > 0 && ", "}
+                <span
+                  className={cn(
+                    isTaskDone(board, blocker.id) &&
+                      "line-through text-gray-500 dark:text-gray-400"
+                  )}
+                  title={blocker.title}
+                >
+                  {blocker.key}
+                </span>
+              </React.Fragment>
+            ))}
+          </p>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            onOpenChange(false);
+            onEdit(task);
+          }}
+        >
+          <Pencil className="h-4 w-4" />
+          Edit task
+        </Button>
+      </div>
+
+      {/* Comments / activity switch */}
+      <div className="flex gap-1 border-b border-gray-200 dark:border-gray-700">
+        {(["comments", "activity"] as const).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setTab(value)}
+            className={cn(
+              "px-3 py-1.5 text-sm -mb-px border-b-2",
+              tab === value
+                ? "border-gray-900 font-medium dark:border-gray-100"
+                : "border-transparent text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
+            )}
+            aria-pressed={tab === value}
+          >
+            {value === "comments"
+              ? `Comments (${task.comments.length})`
+              : `Activity (${task.activity.length})`}
+          </button>
+        ))}
+      </div>
+
+      {tab === "comments" ? (
+        <div className="space-y-4">
+          {threads.length === 0 && (
+            <p className="py-2 text-center text-sm text-gray-500 dark:text-gray-400">
+              No comments yet.
+            </p>
+          )}
+          {threads.map((thread) => (
+            <div key={thread.id} className="space-y-2">
+              {renderComment(thread)}
+              {/* Replies, indented under their thread */}
+              <div className="ml-8 space-y-2">
+                {repliesTo(thread).map((reply) => (
+                  <div key={reply.id}>{renderComment(reply)}</div>
+                ))}
+                {replyTo === thread.id && (
+                  <form
+                    onSubmit={(e) => handleReply(e, thread)}
+                    className="flex gap-2"
+                  >
+                    <Textarea
+                      value={replyText}
+                      onChange={(e) => setReplyText(e.target.value)}
+                      placeholder="Write a reply"
+                      aria-label="Reply"
+                      className="min-h-16 text-sm"
+                      autoFocus
+                    />
+                    <div className="flex flex-col gap-1">
+                      <Button type="submit" size="sm">
+                        Reply
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setReplyTo(undefined)}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {/* New top-level comment */}
+          <form onSubmit={handleAddComment} className="space-y-2">
+            <Textarea
+              value={newComment}
+              onChange={(e) => setNewComment(e.target.value)}
+              placeholder="Write a comment"
+              aria-label="New comment"
+              className="min-h-20 text-sm"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                {currentMember
+                  ? `Commenting as ${currentMember.name}`
+                  : 'Pick yourself under "Members" to sign your comments.'}
+              </p>
+              <Button type="submit" size="sm" disabled={!newComment.trim()}>
+                <MessageSquare className="h-4 w-4" />
+                Comment
+              </Button>
+            </div>
+          </form>
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {/* Most recent first */}
+          {[...task.activity].reverse().map(renderActivity)}
+          {task.activity.length === 0 && (
+            <p className="py-2 text-center text-sm text-gray-500 dark:text-gray-400">
+              No activity recorded yet.
+            </p>
+          )}
+        </ul>
+      )}
+    </>
+  );
+};
+
+const TaskDetailDialog: React.FC<TaskDetailDialogProps> = ({
+  taskId,
+  onOpenChange,
+  onEdit,
+}) => {
+  const { getActiveBoard } = useKanbanStore();
+
+  // Look the task up on every render so new comments and edits show up;
+  // the dialog closes by itself if the task leaves the board
+  const column = getActiveBoard().columns.find((col) =>
+    col.tasks.some((task) => task.id === taskId)
+  );
+  const task = column?.tasks.find((t) => t.id === taskId);
+
+  return (
+    <Dialog open={Boolean(task)} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        {task && column && (
+          <TaskDetailContent
+            key={task.id}
+            task={task}
+            column={column}
+            onOpenChange={onOpenChange}
+            onEdit={onEdit}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskDetailDialog;
@@ -0,0 +1,424 @@
+/**
+ * TimelineView Component
+ *
+ * Draws the filtered tasks that have dates as bars from their start to their
+ * due date, one row per task, with arrows from each blocking task to the
+ * tasks it blocks. Dragging a bar moves the task; dragging either end changes
+ * its start or due date. Tasks scheduled to start before their blockers can
+ * be done are flagged, along with the arrows that cause it.
+ */
+import React, { useEffect, useId, useRef, useState } from "react";
+import { TriangleAlert } from "lucide-react";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import type { Task } from "@/types";
+import {
+  BarDrag,
+  daysBetween,
+  getTaskSpan,
+  getTimelineRange,
+  getTimelineTasks,
+  rescheduleTask,
+} from "@/lib/timeline";
+import type { TaskSpan } from "@/lib/timeline";
+import { getScheduleConflicts } from "@/lib/dependencies";
+import { addDays } from "@/lib/dates";
+import { getPriorityBadge } from "@/lib/colors";
+import { cn } from "@/lib/utils";
+
+/** Width of one day, in pixels */
+const DAY_WIDTH = 32;
+
+/** Height of one task row, in pixels */
+const ROW_HEIGHT = 36;
+
+/** Width of the task names on the left, in pixels */
+const LABEL_WIDTH = 240;
+
+/** Pixels the pointer must move before a press on a bar counts as a drag */
+const DRAG_THRESHOLD = 3;
+
+/**
+ * A bar being dragged
+ */
+interface BarDragState {
+  taskId: string;
+  drag: BarDrag;
+  /** Pointer position when the drag started */
+  originX: number;
+  /** Whole days dragged so far */
+  days: number;
+  /** Whether the pointer moved far enough to count as a drag */
+  moved: boolean;
+}
+
+/**
+ * Props for the TimelineView component
+ */
+interface TimelineViewProps {
+  /** Callback for when a task is edited */
+  onEditTask: (task: Task) => void;
+  /** Callback for opening a task's details */
+  onOpenTaskDetails?: (task: Task) => void;
+}
+
+/**
+ * Draws an arrow from the end of one bar to the start of another
+ * Arrows into an earlier bar go around it through the gap between the rows.
+ */
+const arrowPath = (x1: number, y1: number, x2: number, y2: number) => {
+  const gap = 8;
+  if (x2 - x1 >= gap * 2) {
+    return `M ${x1} ${y1} H ${x1 + gap} V ${y2} H ${x2}`;
+  }
+  const between = y2 > y1 ? y2 - ROW_HEIGHT / 2 : y2 + ROW_HEIGHT / 2;
+  return `M ${x1} ${y1} H ${x1 + gap} V ${between} H ${x2 - gap} V ${y2} H ${x2}`;
+};
+
+const TimelineView: React.FC<TimelineViewProps> = ({
+  onEditTask,
+  onOpenTaskDetails,
+}) => {
+  const { getActiveBoard, getFilteredBoard, updateTask } = useKanbanStore();
+  const filteredBoard = getFilteredBoard();
+  const [dragState, setDragState] = useState<BarDragState | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const markerId = useId();
+
+  const now = new Date();
+  const rows = getTimelineTasks(filteredBoard);
+  const undated = filteredBoard.columns.reduce(
+    (total, column) =>
+      total + column.tasks.filter((task) => !getTaskSpan(task)).length,
+    0
+  );
+  // Conflicts look at the whole board, so hidden blockers still count
+  const conflicts = getScheduleConflicts(getActiveBoard(), now);
+  const { first, days } = getTimelineRange(
+    rows.map((row) => row.span),
+    now
+  );
+  const todayOffset = daysBetween(first, now);
+  const openTask = onOpenTaskDetails ?? onEditTask;
+
+  // Start with the week before today in view, once there is a timeline;
+  // afterwards the user scrolls
+  const hasRows = rows.length > 0;
+  useEffect(() => {
+    const container = containerRef.current;
+    const today = container?.querySelector<HTMLElement>("[data-today]");
+    if (container && today) {
+      container.scrollLeft = Math.max(
+        0,
+        today.offsetLeft - LABEL_WIDTH - 7 * DAY_WIDTH
+      );
+    }
+  }, [hasRows]);
+
+  /**
+   * Gets the span shown for a task, following its bar while it is dragged
+   */
+  const shownSpan = (task: Task, span: TaskSpan): TaskSpan =>
+    dragState?.taskId === task.id
+      ? (getTaskSpan({
+          ...task,
+          ...rescheduleTask(task, dragState.drag, dragState.days),
+        }) ?? span)
+      : span;
+
+  const spans = new Map(
+    rows.map(({ task, span }) => [task.id, shownSpan(task, span)])
+  );
+  const rowIndex = new Map(rows.map(({ task }, index) => [task.id, index]));
+
+  const handlePointerDown = (
+    event: React.PointerEvent,
+    task: Task,
+    drag: BarDrag
+  ) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragState({
+      taskId: task.id,
+      drag,
+      originX: event.clientX,
+      days: 0,
+      moved: false,
+    });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragState) return;
+    const distance = event.clientX - dragState.originX;
+    setDragState({
+      ...dragState,
+      days: Math.round(distance / DAY_WIDTH),
+      moved: dragState.moved || Math.abs(distance) >= DRAG_THRESHOLD,
+    });
+  };
+
+  /**
+   * Saves the new dates of a dragged bar, or opens the task if it was clicked
+   */
+  const handlePointerUp = (task: Task) => {
+    if (!dragState) return;
+    setDragState(null);
+    if (!dragState.moved) {
+      openTask(task);
+    } else if (dragState.days !== 0) {
+      updateTask(task.id, rescheduleTask(task, dragState.drag, dragState.days));
+    }
+  };
+
+  if (rows.length === 0) {
+    return (
+      <div className="p-4">
+        <div className="w-full text-center p-4 sm:p-8 bg-gray-50 dark:bg-gray-800/50 rounded-md">
+          <p>No shown tasks have a start or due date.</p>
+          <p className="text-xs sm:text-sm text-gray-500 mt-2">
+            Give tasks dates in their edit dialog to place them on the timeline.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const dayList = Array.from({ length: days }, (_, index) =>
+    addDays(first, index)
+  );
+  const barLeft = (span: TaskSpan) =>
+    daysBetween(first, span.start) * DAY_WIDTH;
+  const barRight = (span: TaskSpan) =>
+    (daysBetween(first, span.end) + 1) * DAY_WIDTH - 2;
+
+  return (
+    <div className="p-4">
+      <div
+        ref={containerRef}
+        className="max-h-[75vh] overflow-auto rounded-md border border-gray-200 dark:border-gray-700"
+      >
+        <div
+          className="relative"
+          style={{ width: LABEL_WIDTH + days * DAY_WIDTH }}
+        >
+          {/* Header - month and day of every column, stays in view */}
+          <div className="sticky top-0 z-30 flex h-10 bg-gray-100 dark:bg-gray-800 text-xs text-gray-500 dark:text-gray-400">
+            <div
+              className="sticky left-0 z-10 flex items-end px-2 pb-1 font-medium bg-gray-100 dark:bg-gray-800"
+              style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+            >
+              Task
+            </div>
+            {dayList.map((day, index) => (
+              <div
+                key={index}
+                data-today={index === todayOffset || undefined}
+                className={cn(
+                  "relative flex flex-col justify-end items-center pb-1",
+                  index === todayOffset &&
+                    "text-blue-600 dark:text-blue-400 font-semibold"
+                )}
+                style={{ width: DAY_WIDTH, minWidth: DAY_WIDTH }}
+              >
+                {(index === 0 || day.getDate() === 1) && (
+                  <span className="absolute top-0.5 left-1 whitespace-nowrap font-medium text-gray-700 dark:text-gray-300">
+                    {day.toLocaleDateString("en-US", {
+                      month: "short",
+                      year: "numeric",
+                    })}
+                  </span>
+                )}
+                {day.getDate()}
+              </div>
+            ))}
+          </div>
+
+          <div
+            className="relative"
+            style={{ height: rows.length * ROW_HEIGHT }}
+          >
+            {/* Weekends and today, behind the bars */}
+            <div
+              className="absolute inset-y-0"
+              style={{ left: LABEL_WIDTH, width: days * DAY_WIDTH }}
+            >
+              {dayList.map(
+                (day, index) =>
+                  (day.getDay() === 0 || day.getDay() === 6) && (
+                    <div
+                      key={index}
+                      className="absolute inset-y-0 bg-gray-50 dark:bg-gray-800/40"
+                      style={{ left: index * DAY_WIDTH, width: DAY_WIDTH }}
+                    />
+                  )
+              )}
+              <div
+                className="absolute inset-y-0 w-0.5 bg-blue-500/60"
+                style={{ left: todayOffset * DAY_WIDTH + DAY_WIDTH / 2 }}
+              />
+            </div>
+
+            {/* Dependency arrows, from the end of each blocker */}
+            <svg
+              className="absolute top-0 pointer-events-none"
+              style={{ left: LABEL_WIDTH }}
+              width={days * DAY_WIDTH}
+              height={rows.length * ROW_HEIGHT}
+            >
+              <defs>
+                {["arrow", "conflict"].map((kind) => (
+                  <marker
+                    key={kind}
+                    id={`${markerId}-${kind}`}
+                    viewBox="0 0 6 6"
+                    refX="6"
+                    refY="3"
+                    markerWidth="6"
+                    markerHeight="6"
+                    orient="auto"
+                  >
+                    <path
+                      d="M 0 0 L 6 3 L 0 6 z"
+                      className={
+                        kind === "conflict" ? "fill-red-500" : "fill-gray-400"
+                      }
+                    />
+                  </marker>
+                ))}
+              </defs>
+              {rows.flatMap(({ task }) =>
+                task.blockedByIds.flatMap((blockerId) => {
+                  const from = spans.get(blockerId);
+                  const to = spans.get(task.id);
+                  if (!from || !to) return [];
+                  const isConflict = conflicts
+                    .get(task.id)
+                    ?.some((blocker) => blocker.id === blockerId);
+                  const centerY = (id: string) =>
+                    ((rowIndex.get(id) ?? 0) + 0.5) * ROW_HEIGHT;
+                  return [
+                    <path
+                      key={`${blockerId}-${task.id}`}
+                      d={arrowPath(
+                        barRight(from),
+                        centerY(blockerId),
+                        barLeft(to),
+                        centerY(task.id)
+                      )}
+                      fill="none"
+                      strokeWidth={1.5}
+                      className={
+                        isConflict ? "stroke-red-500" : "stroke-gray-400"
+                      }
+                      markerEnd={`url(#${markerId}-${
+                        isConflict ? "conflict" : "arrow"
+                      })`}
+                    />,
+                  ];
+                })
+              )}
+            </svg>
+
+            {rows.map(({ task }, index) => {
+              const span = spans.get(task.id) as TaskSpan;
+              const earlyFor = conflicts.get(task.id);
+              const isDragged = dragState?.taskId === task.id;
+              return (
+                <div
+                  key={task.id}
+                  className="absolute inset-x-0 flex border-b border-gray-100 dark:border-gray-800"
+                  style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                >
+                  {/* Task name - stays in view while scrolling sideways */}
+                  <button
+                    type="button"
+                    onClick={() => openTask(task)}
+                    className="sticky left-0 z-20 flex items-center gap-1.5 px-2 text-left text-sm bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700 hover:underline"
+                    style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                    title={task.title}
+                  >
+                    <span className="font-medium text-gray-500 dark:text-gray-400">
+                      {task.key}
+                    </span>
+                    <span className="truncate">{task.title}</span>
+                    {earlyFor && (
+                      <TriangleAlert
+                        className="ml-auto size-4 flex-shrink-0 text-red-500"
+                        aria-label={`Starts before ${earlyFor
+                          .map((blocker) => blocker.key)
+                          .join(", ")} can be done`}
+                      />
+                    )}
+                  </button>
+
+                  {/* Bar - drag to move, drag an end to change that date */}
+                  <div className="relative flex-1">
+                    <div
+                      onPointerDown={(e) =>
+                        handlePointerDown(e, task, BarDrag.MOVE)
+                      }
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={() => handlePointerUp(task)}
+                      onPointerCancel={() => setDragState(null)}
+                      title={
+                        earlyFor
+                          ? `${task.key} starts before ${earlyFor
+                              .map((blocker) => blocker.key)
+                              .join(", ")} can be done`
+                          : `${task.key} ${task.title}`
+                      }
+                      className={cn(
+                        "group absolute top-1.5 bottom-1.5 z-10 flex items-center overflow-hidden rounded px-2 text-xs select-none touch-none cursor-grab",
+                        getPriorityBadge(task.priority),
+                        earlyFor && "ring-2 ring-red-500",
+                        isDragged &&
+                          dragState?.moved &&
+                          "cursor-grabbing shadow-lg"
+                      )}
+                      style={{
+                        left: barLeft(span),
+                        width: barRight(span) - barLeft(span),
+                      }}
+                    >
+                      {/* Ends - their pointer events bubble up to the bar */}
+                      {(
+                        [
+                          [BarDrag.START, "left-0"],
+                          [BarDrag.END, "right-0"],
+                        ] as const
+                      ).map(([drag, side]) => (
+                        <div
+                          key={drag}
+                          onPointerDown={(e) =>
+                            handlePointerDown(e, task, drag)
+                          }
+                          className={cn(
+                            "absolute inset-y-0 w-1.5 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-current/30",
+                            side
+                          )}
+                          aria-hidden
+                        />
+                      ))}
+                      <span className="truncate">
+                        {task.key} {task.title}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {undated > 0 && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          {undated} shown {undated === 1 ? "task has" : "tasks have"} no start
+          or due date and {undated === 1 ? "is" : "are"} not on the timeline.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TimelineView;
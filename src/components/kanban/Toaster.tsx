@@ -0,0 +1,57 @@
+/**
+ * Toaster Component
+ *
+ * Renders the active toasts from the toast store in the bottom-right corner.
+ */
+import React from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToastStore } from "@/store/useToastStore";
+import { cn } from "@/lib/utils";
+
+const Toaster: React.FC = () => {
+  const { toasts, dismissToast } = useToastStore();
+
+  return (
+    <div
+      aria-live="polite"
+      className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-[calc(100%-2rem)] sm:w-80"
+    >
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          role="status"
+          className={cn(
+            "flex items-center gap-2 p-3 rounded-lg border shadow-lg text-sm bg-white dark:bg-gray-800",
+            toast.variant === "warning" &&
+              "border-yellow-300 bg-yellow-50 text-yellow-800 dark:border-yellow-900 dark:bg-yellow-950 dark:text-yellow-300"
+          )}
+        >
+          <span className="flex-1">{toast.message}</span>
+          {toast.actionLabel && toast.onAction && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => {
+                toast.onAction?.();
+                dismissToast(toast.id);
+              }}
+            >
+              {toast.actionLabel}
+            </Button>
+          )}
+          <button
+            onClick={() => dismissToast(toast.id)}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Dismiss notification"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Toaster;
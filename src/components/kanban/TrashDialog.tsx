@@ -0,0 +1,187 @@
+/**
+ * TrashDialog Component
+ *
+ * Lists the deleted tasks of the active board. Each task can be restored to
+ * the column it was deleted from or deleted for good; the whole trash can be
+ * emptied at once. Items older than the board's retention period are purged
+ * automatically when the app loads.
+ */
+import React from "react";
+import { RotateCcw, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { showUndoToast } from "@/store/useToastStore";
+import { TRASH_RETENTION_OPTIONS, formatRetention } from "@/lib/trash";
+
+/**
+ * Props for the TrashDialog component
+ */
+interface TrashDialogProps {
+  /** Whether the dialog is currently open */
+  open: boolean;
+
+  /** Callback for when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Formats the time a task was deleted
+ * @param date - Deletion time
+ * @returns Formatted date string (e.g. "Mar 4, 14:05")
+ */
+const formatDeletedAt = (date: Date) => {
+  return date.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+};
+
+const TrashDialog: React.FC<TrashDialogProps> = ({ open, onOpenChange }) => {
+  const {
+    getActiveBoard,
+    restoreTask,
+    deleteTaskPermanently,
+    emptyTrash,
+    updateBoardSettings,
+  } = useKanbanStore();
+  const board = getActiveBoard();
+  const { trash } = board;
+
+  const columnTitle = (columnId: string) =>
+    board.columns.find((column) => column.id === columnId)?.title ??
+    "Deleted column";
+
+  const handleEmptyTrash = () => {
+    const count = trash.length;
+    emptyTrash();
+    showUndoToast(
+      `${count} ${count === 1 ? "task" : "tasks"} permanently deleted`
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted tasks of "{board.title}". Restoring a task puts it back
+            where it was.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Retention period for this board */}
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-gray-600 dark:text-gray-300">
+            Delete items permanently after
+          </span>
+          <Select
+            value={String(board.settings.trashRetentionDays)}
+            onValueChange={(value) =>
+              updateBoardSettings(board.id, {
+                trashRetentionDays: Number(value),
+              })
+            }
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRASH_RETENTION_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {formatRetention(days)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {trash.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            The trash is empty.
+          </p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 rounded-md border border-gray-200 dark:border-gray-700">
+            {trash.map(({ task, columnId, deletedAt }) => (
+              <li key={task.id} className="flex items-center gap-2 p-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    <span className="font-mono text-xs text-gray-500 dark:text-gray-400 mr-1.5">
+                      {task.key}
+                    </span>
+                    {task.title}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    From {columnTitle(columnId)} · deleted{" "}
+                    {formatDeletedAt(deletedAt)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8"
+                  onClick={() => restoreTask(task.id)}
+                  title="Restore"
+                  aria-label={`Restore ${task.key}`}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 text-red-600 hover:text-red-700"
+                  onClick={() => {
+                    deleteTaskPermanently(task.id);
+                    showUndoToast(`${task.key} permanently deleted`);
+                  }}
+                  title="Delete permanently"
+                  aria-label={`Delete ${task.key} permanently`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={handleEmptyTrash}
+            disabled={trash.length === 0}
+          >
+            Empty trash
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TrashDialog;
@@ -0,0 +1,77 @@
+/**
+ * useViewUrlSync Hook
+ *
+ * Keeps the URL query string and the board's view state in step:
+ * on mount the board, saved view, filters, sort, grouping and layout are read from the URL,
+ * and from then on every change is written back (without adding browser
+ * history entries), so the address bar always holds a link to the current view.
+ */
+import { useEffect } from "react";
+import { useKanbanStore } from "@/store/useKanbanStore";
+import { decodeViewLocation, encodeViewLocation } from "@/lib/viewUrl";
+import { hasActiveFilters } from "@/lib/filters";
+import { BoardLayout, GroupField, SortField } from "@/types";
+
+export const useViewUrlSync = (): void => {
+  useEffect(() => {
+    const store = useKanbanStore.getState();
+    const location = decodeViewLocation(
+      new URLSearchParams(window.location.search)
+    );
+
+    // Open the linked board first; switching boards resets the filters
+    const { boardId } = location;
+    if (boardId && store.boards.some((board) => board.id === boardId)) {
+      store.setActiveBoard(boardId);
+    }
+
+    // The layout is not part of saved views, so it is always taken from the link
+    if (location.layout !== BoardLayout.BOARD) store.setLayout(location.layout);
+
+    const linkedView = useKanbanStore
+      .getState()
+      .getActiveBoard()
+      .views.find((view) => view.id === location.viewId);
+    if (linkedView) {
+      store.applyView(linkedView.id);
+    } else {
+      // The view may not exist here (deleted, or another browser), but the
+      // link still carries its filters, sort and grouping
+      if (hasActiveFilters(location.filters))
+        store.setFilters(location.filters);
+      if (location.sort.field !== SortField.MANUAL)
+        store.setSort(location.sort);
+      if (location.groupBy !== GroupField.NONE)
+        store.setGroupBy(location.groupBy);
+    }
+
+    const writeUrl = () => {
+      const { activeBoardId, activeViewId, filters, sort, groupBy, layout } =
+        useKanbanStore.getState();
+      const query = encodeViewLocation({
+        boardId: activeBoardId,
+        viewId: activeViewId,
+        filters,
+        sort,
+        groupBy,
+        layout,
+      }).toString();
+      const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`;
+      window.history.replaceState(window.history.state, "", url);
+    };
+
+    writeUrl();
+    return useKanbanStore.subscribe((state, previousState) => {
+      if (
+        state.activeBoardId !== previousState.activeBoardId ||
+        state.activeViewId !== previousState.activeViewId ||
+        state.filters !== previousState.filters ||
+        state.sort !== previousState.sort ||
+        state.groupBy !== previousState.groupBy ||
+        state.layout !== previousState.layout
+      ) {
+        writeUrl();
+      }
+    });
+  }, []);
+};
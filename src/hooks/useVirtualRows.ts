@@ -0,0 +1,61 @@
+/**
+ * useVirtualRows Hook
+ *
+ * Renders only the rows of a long list that are in view. The list scrolls
+ * inside a container of its own; rows have a fixed height, so the rows in
+ * view follow from the scroll position and the container height alone.
+ */
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/** Rows rendered above and below the visible ones, so fast scrolling stays filled */
+const OVERSCAN = 8;
+
+interface VirtualRows<T extends HTMLElement> {
+  /** Ref for the scrolling container */
+  containerRef: React.RefObject<T | null>;
+  /** Scroll handler for the container */
+  onScroll: () => void;
+  /** Index of the first row to render */
+  start: number;
+  /** Index after the last row to render */
+  end: number;
+  /** Height of all rows together, in pixels */
+  totalHeight: number;
+}
+
+/**
+ * Works out which rows of a list to render
+ * @param count - Number of rows
+ * @param rowHeight - Height of every row, in pixels
+ */
+export const useVirtualRows = <T extends HTMLElement>(
+  count: number,
+  rowHeight: number
+): VirtualRows<T> => {
+  const containerRef = useRef<T>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  // Follow the container height as the window resizes
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(container.clientHeight)
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback(() => {
+    setScrollTop(containerRef.current?.scrollTop ?? 0);
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+  const end = Math.min(
+    count,
+    Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN
+  );
+
+  return { containerRef, onScroll, start, end, totalHeight: count * rowHeight };
+};
@@ -0,0 +1,176 @@
+/**
+ * Task activity log helpers
+ *
+ * The store actions record what happens to a task (created, edited, moved,
+ * archived, deleted, restored) in the task's `activity` list. Values are
+ * stored as they read at the time - column titles, label and member names -
+ * so the log stays readable after things are renamed or deleted.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { ActivityType } from "../types";
+import type {
+  ActivityEntry,
+  Board,
+  FieldChange,
+  Task,
+  TaskStatus,
+} from "../types";
+import { checklistProgress } from "./checklist";
+import { toDateInputValue } from "./dates";
+import { getBlockers } from "./dependencies";
+
+/** Most entries kept per task; older ones are dropped first */
+export const MAX_ACTIVITY_ENTRIES = 200;
+
+/**
+ * Creates an activity entry stamped with the current time
+ * @param type - What happened
+ * @param actorId - Member who did it, if known
+ * @param changes - Field diffs, if any
+ */
+export const createActivity = (
+  type: ActivityType,
+  actorId: string | undefined,
+  changes: FieldChange[] = []
+): ActivityEntry => ({
+  id: uuidv4(),
+  type,
+  ...(actorId && { actorId }),
+  changes,
+  createdAt: new Date(),
+});
+
+/**
+ * Appends entries to a task's activity log, keeping it within the limit
+ * @param task - The task the entries belong to
+ * @param entries - New entries, oldest first
+ * @returns The task with the longer log
+ */
+export const withActivity = (
+  task: Task,
+  ...entries: ActivityEntry[]
+): Task => ({
+  ...task,
+  activity: [...task.activity, ...entries].slice(-MAX_ACTIVITY_ENTRIES),
+});
+
+/**
+ * Describes a column change for the log
+ * @param board - The board the columns belong to
+ * @param fromStatus - ID of the column the task left
+ * @param toStatus - ID of the column the task entered
+ */
+export const describeMove = (
+  board: Board,
+  fromStatus: TaskStatus,
+  toStatus: TaskStatus
+): FieldChange => {
+  const title = (status: TaskStatus) =>
+    board.columns.find((column) => column.id === status)?.title ?? "";
+  return { field: "status", before: title(fromStatus), after: title(toStatus) };
+};
+
+/**
+ * Records a move, merging it into the previous move of the same gesture
+ *
+ * Dragging a card across several columns moves it once per column; when
+ * `mergeSince` is given, a move entry written since then is extended instead
+ * of adding another one (and dropped if the card ended up where it started).
+ *
+ * @param task - The moved task
+ * @param move - The column change (see describeMove)
+ * @param actorId - Member who moved the task, if known
+ * @param mergeSince - Start of the current gesture, if any
+ */
+export const withMoveActivity = (
+  task: Task,
+  move: FieldChange,
+  actorId: string | undefined,
+  mergeSince?: Date
+): Task => {
+  const last = task.activity[task.activity.length - 1];
+  const canMerge =
+    mergeSince !== undefined &&
+    last?.type === ActivityType.MOVED &&
+    last.actorId === actorId &&
+    last.createdAt >= mergeSince;
+  if (!canMerge) {
+    return withActivity(
+      task,
+      createActivity(ActivityType.MOVED, actorId, [move])
+    );
+  }
+
+  const before = last.changes[0]?.before ?? move.before;
+  const earlier = task.activity.slice(0, -1);
+  return {
+    ...task,
+    activity:
+      before === move.after
+        ? earlier
+        : [
+            ...earlier,
+            {
+              ...last,
+              changes: [{ ...move, before }],
+              createdAt: new Date(),
+            },
+          ],
+  };
+};
+
+/**
+ * Formats the catalog entries a task refers to by ID as a list of names
+ */
+const formatNames = (ids: string[], catalog: { id: string; name: string }[]) =>
+  catalog
+    .filter((entry) => ids.includes(entry.id))
+    .map((entry) => entry.name)
+    .join(", ");
+
+/**
+ * Lists the fields an edit changed, leaving out the column (see describeMove)
+ * and timestamps
+ * @param before - The task before the edit
+ * @param after - The task after the edit
+ * @param board - Supplies label and member names and blocker keys
+ * @returns One change per field that differs
+ */
+export const diffTasks = (
+  before: Task,
+  after: Task,
+  board: Board
+): FieldChange[] => {
+  const fields: Array<[string, (task: Task) => string]> = [
+    ["title", (task) => task.title],
+    ["description", (task) => task.description ?? ""],
+    ["priority", (task) => task.priority],
+    ["startDate", (task) => toDateInputValue(task.startDate)],
+    ["dueDate", (task) => toDateInputValue(task.dueDate)],
+    [
+      "blockedBy",
+      (task) =>
+        getBlockers(board, task)
+          .map((blocker) => blocker.key)
+          .join(", "),
+    ],
+    ["labels", (task) => formatNames(task.labelIds, board.labels)],
+    ["assignees", (task) => formatNames(task.assigneeIds, board.members)],
+    [
+      "checklist",
+      (task) => {
+        const { done, total } = checklistProgress(task.checklist);
+        return total > 0 ? `${done}/${total}` : "";
+      },
+    ],
+  ];
+
+  return fields.flatMap(([field, format]) => {
+    const beforeValue = format(before);
+    const afterValue = format(after);
+    return beforeValue === afterValue
+      ? []
+      : [{ field, before: beforeValue, after: afterValue }];
+  });
+};
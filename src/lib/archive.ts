@@ -0,0 +1,41 @@
+/**
+ * Archive helpers
+ *
+ * Finished tasks can be moved out of the columns into the board's archive,
+ * either one at a time or in bulk once they have been done for a while.
+ */
+
+import { ColumnCategory } from "../types";
+import type { Board, Task } from "../types";
+import { DAY_MS } from "./dates";
+
+/** Suggested age for "archive done tasks older than N days" */
+export const DEFAULT_ARCHIVE_AGE_DAYS = 14;
+
+/**
+ * When a task was last touched
+ * @param task - Any task
+ * @returns The last update time, or the creation time if never updated
+ */
+export const lastActivity = (task: Task): Date =>
+  task.updatedAt ?? task.createdAt;
+
+/**
+ * Finds done tasks that haven't changed for a number of days
+ * @param board - The board to search
+ * @param olderThanDays - Minimum age in days since the task last changed
+ * @param now - Reference time (defaults to the current time)
+ * @returns IDs of tasks in "done" columns older than the cutoff
+ */
+export const findStaleDoneTasks = (
+  board: Board,
+  olderThanDays: number,
+  now = new Date()
+): string[] => {
+  const cutoff = now.getTime() - olderThanDays * DAY_MS;
+  return board.columns
+    .filter((column) => column.category === ColumnCategory.DONE)
+    .flatMap((column) => column.tasks)
+    .filter((task) => lastActivity(task).getTime() <= cutoff)
+    .map((task) => task.id);
+};
@@ -0,0 +1,114 @@
+/**
+ * Calendar helpers
+ *
+ * Lays out the days of a month or week for the calendar view and places the
+ * tasks of a board on the day they are due. Weeks start on Monday, like the
+ * "due this week" filter.
+ */
+
+import type { Board, Task } from "../types";
+import { addDays, startOfDay, startOfWeek, toDateInputValue } from "./dates";
+
+/**
+ * Span of time the calendar shows at once
+ */
+export const CalendarMode = {
+  MONTH: "month",
+  WEEK: "week",
+} as const;
+
+export type CalendarMode = (typeof CalendarMode)[keyof typeof CalendarMode];
+
+/**
+ * Gets the days to show for a month or week
+ * @param anchor - Any day of the month or week
+ * @param mode - Month or week
+ * @returns Midnight of each day; a month is padded to whole weeks
+ */
+export const getCalendarDays = (anchor: Date, mode: CalendarMode): Date[] => {
+  const first =
+    mode === CalendarMode.WEEK
+      ? startOfWeek(anchor)
+      : startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  const last =
+    mode === CalendarMode.WEEK
+      ? addDays(first, 6)
+      : addDays(
+          startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)),
+          6
+        );
+
+  const days: Date[] = [];
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+/**
+ * Moves the calendar by whole months or weeks
+ * @param anchor - The day the calendar shows now
+ * @param mode - Month or week
+ * @param step - How many months or weeks to move (negative to go back)
+ * @returns A day of the new month or week
+ */
+export const shiftAnchor = (
+  anchor: Date,
+  mode: CalendarMode,
+  step: number
+): Date =>
+  mode === CalendarMode.WEEK
+    ? addDays(anchor, step * 7)
+    : new Date(anchor.getFullYear(), anchor.getMonth() + step, 1);
+
+/**
+ * Key of a day, as used by getTasksByDay ("2026-03-05")
+ */
+export const dayKey = (date: Date): string => toDateInputValue(date);
+
+/**
+ * Groups the tasks of a board by the day they are due
+ * @param board - The board; pass a filtered board to show only matching tasks
+ * @returns Tasks by day key (see dayKey), in column order; tasks without a
+ * due date are left out
+ */
+export const getTasksByDay = (board: Board): Map<string, Task[]> => {
+  const tasksByDay = new Map<string, Task[]>();
+  board.columns.forEach((column) =>
+    column.tasks.forEach((task) => {
+      if (!task.dueDate) return;
+      const key = dayKey(task.dueDate);
+      const dayTasks = tasksByDay.get(key);
+      if (dayTasks) dayTasks.push(task);
+      else tasksByDay.set(key, [task]);
+    })
+  );
+  return tasksByDay;
+};
+
+/**
+ * Lists the tasks of a board that have no due date
+ */
+export const getUnscheduledTasks = (board: Board): Task[] =>
+  board.columns.flatMap((column) =>
+    column.tasks.filter((task) => !task.dueDate)
+  );
+
+/**
+ * Moves a due date to another day
+ * @param dueDate - The current due date, if any
+ * @param day - The new day
+ * @returns The new due date, keeping the time of day of the old one
+ */
+export const moveToDay = (dueDate: Date | undefined, day: Date): Date => {
+  const date = startOfDay(day);
+  if (dueDate) {
+    date.setHours(
+      dueDate.getHours(),
+      dueDate.getMinutes(),
+      dueDate.getSeconds(),
+      dueDate.getMilliseconds()
+    );
+  }
+  return date;
+};
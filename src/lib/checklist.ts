@@ -0,0 +1,49 @@
+/**
+ * Checklist helpers
+ *
+ * A task's checklist is an ordered list of steps. Boards can require every
+ * step to be checked before the task may enter a "done" column.
+ */
+
+import { ColumnCategory } from "../types";
+import type { Board, ChecklistItem, Task, TaskStatus } from "../types";
+
+/**
+ * Counts the checked items of a checklist
+ * @param checklist - The items to count
+ * @returns How many items are done, and how many there are
+ */
+export const checklistProgress = (
+  checklist: ChecklistItem[]
+): { done: number; total: number } => ({
+  done: checklist.filter((item) => item.done).length,
+  total: checklist.length,
+});
+
+/**
+ * Checks whether a checklist still has unchecked items
+ */
+export const hasOpenItems = (checklist: ChecklistItem[]): boolean =>
+  checklist.some((item) => !item.done);
+
+/**
+ * Decides whether a board's settings keep a task out of a column
+ * @param board - The board the task belongs to
+ * @param task - The task being moved (with its new checklist, if edited)
+ * @param targetStatus - ID of the column the task should go to
+ * @returns True if the column is "done", the board requires finished
+ * checklists there and the task has open items. Tasks already in that column
+ * are never blocked, so unchecking an item doesn't push a task back out.
+ */
+export const isBlockedFromColumn = (
+  board: Board,
+  task: Pick<Task, "status" | "checklist">,
+  targetStatus: TaskStatus
+): boolean =>
+  board.settings.blockDoneWithOpenChecklist &&
+  task.status !== targetStatus &&
+  board.columns.some(
+    (column) =>
+      column.id === targetStatus && column.category === ColumnCategory.DONE
+  ) &&
+  hasOpenItems(task.checklist);
@@ -0,0 +1,83 @@
+/**
+ * Color helpers
+ *
+ * Maps the named accent colors stored in board data, and task priorities,
+ * to Tailwind classes.
+ * Class names are spelled out in full so Tailwind can find them at build time.
+ */
+import { ColumnColor } from "@/types";
+
+/**
+ * Tailwind classes for each accent color
+ * - `dot`: small solid swatch (color pickers, column header marker)
+ * - `border`: top border used to accent column headers
+ * - `chip`: soft background and text for small pills (task labels)
+ */
+export const accentColorClasses: Record<
+  ColumnColor,
+  { dot: string; border: string; chip: string }
+> = {
+  [ColumnColor.GRAY]: {
+    dot: "bg-gray-400",
+    border: "border-t-gray-400",
+    chip: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+  },
+  [ColumnColor.BLUE]: {
+    dot: "bg-blue-500",
+    border: "border-t-blue-500",
+    chip: "bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300",
+  },
+  [ColumnColor.GREEN]: {
+    dot: "bg-green-500",
+    border: "border-t-green-500",
+    chip: "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300",
+  },
+  [ColumnColor.YELLOW]: {
+    dot: "bg-yellow-400",
+    border: "border-t-yellow-400",
+    chip: "bg-yellow-100 text-yellow-800 dark:bg-yellow-950 dark:text-yellow-300",
+  },
+  [ColumnColor.ORANGE]: {
+    dot: "bg-orange-500",
+    border: "border-t-orange-500",
+    chip: "bg-orange-100 text-orange-700 dark:bg-orange-950 dark:text-orange-300",
+  },
+  [ColumnColor.RED]: {
+    dot: "bg-red-500",
+    border: "border-t-red-500",
+    chip: "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300",
+  },
+  [ColumnColor.PURPLE]: {
+    dot: "bg-purple-500",
+    border: "border-t-purple-500",
+    chip: "bg-purple-100 text-purple-700 dark:bg-purple-950 dark:text-purple-300",
+  },
+  [ColumnColor.PINK]: {
+    dot: "bg-pink-500",
+    border: "border-t-pink-500",
+    chip: "bg-pink-100 text-pink-700 dark:bg-pink-950 dark:text-pink-300",
+  },
+};
+
+/**
+ * All accent colors in display order (for color pickers)
+ */
+export const accentColors = Object.values(ColumnColor);
+
+/**
+ * Returns appropriate CSS classes for priority badges
+ * @param priority The task priority level
+ * @returns CSS class string for styling the priority badge
+ */
+export const getPriorityBadge = (priority: string) => {
+  switch (priority) {
+    case "high":
+      return "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-400";
+    case "medium":
+      return "bg-yellow-100 text-yellow-700 dark:bg-yellow-950 dark:text-yellow-400";
+    case "low":
+      return "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-400";
+    default:
+      return "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400";
+  }
+};
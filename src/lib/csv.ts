@@ -0,0 +1,72 @@
+/**
+ * CSV helpers
+ *
+ * Reads and writes comma-separated values as described in RFC 4180: fields
+ * with commas, quotes or line breaks are quoted, and quotes inside them are
+ * doubled.
+ */
+
+/** Byte order mark; lets spreadsheet apps detect UTF-8 */
+const BOM = "\uFEFF";
+
+/**
+ * Quotes a field if it needs it
+ */
+const escapeField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Writes rows as CSV
+ * @param rows - Rows of fields; the first row is usually the header
+ * @returns CSV text with CRLF line endings, starting with a byte order mark
+ */
+export const toCsv = (rows: string[][]): string =>
+  BOM + rows.map((row) => row.map(escapeField).join(",")).join("\r\n");
+
+/**
+ * Reads CSV text into rows
+ * @param text - CSV content (with or without a byte order mark)
+ * @returns Rows of fields; blank lines are left out
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.startsWith(BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    // A line without any content is not a row
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      // CRLF counts as one line break
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+};
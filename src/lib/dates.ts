@@ -0,0 +1,127 @@
+/**
+ * Date helpers
+ *
+ * Shared by persistence (reviving dates from JSON) and anything else that
+ * receives dates from outside the app.
+ */
+
+/** Milliseconds in a day */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts a stored value into a valid Date
+ * @param value - A Date, ISO string or epoch milliseconds
+ * @returns The Date, or undefined if the value isn't a usable date
+ */
+export const parseDate = (value: unknown): Date | undefined => {
+  if (
+    !(value instanceof Date) &&
+    typeof value !== "string" &&
+    typeof value !== "number"
+  ) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Gets midnight at the start of a day
+ * @param date - Any time on that day
+ * @returns A new Date at 00:00 local time
+ */
+export const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Gets the last millisecond of a day
+ * @param date - Any time on that day
+ * @returns A new Date at 23:59:59.999 local time
+ */
+export const endOfDay = (date: Date): Date =>
+  new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    23,
+    59,
+    59,
+    999
+  );
+
+/**
+ * Moves a date by whole days, keeping the local time of day
+ * @param date - The starting date
+ * @param days - Days to add (negative to go back)
+ * @returns A new Date
+ */
+export const addDays = (date: Date, days: number): Date =>
+  new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() + days,
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+
+/**
+ * Gets the Monday that starts the week of a date
+ * @param date - Any time in that week
+ * @returns Midnight of that week's Monday
+ */
+export const startOfWeek = (date: Date): Date => {
+  const day = startOfDay(date);
+  // getDay() counts from Sunday (0); weeks here start on Monday
+  return addDays(day, -((day.getDay() + 6) % 7));
+};
+
+/**
+ * Formats a date as the value of an `<input type="date">`
+ * @param date - The date to format
+ * @returns A "YYYY-MM-DD" string in local time, or "" when no date is given
+ */
+export const toDateInputValue = (date: Date | undefined): string => {
+  if (!date) return "";
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Reads the value of an `<input type="date">`
+ * @param value - A "YYYY-MM-DD" string
+ * @returns Midnight of that day in local time, or undefined when empty or invalid
+ */
+export const fromDateInputValue = (value: string): Date | undefined => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  // Days that don't exist (e.g. "2024-02-31") would roll over into the next month
+  return date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+    ? date
+    : undefined;
+};
+
+/** A plain day, optionally with a time and time zone (ISO 8601) */
+const DATE_STRING_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Reads a date written as text in a file from outside the app
+ * @param value - A "YYYY-MM-DD" day or an ISO 8601 timestamp
+ * @returns The Date (plain days are midnight local time), or undefined for
+ * anything else, including days that don't exist such as "2024-02-31"
+ */
+export const parseDateString = (value: string): Date | undefined => {
+  if (
+    !DATE_STRING_PATTERN.test(value) ||
+    !fromDateInputValue(value.slice(0, 10))
+  ) {
+    return undefined;
+  }
+  return fromDateInputValue(value) ?? parseDate(value);
+};
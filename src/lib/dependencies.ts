@@ -0,0 +1,105 @@
+/**
+ * Task dependencies
+ *
+ * A task can be blocked by other tasks of its board, whose work has to be
+ * done first. Links never form a cycle. A task is in conflict when it is
+ * scheduled to start before one of its blockers can be done: on or before
+ * the blocker's due date, or on or before today while the blocker is open.
+ */
+
+import { ColumnCategory } from "../types";
+import type { Board, Task } from "../types";
+import { startOfDay } from "./dates";
+
+/**
+ * Lists the tasks that can block others: those in the columns and the archive
+ * Trashed tasks are left out until they are restored.
+ */
+const linkableTasks = (board: Board): Task[] => [
+  ...board.columns.flatMap((column) => column.tasks),
+  ...board.archive.map((item) => item.task),
+];
+
+/**
+ * Checks whether a task's work is done: it is archived or in a "done" column
+ */
+export const isTaskDone = (board: Board, taskId: string): boolean =>
+  board.archive.some((item) => item.task.id === taskId) ||
+  board.columns.some(
+    (column) =>
+      column.category === ColumnCategory.DONE &&
+      column.tasks.some((task) => task.id === taskId)
+  );
+
+/**
+ * Gets the tasks that block a task
+ * @param board - The board the task belongs to
+ * @param task - The blocked task
+ * @returns The blockers in link order; links to trashed tasks are skipped
+ */
+export const getBlockers = (board: Board, task: Task): Task[] => {
+  const tasks = linkableTasks(board);
+  return task.blockedByIds.flatMap(
+    (id) => tasks.find((candidate) => candidate.id === id) ?? []
+  );
+};
+
+/**
+ * Checks whether blocking a task by other tasks would close a cycle
+ * @param board - The board the tasks belong to
+ * @param taskId - ID of the task to be blocked
+ * @param blockerIds - IDs of the tasks that would block it
+ * @returns True if a blocker is the task itself or (through its own
+ * blockers) waits for the task
+ */
+export const wouldCreateCycle = (
+  board: Board,
+  taskId: string,
+  blockerIds: string[]
+): boolean => {
+  const blockedBy = new Map(
+    linkableTasks(board).map((task) => [task.id, task.blockedByIds])
+  );
+  const visited = new Set<string>();
+  const pending = [...blockerIds];
+  while (pending.length > 0) {
+    const id = pending.pop() as string;
+    if (id === taskId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    pending.push(...(blockedBy.get(id) ?? []));
+  }
+  return false;
+};
+
+/**
+ * Finds the tasks that are scheduled before the work blocking them is done
+ * @param board - The board; pass the whole board so every blocker is known
+ * @param now - Today, the earliest an open blocker can be done
+ * @returns For each task in conflict (by ID), the blockers it starts too early for
+ */
+export const getScheduleConflicts = (
+  board: Board,
+  now: Date = new Date()
+): Map<string, Task[]> => {
+  const today = startOfDay(now).getTime();
+  const conflicts = new Map<string, Task[]>();
+
+  board.columns.forEach((column) =>
+    column.tasks.forEach((task) => {
+      const start = task.startDate ?? task.dueDate;
+      if (!start || column.category === ColumnCategory.DONE) return;
+
+      const earlyFor = getBlockers(board, task).filter((blocker) => {
+        if (isTaskDone(board, blocker.id)) return false;
+        const blockerEnd = Math.max(
+          blocker.dueDate ? startOfDay(blocker.dueDate).getTime() : today,
+          today
+        );
+        return startOfDay(start).getTime() <= blockerEnd;
+      });
+      if (earlyFor.length > 0) conflicts.set(task.id, earlyFor);
+    })
+  );
+  return conflicts;
+};
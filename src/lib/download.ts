@@ -0,0 +1,26 @@
+/**
+ * Download helpers
+ *
+ * Saves generated content (exports, backups) as a file in the browser.
+ */
+
+/**
+ * Triggers a browser download of text content
+ * @param filename - Suggested file name (e.g. "board.json")
+ * @param content - File contents
+ * @param mimeType - MIME type of the content
+ */
+export const downloadFile = (
+  filename: string,
+  content: string,
+  mimeType: string
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,161 @@
+/**
+ * Helpers for reading boards exported from other tools
+ *
+ * Export files of other tools are read defensively: every field may be
+ * missing or of another type, and whatever can't be mapped to a task field
+ * is kept as notes at the end of the task description.
+ */
+
+import { ColumnCategory, ColumnColor } from "../types";
+import type { ChecklistItem } from "../types";
+import { v4 as uuidv4 } from "uuid";
+import { parseDateString } from "./dates";
+
+/**
+ * Reads a value as an object (anything else gives an empty one)
+ */
+export const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+
+/**
+ * Reads a value as a list (anything else gives an empty one)
+ */
+export const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : [];
+
+/**
+ * Reads a value as text; numbers are written out, anything else gives ""
+ */
+export const asText = (value: unknown): string => {
+  if (typeof value === "string") return value.trim();
+  return typeof value === "number" ? String(value) : "";
+};
+
+/**
+ * Reads an ISO timestamp or a plain date ("2026-03-01", taken as a local day)
+ * @returns The date, or undefined if the value is not a date string or names
+ * a day that doesn't exist
+ */
+export const asDate = (value: unknown): Date | undefined =>
+  typeof value === "string" ? parseDateString(value) : undefined;
+
+/** Words in a column title that tell its workflow stage, checked in order */
+const categoryWords: Array<[RegExp, ColumnCategory]> = [
+  [
+    /\b(done|complete[d]?|closed|finished|shipped|released)\b/i,
+    ColumnCategory.DONE,
+  ],
+  [
+    /\b(progress|doing|review|testing|wip|started)\b/i,
+    ColumnCategory.IN_PROGRESS,
+  ],
+  [/\b(backlog|icebox|ideas?|later|someday)\b/i, ColumnCategory.BACKLOG],
+];
+
+/** Column colors by stage, matching those of a new board */
+const categoryColors: Record<ColumnCategory, ColumnColor> = {
+  [ColumnCategory.BACKLOG]: ColumnColor.GRAY,
+  [ColumnCategory.TODO]: ColumnColor.GRAY,
+  [ColumnCategory.IN_PROGRESS]: ColumnColor.BLUE,
+  [ColumnCategory.DONE]: ColumnColor.GREEN,
+};
+
+/**
+ * Guesses the workflow stage and color of a column from its title
+ * @param title - Column title, e.g. "Doing"
+ * @returns The category (TODO when nothing matches) and its color
+ */
+export const columnStyle = (
+  title: string
+): { category: ColumnCategory; color: ColumnColor } => {
+  const category =
+    categoryWords.find(([pattern]) => pattern.test(title))?.[1] ??
+    ColumnCategory.TODO;
+  return { category, color: categoryColors[category] };
+};
+
+/** Hue where each color starts (degrees), in increasing order */
+const hueColors: Array<[number, ColumnColor]> = [
+  [0, ColumnColor.RED],
+  [15, ColumnColor.ORANGE],
+  [45, ColumnColor.YELLOW],
+  [70, ColumnColor.GREEN],
+  [170, ColumnColor.BLUE],
+  [255, ColumnColor.PURPLE],
+  [315, ColumnColor.PINK],
+  [345, ColumnColor.RED],
+];
+
+/**
+ * Picks the accent color closest to a hex color
+ * @param hex - A color such as "d73a4a" or "#d73a4a"
+ * @returns The color by hue; grayish or invalid colors give gray
+ */
+export const colorFromHex = (hex: string): ColumnColor => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return ColumnColor.GRAY;
+  const value = parseInt(match[1], 16);
+  const [r, g, b] = [value >> 16, (value >> 8) & 0xff, value & 0xff].map(
+    (channel) => channel / 255
+  );
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const chroma = max - min;
+  if (chroma < 0.15) return ColumnColor.GRAY;
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / chroma + 6) % 6;
+  else if (max === g) hue = (b - r) / chroma + 2;
+  else hue = (r - g) / chroma + 4;
+  hue *= 60;
+  const starts = hueColors.filter(([start]) => hue >= start);
+  return starts[starts.length - 1][1];
+};
+
+/** A task list item in Markdown, e.g. "- [x] Write docs" */
+const TASK_LIST_ITEM = /^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/;
+
+/**
+ * Takes the task list items out of a Markdown text
+ * @param markdown - Text such as a GitHub issue body
+ * @returns The text without the items, and the items as a checklist
+ */
+export const splitTaskList = (
+  markdown: string
+): { text: string; checklist: ChecklistItem[] } => {
+  const checklist: ChecklistItem[] = [];
+  const lines = markdown.split(/\r?\n/).filter((line) => {
+    const match = TASK_LIST_ITEM.exec(line);
+    if (!match || !match[2].trim()) return true;
+    checklist.push({
+      id: uuidv4(),
+      text: match[2].trim(),
+      done: match[1] !== " ",
+    });
+    return false;
+  });
+  return { text: lines.join("\n").trim(), checklist };
+};
+
+/**
+ * Adds notes about fields that have no place in a task to its description
+ * @param description - The task description, if any
+ * @param source - Name of the tool the task comes from, e.g. "Trello"
+ * @param notes - One line per field, e.g. "Start: 2026-03-01"
+ * @returns The description, followed by the notes under a heading
+ */
+export const withNotes = (
+  description: string,
+  source: string,
+  notes: string[]
+): string | undefined => {
+  const text = description.trim();
+  if (notes.length === 0) return text || undefined;
+  const section = [
+    `Imported from ${source}:`,
+    ...notes.map((note) => `- ${note}`),
+  ].join("\n");
+  return text ? `${text}\n\n---\n${section}` : section;
+};
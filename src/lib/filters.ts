@@ -0,0 +1,147 @@
+/**
+ * Task filter evaluation
+ *
+ * `TaskFilters` (see types) describes every filter in one object; this module
+ * decides whether a task passes it. Values within one field are alternatives
+ * (high OR medium), while the fields themselves must all match.
+ */
+
+import { AssigneeFilter, ColumnCategory, DuePreset } from "../types";
+import type { Column, DateRange, Task, TaskFilters } from "../types";
+import { addDays, endOfDay, startOfDay, startOfWeek } from "./dates";
+import { matchesSearch } from "./search";
+
+/** Filters with nothing switched on */
+export const EMPTY_FILTERS: TaskFilters = {
+  statuses: [],
+  priorities: [],
+  labelIds: [],
+  assignees: [],
+  due: [],
+  created: {},
+  updated: {},
+  search: "",
+};
+
+/**
+ * Checks whether any filter is switched on
+ * @param filters - The filters to check
+ * @returns True if at least one field narrows the board down
+ */
+export const hasActiveFilters = (filters: TaskFilters): boolean =>
+  filters.statuses.length > 0 ||
+  filters.priorities.length > 0 ||
+  filters.labelIds.length > 0 ||
+  filters.assignees.length > 0 ||
+  filters.due.length > 0 ||
+  Boolean(filters.created.from || filters.created.to) ||
+  Boolean(filters.updated.from || filters.updated.to) ||
+  filters.search.trim() !== "";
+
+/**
+ * Checks a date against an inclusive range of days
+ * @param date - The date to check (may be missing)
+ * @param range - The range; open ends are unbounded
+ * @returns True if the range is empty or the date falls within it
+ */
+const isInRange = (date: Date | undefined, range: DateRange): boolean => {
+  if (!range.from && !range.to) return true;
+  if (!date) return false;
+  if (range.from && date < startOfDay(range.from)) return false;
+  if (range.to && date > endOfDay(range.to)) return false;
+  return true;
+};
+
+/**
+ * Checks a task against one due-date preset
+ * @param task - The task to check
+ * @param preset - The preset
+ * @param isDone - Whether the task sits in a "done" column (done work is never overdue)
+ * @param now - Reference time
+ */
+const matchesDuePreset = (
+  task: Task,
+  preset: DuePreset,
+  isDone: boolean,
+  now: Date
+): boolean => {
+  const { dueDate } = task;
+  switch (preset) {
+    case DuePreset.NONE:
+      return !dueDate;
+    case DuePreset.OVERDUE:
+      return dueDate !== undefined && !isDone && dueDate < startOfDay(now);
+    case DuePreset.TODAY:
+      return isInRange(dueDate, { from: now, to: now });
+    case DuePreset.THIS_WEEK:
+      return isInRange(dueDate, {
+        from: startOfWeek(now),
+        to: addDays(startOfWeek(now), 6),
+      });
+    default:
+      return false;
+  }
+};
+
+/**
+ * Checks a task against one assignee filter value
+ * @param task - The task to check
+ * @param assignee - A member ID or an AssigneeFilter value
+ * @param currentMemberId - Member set as the current user, if any
+ */
+const matchesAssignee = (
+  task: Task,
+  assignee: string,
+  currentMemberId: string | undefined
+): boolean => {
+  switch (assignee) {
+    case AssigneeFilter.UNASSIGNED:
+      return task.assigneeIds.length === 0;
+    case AssigneeFilter.ME:
+      // Nobody is "me" until a current user has been picked
+      return (
+        currentMemberId !== undefined &&
+        task.assigneeIds.includes(currentMemberId)
+      );
+    default:
+      return task.assigneeIds.includes(assignee);
+  }
+};
+
+/**
+ * Decides whether a task passes the filters
+ * @param task - The task to check
+ * @param column - The column the task is in
+ * @param filters - The active filters
+ * @param now - Reference time for the due-date presets (defaults to the current time)
+ * @param currentMemberId - Member the "assigned to me" filter stands for
+ * @returns True if the task should be shown
+ */
+export const matchesFilters = (
+  task: Task,
+  column: Column,
+  filters: TaskFilters,
+  now = new Date(),
+  currentMemberId?: string
+): boolean => {
+  const isDone = column.category === ColumnCategory.DONE;
+  return (
+    (filters.statuses.length === 0 || filters.statuses.includes(task.status)) &&
+    (filters.priorities.length === 0 ||
+      filters.priorities.includes(task.priority)) &&
+    (filters.labelIds.length === 0 ||
+      filters.labelIds.some((labelId) => task.labelIds.includes(labelId))) &&
+    (filters.assignees.length === 0 ||
+      filters.assignees.some((assignee) =>
+        matchesAssignee(task, assignee, currentMemberId)
+      )) &&
+    (filters.due.length === 0 ||
+      filters.due.some((preset) =>
+        matchesDuePreset(task, preset, isDone, now)
+      )) &&
+    isInRange(task.createdAt, filters.created) &&
+    // Tasks that were never edited were last updated when created
+    isInRange(task.updatedAt ?? task.createdAt, filters.updated) &&
+    matchesSearch(task, filters.search)
+  );
+};
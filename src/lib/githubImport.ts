@@ -0,0 +1,290 @@
+/**
+ * GitHub import
+ *
+ * Reads two kinds of GitHub JSON dumps:
+ * - a list of issues, as written by `gh issue list --json ...` or the REST
+ *   API; open and closed issues go to an "Open" and a "Closed" column
+ * - the items of a project, as written by `gh project item-list --format
+ *   json`; each Status value becomes a column
+ *
+ * Issue labels become labels, assignees become members and task list items
+ * in the issue body ("- [ ] ...") become the checklist. A project field
+ * named like a due date or a priority fills that task field. Milestones,
+ * comments, links and other project fields are kept in the description.
+ */
+
+import { ColumnCategory, ColumnColor, TaskPriority } from "../types";
+import type { ExternalBoard, TaskDraft } from "../types";
+import {
+  asArray,
+  asDate,
+  asRecord,
+  asText,
+  colorFromHex,
+  columnStyle,
+  splitTaskList,
+  withNotes,
+} from "./externalBoard";
+import { toDateInputValue } from "./dates";
+
+const SOURCE = "GitHub";
+
+/** Column for project items without a status, like GitHub's own */
+const NO_STATUS = "No Status";
+
+/** Fields of project items that are read into task fields or skipped */
+const PROJECT_ITEM_FIELDS = [
+  "id",
+  "title",
+  "content",
+  "status",
+  "labels",
+  "assignees",
+  "repository",
+  "milestone",
+];
+
+/** Project fields whose value is the due date */
+const DUE_FIELD = /\b(due|deadline|end date|target date)\b/i;
+
+/** Project field whose value is the priority */
+const PRIORITY_FIELD = /^priority$/i;
+
+/** Priority values and what they mean, checked in order */
+const priorityWords: Array<[RegExp, TaskPriority]> = [
+  [/\b(urgent|critical|high|p0|p1)\b/i, TaskPriority.HIGH],
+  [/\b(low|p3|p4|minor)\b/i, TaskPriority.LOW],
+  [/\b(medium|normal|p2)\b/i, TaskPriority.MEDIUM],
+];
+
+/** Order of columns made from project statuses */
+const categoryOrder = [
+  ColumnCategory.BACKLOG,
+  ColumnCategory.TODO,
+  ColumnCategory.IN_PROGRESS,
+  ColumnCategory.DONE,
+];
+
+type GitHubRecord = Record<string, unknown>;
+
+/**
+ * Tells whether parsed JSON looks like a GitHub issue list or project item list
+ */
+export const isGitHubExport = (data: unknown): boolean => {
+  if (Array.isArray(data)) {
+    return (
+      data.length > 0 &&
+      data.every((item) => {
+        const issue = asRecord(item);
+        return typeof issue.number === "number" && "title" in issue;
+      })
+    );
+  }
+  return Array.isArray(asRecord(data).items);
+};
+
+/**
+ * Reads a list of names that may be plain strings or objects
+ * (e.g. labels as "bug" or { name: "bug" }, assignees as { login, name })
+ */
+const readNames = (value: unknown, ...fields: string[]): string[] =>
+  asArray(value)
+    .map((item) =>
+      typeof item === "string"
+        ? item
+        : (fields.map((field) => asText(asRecord(item)[field])).find(Boolean) ??
+          "")
+    )
+    .filter(Boolean);
+
+/**
+ * Reads a project field value, which may be text, a number or an object
+ * such as an iteration ({ title, startDate, duration })
+ */
+const readFieldValue = (value: unknown): string =>
+  asText(value) ||
+  asText(asRecord(value).title) ||
+  asText(asRecord(value).name) ||
+  (typeof value === "boolean" ? String(value) : "");
+
+/**
+ * Builds a task from an issue (or the content of a project item)
+ * @param issue - The issue fields
+ * @param labelColors - Colors of the labels seen so far, by name; the
+ * issue's labels are added
+ * @param extra - Fields from the project item, which take precedence
+ */
+const readIssue = (
+  issue: GitHubRecord,
+  labelColors: Map<string, ColumnColor>,
+  extra: Partial<Omit<TaskDraft, "status">> & { notes?: string[] } = {}
+): Omit<TaskDraft, "status"> => {
+  const { text, checklist } = splitTaskList(asText(issue.body));
+
+  asArray(issue.labels).forEach((label) => {
+    const record = asRecord(label);
+    const name = typeof label === "string" ? label : asText(record.name);
+    if (name && !labelColors.has(name)) {
+      labelColors.set(name, colorFromHex(asText(record.color)));
+    }
+  });
+
+  const notes = [...(extra.notes ?? [])];
+  const number = asText(issue.number);
+  const milestone = asRecord(issue.milestone);
+  if (asText(milestone.title)) {
+    notes.push(`Milestone: ${asText(milestone.title)}`);
+  }
+  const comments = asArray(issue.comments);
+  comments.map(asRecord).forEach((comment) => {
+    const author =
+      asText(asRecord(comment.author).login) ||
+      asText(asRecord(comment.user).login);
+    const date = asDate(comment.createdAt ?? comment.created_at);
+    notes.push(
+      `Comment by ${[author, date && toDateInputValue(date)]
+        .filter(Boolean)
+        .join(", ")}: ${asText(comment.body)}`
+    );
+  });
+  const url = asText(issue.url).includes("://api.")
+    ? asText(issue.html_url)
+    : asText(issue.url) || asText(issue.html_url);
+  if (url) notes.push(`${number ? `#${number}` : "Link"}: ${url}`);
+
+  return {
+    title: asText(issue.title),
+    description: withNotes(text, SOURCE, notes),
+    priority: extra.priority ?? TaskPriority.MEDIUM,
+    dueDate:
+      extra.dueDate ?? asDate(milestone.dueOn) ?? asDate(milestone.due_on),
+    labelNames: extra.labelNames ?? readNames(issue.labels, "name"),
+    assigneeNames:
+      extra.assigneeNames ?? readNames(issue.assignees, "name", "login"),
+    checklist,
+  };
+};
+
+/**
+ * Reads a list of issues into an "Open" and a "Closed" column
+ */
+const readIssueList = (issues: GitHubRecord[]): ExternalBoard => {
+  const labelColors = new Map<string, ColumnColor>();
+  const tasksByState = { open: [], closed: [] } as Record<
+    "open" | "closed",
+    Array<Omit<TaskDraft, "status">>
+  >;
+  issues
+    // The REST API lists pull requests among the issues
+    .filter((issue) => !issue.pull_request && asText(issue.title))
+    .forEach((issue) => {
+      const state =
+        asText(issue.state).toLowerCase() === "closed" ? "closed" : "open";
+      tasksByState[state].push(readIssue(issue, labelColors));
+    });
+
+  // Issue URLs tell the repository, e.g. https://github.com/owner/repo/issues/1
+  const repository = /github\.com\/([^/]+\/[^/]+)\//.exec(
+    asText(issues[0]?.url) || asText(issues[0]?.html_url)
+  )?.[1];
+  return {
+    title: repository ? `${repository} issues` : "GitHub issues",
+    labels: [...labelColors].map(([name, color]) => ({ name, color })),
+    columns: [
+      { title: "Open", ...columnStyle("Open"), tasks: tasksByState.open },
+      { title: "Closed", ...columnStyle("Closed"), tasks: tasksByState.closed },
+    ],
+  };
+};
+
+/**
+ * Reads project items into one column per status
+ */
+const readProjectItems = (items: GitHubRecord[]): ExternalBoard => {
+  const labelColors = new Map<string, ColumnColor>();
+  const columns = new Map<string, ExternalBoard["columns"][number]>();
+
+  items.forEach((item) => {
+    const content = asRecord(item.content);
+    const notes: string[] = [];
+    let dueDate: Date | undefined;
+    let priority: TaskPriority | undefined;
+
+    // Custom project fields are keyed by their lowercased name
+    Object.entries(item)
+      .filter(([field]) => !PROJECT_ITEM_FIELDS.includes(field))
+      .forEach(([field, value]) => {
+        const text = readFieldValue(value);
+        if (!text) return;
+        if (!dueDate && DUE_FIELD.test(field) && asDate(text)) {
+          dueDate = asDate(text);
+        } else if (!priority && PRIORITY_FIELD.test(field)) {
+          priority = priorityWords.find(([pattern]) => pattern.test(text))?.[1];
+          if (!priority) notes.push(`${field}: ${text}`);
+        } else {
+          notes.push(`${field}: ${text}`);
+        }
+      });
+    if (asText(content.type) === "DraftIssue") notes.push("Draft issue");
+
+    const task = readIssue(
+      {
+        ...content,
+        title: asText(item.title) || asText(content.title),
+        milestone: content.milestone ?? item.milestone,
+      },
+      labelColors,
+      {
+        notes,
+        dueDate,
+        priority,
+        labelNames:
+          "labels" in item ? readNames(item.labels, "name") : undefined,
+        assigneeNames:
+          "assignees" in item
+            ? readNames(item.assignees, "name", "login")
+            : undefined,
+      }
+    );
+    if (!task.title) return;
+
+    const status = asText(item.status) || NO_STATUS;
+    const column = columns.get(status) ?? {
+      title: status,
+      ...columnStyle(status),
+      tasks: [],
+    };
+    column.tasks.push(task);
+    columns.set(status, column);
+  });
+
+  // Project item lists don't carry label colors, unlike the issue contents
+  items.forEach((item) =>
+    readNames(item.labels, "name").forEach((name) => {
+      if (!labelColors.has(name)) labelColors.set(name, ColumnColor.GRAY);
+    })
+  );
+
+  const sortedColumns = [...columns.values()].sort(
+    (a, b) =>
+      categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category)
+  );
+  return {
+    title: "GitHub project",
+    labels: [...labelColors].map(([name, color]) => ({ name, color })),
+    columns:
+      sortedColumns.length > 0
+        ? sortedColumns
+        : [{ title: NO_STATUS, ...columnStyle(NO_STATUS), tasks: [] }],
+  };
+};
+
+/**
+ * Reads a GitHub issue list or project item list
+ * @param data - The parsed JSON file (see isGitHubExport)
+ * @returns The board to create
+ */
+export const readGitHubExport = (data: unknown): ExternalBoard =>
+  Array.isArray(data)
+    ? readIssueList(data.map(asRecord))
+    : readProjectItems(asArray(asRecord(data).items).map(asRecord));
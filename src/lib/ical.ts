@@ -0,0 +1,184 @@
+/**
+ * iCalendar export
+ *
+ * Writes the tasks of a board that have a due date as an iCalendar file
+ * (RFC 5545), so deadlines show up in calendar apps. Each task becomes a
+ * to-do (VTODO) due that day or an all-day event (VEVENT) on that day, with
+ * its key and title as summary and its column category as status.
+ */
+
+import { ColumnCategory, TaskPriority } from "../types";
+import type { Board, Column, Task } from "../types";
+import { addDays, startOfDay } from "./dates";
+
+/**
+ * Calendar component each task is written as
+ */
+export const CalendarComponent = {
+  EVENT: "VEVENT",
+  TODO: "VTODO",
+} as const;
+
+export type CalendarComponent =
+  (typeof CalendarComponent)[keyof typeof CalendarComponent];
+
+/** Identifies the app that wrote the file */
+const PRODUCT_ID = "-//Mini Kanban Board//Tasks//EN";
+
+/** Domain part of task UIDs, so they stay unique across calendars */
+const UID_DOMAIN = "mini-kanban-board";
+
+/** Longest line allowed, in bytes, before it is folded */
+const MAX_LINE_BYTES = 75;
+
+/** Calendar status of a task, by column category and component */
+const statuses: Record<ColumnCategory, Record<CalendarComponent, string>> = {
+  [ColumnCategory.BACKLOG]: { VTODO: "NEEDS-ACTION", VEVENT: "TENTATIVE" },
+  [ColumnCategory.TODO]: { VTODO: "NEEDS-ACTION", VEVENT: "TENTATIVE" },
+  [ColumnCategory.IN_PROGRESS]: { VTODO: "IN-PROCESS", VEVENT: "CONFIRMED" },
+  [ColumnCategory.DONE]: { VTODO: "COMPLETED", VEVENT: "CONFIRMED" },
+};
+
+/** Calendar priority (1 = highest, 9 = lowest) */
+const priorities: Record<TaskPriority, number> = {
+  [TaskPriority.HIGH]: 1,
+  [TaskPriority.MEDIUM]: 5,
+  [TaskPriority.LOW]: 9,
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Formats a day as a DATE value ("20260305"), in local time
+ */
+const formatDate = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+/**
+ * Formats a moment as a UTC DATE-TIME value ("20260305T143000Z")
+ */
+const formatDateTime = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/**
+ * Escapes text for a TEXT property value
+ */
+const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Folds a content line so no line is longer than 75 bytes
+ * Continuation lines start with a space; characters are never split.
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines lose one byte to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_BYTES : MAX_LINE_BYTES - 1;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+/**
+ * Writes the lines of one task
+ */
+const taskLines = (
+  task: Task & { dueDate: Date },
+  column: Column,
+  board: Board,
+  component: CalendarComponent,
+  now: Date
+): string[] => {
+  // Due dates picked in the app are whole days; others keep their time
+  const isWholeDay =
+    task.dueDate.getTime() === startOfDay(task.dueDate).getTime();
+  const due = isWholeDay
+    ? `;VALUE=DATE:${formatDate(task.dueDate)}`
+    : `:${formatDateTime(task.dueDate)}`;
+  // All-day events end the next day; others are a moment
+  const eventEnd = isWholeDay
+    ? `;VALUE=DATE:${formatDate(addDays(task.dueDate, 1))}`
+    : due;
+  const labelNames = board.labels
+    .filter((label) => task.labelIds.includes(label.id))
+    .map((label) => escapeText(label.name));
+
+  return [
+    `BEGIN:${component}`,
+    `UID:${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `CREATED:${formatDateTime(task.createdAt)}`,
+    ...(task.updatedAt
+      ? [`LAST-MODIFIED:${formatDateTime(task.updatedAt)}`]
+      : []),
+    ...(component === CalendarComponent.TODO
+      ? [`DUE${due}`]
+      : [`DTSTART${due}`, `DTEND${eventEnd}`]),
+    `SUMMARY:${escapeText(`${task.key} ${task.title}`)}`,
+    ...(task.description
+      ? [`DESCRIPTION:${escapeText(task.description)}`]
+      : []),
+    `STATUS:${statuses[column.category][component]}`,
+    `PRIORITY:${priorities[task.priority]}`,
+    ...(labelNames.length > 0 ? [`CATEGORIES:${labelNames.join(",")}`] : []),
+    `END:${component}`,
+  ];
+};
+
+/**
+ * Counts the tasks of a board that have a due date
+ */
+export const countDatedTasks = (board: Board): number =>
+  board.columns.reduce(
+    (total, column) =>
+      total + column.tasks.filter((task) => task.dueDate).length,
+    0
+  );
+
+/**
+ * Writes the tasks of a board that have a due date as an iCalendar file
+ * @param board - The board; pass a filtered board to export only the shown tasks
+ * @param component - Whether tasks become to-dos or all-day events
+ * @param now - Time the file is written, recorded in every entry
+ * @returns The file content, with CRLF line endings
+ */
+export const boardToICalendar = (
+  board: Board,
+  component: CalendarComponent,
+  now: Date = new Date()
+): string => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(board.title)}`,
+    ...board.columns.flatMap((column) =>
+      column.tasks
+        .filter((task): task is Task & { dueDate: Date } => !!task.dueDate)
+        .flatMap((task) => taskLines(task, column, board, component, now))
+    ),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
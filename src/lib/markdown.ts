@@ -0,0 +1,177 @@
+/**
+ * Markdown export
+ *
+ * Writes a board as a Markdown status report: a section per column with one
+ * bullet per task. A template picks the task fields shown next to the title
+ * and where the tasks of "done" columns go.
+ */
+
+import {
+  ColumnCategory,
+  DoneGrouping,
+  MarkdownField,
+  TaskPriority,
+} from "../types";
+import type { Board, MarkdownTemplate, Task } from "../types";
+import { checklistProgress } from "./checklist";
+import { toDateInputValue } from "./dates";
+
+/**
+ * Ready-made templates, offered before the fields can be picked one by one
+ */
+export const MARKDOWN_TEMPLATES: Array<{
+  name: string;
+  template: MarkdownTemplate;
+}> = [
+  {
+    name: "Status report",
+    template: {
+      fields: [
+        MarkdownField.KEY,
+        MarkdownField.PRIORITY,
+        MarkdownField.DUE_DATE,
+        MarkdownField.DESCRIPTION,
+      ],
+      doneGrouping: DoneGrouping.SECTION,
+    },
+  },
+  {
+    name: "Titles only",
+    template: { fields: [], doneGrouping: DoneGrouping.COUNT },
+  },
+  {
+    name: "Everything",
+    template: {
+      fields: Object.values(MarkdownField),
+      doneGrouping: DoneGrouping.COLUMNS,
+    },
+  },
+];
+
+/** Template of boards that have not exported Markdown yet */
+export const DEFAULT_MARKDOWN_TEMPLATE = MARKDOWN_TEMPLATES[0].template;
+
+/** Section gathering the done tasks (see DoneGrouping.SECTION and COUNT) */
+const COMPLETED_HEADING = "Completed";
+
+/** Priority display text mapping */
+const priorityNames = {
+  [TaskPriority.LOW]: "Low",
+  [TaskPriority.MEDIUM]: "Medium",
+  [TaskPriority.HIGH]: "High",
+};
+
+/**
+ * Escapes the characters that would turn text into Markdown formatting
+ */
+const escapeMarkdown = (text: string): string =>
+  text.replace(/([\\`*_[\]<>])/g, "\\$1");
+
+/**
+ * Writes one task as a bullet
+ * e.g. "- **WEB-4** Fix login (High, due 2026-03-05) — Users get logged out"
+ */
+const taskLine = (
+  task: Task,
+  board: Board,
+  template: MarkdownTemplate
+): string => {
+  const shows = (field: MarkdownField) => template.fields.includes(field);
+  const namesOf = (ids: string[], items: Array<{ id: string; name: string }>) =>
+    items
+      .filter((item) => ids.includes(item.id))
+      .map((item) => escapeMarkdown(item.name));
+
+  const details: string[] = [];
+  if (shows(MarkdownField.PRIORITY)) details.push(priorityNames[task.priority]);
+  if (shows(MarkdownField.DUE_DATE) && task.dueDate) {
+    details.push(`due ${toDateInputValue(task.dueDate)}`);
+  }
+  if (shows(MarkdownField.LABELS)) {
+    details.push(...namesOf(task.labelIds, board.labels));
+  }
+  if (shows(MarkdownField.ASSIGNEES)) {
+    details.push(
+      ...namesOf(task.assigneeIds, board.members).map((name) => `@${name}`)
+    );
+  }
+  if (shows(MarkdownField.CHECKLIST) && task.checklist.length > 0) {
+    const { done, total } = checklistProgress(task.checklist);
+    details.push(`${done}/${total} done`);
+  }
+
+  const firstLine = task.description
+    ?.split("\n")
+    .find((line) => line.trim())
+    ?.trim();
+
+  return [
+    "-",
+    shows(MarkdownField.KEY) && `**${task.key}**`,
+    escapeMarkdown(task.title),
+    details.length > 0 && `(${details.join(", ")})`,
+    shows(MarkdownField.DESCRIPTION) &&
+      firstLine &&
+      `— ${escapeMarkdown(firstLine)}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+/**
+ * Writes a section with a heading and one bullet per task
+ */
+const section = (
+  title: string,
+  tasks: Task[],
+  board: Board,
+  template: MarkdownTemplate
+): string =>
+  [
+    `## ${escapeMarkdown(title)} (${tasks.length})`,
+    "",
+    ...(tasks.length > 0
+      ? tasks.map((task) => taskLine(task, board, template))
+      : ["_No tasks_"]),
+  ].join("\n");
+
+/**
+ * Writes a board as Markdown
+ * @param board - The board; pass a filtered board to export only the shown tasks
+ * @param template - Fields to show and where done tasks go
+ * @param now - Date written under the board title
+ * @returns The Markdown text
+ */
+export const boardToMarkdown = (
+  board: Board,
+  template: MarkdownTemplate,
+  now: Date = new Date()
+): string => {
+  const isDone = (column: Board["columns"][number]) =>
+    column.category === ColumnCategory.DONE &&
+    template.doneGrouping !== DoneGrouping.COLUMNS;
+
+  const sections = board.columns
+    .filter((column) => !isDone(column))
+    .map((column) => section(column.title, column.tasks, board, template));
+
+  const doneTasks = board.columns
+    .filter(isDone)
+    .flatMap((column) => column.tasks);
+  if (template.doneGrouping === DoneGrouping.SECTION) {
+    sections.push(section(COMPLETED_HEADING, doneTasks, board, template));
+  } else if (template.doneGrouping === DoneGrouping.COUNT) {
+    sections.push(
+      `## ${COMPLETED_HEADING}\n\n${doneTasks.length} ${doneTasks.length === 1 ? "task" : "tasks"} done`
+    );
+  }
+
+  return [
+    `# ${escapeMarkdown(board.title)}`,
+    "",
+    `_${toDateInputValue(now)}_`,
+    "",
+    sections.join("\n\n"),
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,31 @@
+/**
+ * Member helpers
+ *
+ * Board members are shown as small round avatars with their initials.
+ */
+
+/** Most letters that fit into an avatar */
+export const MAX_INITIALS = 2;
+
+/**
+ * Cleans user input into avatar initials
+ * @param input - Raw initials typed by the user
+ * @returns Up to MAX_INITIALS uppercase letters or digits (may be empty)
+ */
+export const normalizeInitials = (input: string): string =>
+  input
+    .toUpperCase()
+    .replace(/[^\p{L}\p{N}]/gu, "")
+    .slice(0, MAX_INITIALS);
+
+/**
+ * Suggests initials for a name: the first letters of its first and last words
+ * @param name - The member's name (e.g. "Jane van Doe")
+ * @returns The suggested initials (e.g. "JD"); "?" if the name has no letters
+ */
+export const deriveInitials = (name: string): string => {
+  const words = name.split(/\s+/).map(normalizeInitials).filter(Boolean);
+  const first = words[0]?.[0] ?? "";
+  const last = words.length > 1 ? (words[words.length - 1][0] ?? "") : "";
+  return first + last || "?";
+};
@@ -0,0 +1,131 @@
+/**
+ * Schema validation
+ *
+ * A small declarative checker for data coming from outside the app (e.g.
+ * imported files). Unlike the storage validation, which quietly repairs what
+ * it can, this reports every problem with the path of the offending field so
+ * the user can fix the file.
+ */
+
+/**
+ * Describes the expected shape of a value
+ * Unknown object fields are allowed and ignored.
+ */
+export type Schema = { optional?: boolean } & (
+  | { type: "string"; nonEmpty?: boolean }
+  | { type: "number"; integer?: boolean; min?: number }
+  | { type: "boolean" }
+  // A timestamp string such as those written by `Date.prototype.toJSON`
+  | { type: "date" }
+  | { type: "enum"; values: readonly string[] }
+  | { type: "array"; items: Schema; minItems?: number }
+  | { type: "object"; fields: Record<string, Schema> }
+);
+
+/**
+ * One problem found in the data
+ */
+export interface SchemaError {
+  /** Where the problem is, e.g. "boards[0].columns[2].title" */
+  path: string;
+  message: string;
+}
+
+/** Stop collecting after this many errors; a wrong file would list thousands */
+const MAX_ERRORS = 50;
+
+const describe = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "a list";
+  return typeof value === "object" ? "an object" : JSON.stringify(value);
+};
+
+/**
+ * Checks a value against a schema
+ * @param schema - The expected shape
+ * @param value - The value to check
+ * @param path - Path of the value, used in error messages
+ * @returns Every problem found (at most MAX_ERRORS), empty if the value is valid
+ */
+export const validateSchema = (
+  schema: Schema,
+  value: unknown,
+  path = ""
+): SchemaError[] => {
+  const errors: SchemaError[] = [];
+
+  const check = (current: Schema, data: unknown, at: string): void => {
+    if (errors.length >= MAX_ERRORS) return;
+    const fail = (message: string) =>
+      errors.push({ path: at || "(file)", message });
+
+    if (data === undefined || data === null) {
+      if (!current.optional) fail("is required");
+      return;
+    }
+
+    switch (current.type) {
+      case "string":
+        if (typeof data !== "string") {
+          fail(`must be text, not ${describe(data)}`);
+        } else if (current.nonEmpty && !data.trim()) {
+          fail("must not be empty");
+        }
+        return;
+      case "number":
+        if (typeof data !== "number" || !Number.isFinite(data)) {
+          fail(`must be a number, not ${describe(data)}`);
+        } else if (current.integer && !Number.isInteger(data)) {
+          fail(`must be a whole number, not ${data}`);
+        } else if (current.min !== undefined && data < current.min) {
+          fail(`must be at least ${current.min}, not ${data}`);
+        }
+        return;
+      case "boolean":
+        if (typeof data !== "boolean") {
+          fail(`must be true or false, not ${describe(data)}`);
+        }
+        return;
+      case "date":
+        if (typeof data !== "string" || Number.isNaN(Date.parse(data))) {
+          fail(`must be a date, not ${describe(data)}`);
+        }
+        return;
+      case "enum":
+        if (typeof data !== "string" || !current.values.includes(data)) {
+          fail(
+            `must be one of ${current.values.map((v) => `"${v}"`).join(", ")}, not ${describe(data)}`
+          );
+        }
+        return;
+      case "array":
+        if (!Array.isArray(data)) {
+          fail(`must be a list, not ${describe(data)}`);
+          return;
+        }
+        if (current.minItems !== undefined && data.length < current.minItems) {
+          fail(`must have at least ${current.minItems} item(s)`);
+        }
+        data.forEach((item, index) =>
+          check(current.items, item, `${at}[${index}]`)
+        );
+        return;
+      case "object":
+        if (typeof data !== "object" || Array.isArray(data)) {
+          fail(`must be an object, not ${describe(data)}`);
+          return;
+        }
+        Object.entries(current.fields).forEach(([key, fieldSchema]) =>
+          check(
+            fieldSchema,
+            (data as Record<string, unknown>)[key],
+            at ? `${at}.${key}` : key
+          )
+        );
+        return;
+    }
+  };
+
+  check(schema, value, path);
+  return errors;
+};
@@ -0,0 +1,97 @@
+/**
+ * Search helpers
+ *
+ * Full-text matching of tasks that ignores case and accents, so "resume"
+ * finds "Résumé". The query is split into words and every word has to
+ * appear in the task's key, title or description.
+ */
+
+import type { Task } from "../types";
+
+/** A matched part of a text: [start, end) indexes into the original string */
+export type MatchRange = [start: number, end: number];
+
+/** Combining marks left behind when accented letters are decomposed */
+const COMBINING_MARKS = /\p{Mn}/gu;
+
+/**
+ * Folds a string for accent- and case-insensitive comparison
+ * @param text - Any text
+ * @returns The text without accents, in lower case
+ */
+export const foldText = (text: string): string =>
+  text.normalize("NFD").replace(COMBINING_MARKS, "").toLowerCase();
+
+/**
+ * Splits a search query into folded words
+ * @param query - Search text as typed
+ * @returns Non-empty folded words
+ */
+export const parseSearchQuery = (query: string): string[] =>
+  foldText(query).split(/\s+/).filter(Boolean);
+
+/**
+ * Checks whether a task matches a search query
+ * @param task - The task to check
+ * @param query - Search text as typed (an empty query matches everything)
+ * @returns True if every word of the query occurs in the task's key, title or description
+ */
+export const matchesSearch = (task: Task, query: string): boolean => {
+  const words = parseSearchQuery(query);
+  if (words.length === 0) return true;
+
+  const haystack = foldText(
+    [task.key, task.title, task.description ?? ""].join("\n")
+  );
+  return words.every((word) => haystack.includes(word));
+};
+
+/**
+ * Finds where the words of a query occur in a text
+ * @param text - Original text (with its accents and case)
+ * @param query - Search text as typed
+ * @returns Sorted, non-overlapping ranges into the original text
+ */
+export const findMatches = (text: string, query: string): MatchRange[] => {
+  const words = parseSearchQuery(query);
+  if (words.length === 0 || !text) return [];
+
+  // Fold character by character, remembering where each folded character
+  // came from; folding can change the length of the string
+  let folded = "";
+  const origins: number[] = [];
+  Array.from(text).reduce((offset, char) => {
+    const foldedChar = foldText(char);
+    folded += foldedChar;
+    for (let i = 0; i < foldedChar.length; i++) origins.push(offset);
+    return offset + char.length;
+  }, 0);
+  origins.push(text.length);
+
+  const ranges: MatchRange[] = [];
+  words.forEach((word) => {
+    let index = folded.indexOf(word);
+    while (index !== -1) {
+      const end = index + word.length;
+      // Extend the end to cover the whole original character
+      const originalEnd =
+        origins.slice(end).find((origin) => origin > origins[end - 1]) ??
+        text.length;
+      ranges.push([origins[index], originalEnd]);
+      index = folded.indexOf(word, end);
+    }
+  });
+
+  // Merge overlapping ranges from different words
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+};
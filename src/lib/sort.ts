@@ -0,0 +1,62 @@
+/**
+ * Task sorting
+ *
+ * Columns keep a manual order (the order of `column.tasks`); a sort shows
+ * them ordered by a task field instead without touching the stored order.
+ */
+
+import { SortField, TaskPriority } from "../types";
+import type { Task, TaskSort } from "../types";
+
+/** The stored drag-and-drop order */
+export const MANUAL_SORT: TaskSort = {
+  field: SortField.MANUAL,
+  direction: "asc",
+};
+
+/** Rank used when sorting by priority (higher is more urgent) */
+const priorityRank = {
+  [TaskPriority.LOW]: 0,
+  [TaskPriority.MEDIUM]: 1,
+  [TaskPriority.HIGH]: 2,
+};
+
+/**
+ * Compares two tasks by one field in ascending order
+ * Tasks without a due date count as due after every dated task.
+ */
+export const compareByField = (a: Task, b: Task, field: SortField): number => {
+  switch (field) {
+    case SortField.PRIORITY:
+      return priorityRank[a.priority] - priorityRank[b.priority];
+    case SortField.DUE_DATE:
+      if (!a.dueDate || !b.dueDate) {
+        return Number(!a.dueDate) - Number(!b.dueDate);
+      }
+      return a.dueDate.getTime() - b.dueDate.getTime();
+    case SortField.CREATED_AT:
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    case SortField.UPDATED_AT:
+      return (
+        (a.updatedAt ?? a.createdAt).getTime() -
+        (b.updatedAt ?? b.createdAt).getTime()
+      );
+    case SortField.TITLE:
+      return a.title.localeCompare(b.title);
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Sorts tasks for display
+ * @param tasks - Tasks in their manual order
+ * @param sort - Field and direction to sort by
+ * @returns A sorted copy; ties (and MANUAL) keep the manual order
+ */
+export const sortTasks = (tasks: Task[], sort: TaskSort): Task[] => {
+  if (sort.field === SortField.MANUAL) return tasks;
+  const sign = sort.direction === "asc" ? 1 : -1;
+  // Array.prototype.sort is stable, so equal tasks stay in manual order
+  return [...tasks].sort((a, b) => sign * compareByField(a, b, sort.field));
+};
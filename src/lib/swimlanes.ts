@@ -0,0 +1,181 @@
+/**
+ * Swimlane helpers
+ *
+ * Grouping splits the board into horizontal lanes by a task field, each lane
+ * showing every column. A task sits in the lane of each of its values, so a
+ * task with two assignees shows up in both of their lanes. Dropping a task in
+ * another lane changes that field.
+ */
+
+import { GroupField, TaskPriority } from "../types";
+import type { Board, ColumnColor, Task } from "../types";
+import { addDays, startOfDay, startOfWeek } from "./dates";
+
+/**
+ * One swimlane of a grouped board
+ */
+export interface Lane {
+  /** Field value the lane stands for (a priority, member ID, ...) */
+  key: string;
+  title: string;
+  /** Accent of the label or member the lane stands for */
+  color?: ColumnColor;
+}
+
+/** Key of the lane holding tasks without a value (no assignee, label or due date) */
+export const NO_VALUE_LANE = "none";
+
+/**
+ * Due-date lanes, in order
+ * Unlike the due-date filter presets these never overlap.
+ */
+const DueLane = {
+  OVERDUE: "overdue",
+  TODAY: "today",
+  THIS_WEEK: "this_week",
+  LATER: "later",
+  NONE: NO_VALUE_LANE,
+} as const;
+
+const dueLanes: Lane[] = [
+  { key: DueLane.OVERDUE, title: "Overdue" },
+  { key: DueLane.TODAY, title: "Due today" },
+  { key: DueLane.THIS_WEEK, title: "Later this week" },
+  { key: DueLane.LATER, title: "After this week" },
+  { key: DueLane.NONE, title: "No due date" },
+];
+
+const priorityLanes: Lane[] = [
+  { key: TaskPriority.HIGH, title: "High priority" },
+  { key: TaskPriority.MEDIUM, title: "Medium priority" },
+  { key: TaskPriority.LOW, title: "Low priority" },
+];
+
+/**
+ * Lists the lanes of a board for a grouping, in display order
+ * @param board - The board (its members and labels become lanes)
+ * @param groupBy - The field to group by
+ * @returns The lanes (none when the board isn't grouped)
+ */
+export const getLanes = (board: Board, groupBy: GroupField): Lane[] => {
+  switch (groupBy) {
+    case GroupField.PRIORITY:
+      return priorityLanes;
+    case GroupField.DUE:
+      return dueLanes;
+    case GroupField.ASSIGNEE:
+      return [
+        ...board.members.map(({ id, name, color }) => ({
+          key: id,
+          title: name,
+          color,
+        })),
+        { key: NO_VALUE_LANE, title: "Unassigned" },
+      ];
+    case GroupField.LABEL:
+      return [
+        ...board.labels.map(({ id, name, color }) => ({
+          key: id,
+          title: name,
+          color,
+        })),
+        { key: NO_VALUE_LANE, title: "No label" },
+      ];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Finds the due-date lane of a date
+ * @param dueDate - The task's due date
+ * @param now - Reference time
+ */
+const dueLaneOf = (dueDate: Date | undefined, now: Date): string => {
+  if (!dueDate) return DueLane.NONE;
+  const today = startOfDay(now);
+  if (dueDate < today) return DueLane.OVERDUE;
+  if (dueDate < addDays(today, 1)) return DueLane.TODAY;
+  return dueDate < addDays(startOfWeek(now), 7)
+    ? DueLane.THIS_WEEK
+    : DueLane.LATER;
+};
+
+/**
+ * Lists the lanes a task shows up in
+ * @param task - The task
+ * @param groupBy - The field the board is grouped by
+ * @param now - Reference time for due-date lanes
+ * @returns Lane keys; a task always belongs to at least one lane
+ */
+export const getTaskLaneKeys = (
+  task: Task,
+  groupBy: GroupField,
+  now: Date = new Date()
+): string[] => {
+  switch (groupBy) {
+    case GroupField.PRIORITY:
+      return [task.priority];
+    case GroupField.DUE:
+      return [dueLaneOf(task.dueDate, now)];
+    case GroupField.ASSIGNEE:
+      return task.assigneeIds.length > 0 ? task.assigneeIds : [NO_VALUE_LANE];
+    case GroupField.LABEL:
+      return task.labelIds.length > 0 ? task.labelIds : [NO_VALUE_LANE];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Swaps one value of a multi-valued field for another
+ * Dropping into the "none" lane clears the field; leaving it adds the value.
+ */
+const replaceValue = (ids: string[], from: string, to: string): string[] => {
+  if (to === NO_VALUE_LANE) return [];
+  const kept = ids.filter((id) => id !== from && id !== to);
+  return [...kept, to];
+};
+
+/**
+ * Works out the task changes for dragging a task from one lane to another
+ * @param task - The dragged task
+ * @param groupBy - The field the board is grouped by
+ * @param fromLane - Key of the lane the task was dragged from
+ * @param toLane - Key of the lane it was dropped in
+ * @param now - Reference time for due-date lanes
+ * @returns The changes to apply, or undefined if the lane can't be dropped
+ * into (a task can't be made overdue by dragging)
+ */
+export const getLaneChanges = (
+  task: Task,
+  groupBy: GroupField,
+  fromLane: string,
+  toLane: string,
+  now: Date = new Date()
+): Partial<Task> | undefined => {
+  switch (groupBy) {
+    case GroupField.PRIORITY:
+      return { priority: toLane as TaskPriority };
+    case GroupField.ASSIGNEE:
+      return { assigneeIds: replaceValue(task.assigneeIds, fromLane, toLane) };
+    case GroupField.LABEL:
+      return { labelIds: replaceValue(task.labelIds, fromLane, toLane) };
+    case GroupField.DUE:
+      switch (toLane) {
+        case DueLane.TODAY:
+          return { dueDate: startOfDay(now) };
+        case DueLane.THIS_WEEK:
+          // The last day of the week (on Sundays that is today)
+          return { dueDate: addDays(startOfWeek(now), 6) };
+        case DueLane.LATER:
+          return { dueDate: addDays(startOfWeek(now), 7) };
+        case DueLane.NONE:
+          return { dueDate: undefined };
+        default:
+          return undefined;
+      }
+    default:
+      return {};
+  }
+};
@@ -0,0 +1,391 @@
+/**
+ * Task CSV export and import
+ *
+ * Exports list one task per row with every task field in readable form
+ * (column titles, label and member names, with "\," for a comma within a
+ * name). Imports map each CSV column to a task field, and each status or
+ * priority found in the file to a column or priority of the board; values
+ * that can't be mapped fall back to defaults.
+ */
+
+import { TaskPriority } from "../types";
+import type { Board, ChecklistItem, TaskDraft, TaskStatus } from "../types";
+import { v4 as uuidv4 } from "uuid";
+import { toCsv } from "./csv";
+import { parseDateString, toDateInputValue } from "./dates";
+import { describeFullColumn, getRefusalMessage } from "./wip";
+
+/**
+ * Task fields a CSV column can be imported into
+ */
+export const CsvField = {
+  TITLE: "title",
+  DESCRIPTION: "description",
+  STATUS: "status",
+  PRIORITY: "priority",
+  START_DATE: "startDate",
+  DUE_DATE: "dueDate",
+  LABELS: "labels",
+  ASSIGNEES: "assignees",
+  CHECKLIST: "checklist",
+} as const;
+
+export type CsvField = (typeof CsvField)[keyof typeof CsvField];
+
+/**
+ * Import target of each CSV column, by column index (undefined = ignored)
+ */
+export type CsvMapping = Array<CsvField | undefined>;
+
+/**
+ * Board values chosen for the statuses and priorities found in a file
+ * Keys are the values as written in the file.
+ */
+export interface CsvValueMaps {
+  statuses: Record<string, TaskStatus>;
+  priorities: Record<string, TaskPriority>;
+}
+
+/**
+ * A row that was left out of an import
+ */
+export interface CsvRowError {
+  /** Number of the row in the file, counting the header as row 1 */
+  row: number;
+  message: string;
+}
+
+/** Header names written on export, which are also recognized on import */
+export const csvFieldNames: Record<CsvField, string> = {
+  [CsvField.TITLE]: "Title",
+  [CsvField.DESCRIPTION]: "Description",
+  [CsvField.STATUS]: "Status",
+  [CsvField.PRIORITY]: "Priority",
+  [CsvField.START_DATE]: "Start date",
+  [CsvField.DUE_DATE]: "Due date",
+  [CsvField.LABELS]: "Labels",
+  [CsvField.ASSIGNEES]: "Assignees",
+  [CsvField.CHECKLIST]: "Checklist",
+};
+
+/** Other header names spreadsheets commonly use for a field */
+const headerAliases: Record<string, CsvField> = {
+  name: CsvField.TITLE,
+  summary: CsvField.TITLE,
+  notes: CsvField.DESCRIPTION,
+  column: CsvField.STATUS,
+  state: CsvField.STATUS,
+  start: CsvField.START_DATE,
+  due: CsvField.DUE_DATE,
+  deadline: CsvField.DUE_DATE,
+  tags: CsvField.LABELS,
+  assignee: CsvField.ASSIGNEES,
+  owner: CsvField.ASSIGNEES,
+};
+
+/** Separates several labels or assignees in one field */
+const LIST_SEPARATOR = ",";
+
+/** Written before a separator (or itself) that is part of a name */
+const LIST_ESCAPE = "\\";
+
+/** Marks a checked checklist item ("[x] Write tests") */
+const CHECKED_PREFIX = /^\[[xX]\]\s*/;
+const UNCHECKED_PREFIX = /^\[ ?\]\s*/;
+
+/** First characters that make spreadsheet apps read a cell as a formula */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** Quote written before such cells so they stay text */
+const FORMULA_ESCAPE = "'";
+
+/**
+ * Keeps a text cell from running as a formula in spreadsheet apps
+ */
+const neutralizeCell = (value: string): string =>
+  FORMULA_START.test(value) ? FORMULA_ESCAPE + value : value;
+
+/**
+ * Reads a cell of an imported row, undoing neutralizeCell
+ * @returns The trimmed value ("" for missing cells)
+ */
+const readCell = (row: string[], index: number): string => {
+  const value = row[index] ?? "";
+  return (
+    value.startsWith(FORMULA_ESCAPE) && FORMULA_START.test(value.slice(1))
+      ? value.slice(1)
+      : value
+  ).trim();
+};
+
+/**
+ * Writes the tasks of a board as CSV
+ * @param board - The board; pass a filtered board to export only the shown tasks
+ * @returns CSV text with a header row and one row per task, column by column
+ */
+export const boardToCsv = (board: Board): string => {
+  const namesOf = (
+    ids: string[],
+    items: Array<{ id: string; name: string }>
+  ): string =>
+    items
+      .filter((item) => ids.includes(item.id))
+      .map((item) => item.name.replace(/[\\,]/g, (char) => LIST_ESCAPE + char))
+      .join(`${LIST_SEPARATOR} `);
+
+  const header = [
+    "Key",
+    ...Object.values(csvFieldNames),
+    "Created",
+    "Updated",
+    "Comments",
+  ];
+  const rows = board.columns.flatMap((column) =>
+    column.tasks.map((task) => [
+      task.key,
+      // Text typed by users could otherwise start a formula
+      neutralizeCell(task.title),
+      neutralizeCell(task.description ?? ""),
+      neutralizeCell(column.title),
+      task.priority,
+      toDateInputValue(task.startDate),
+      toDateInputValue(task.dueDate),
+      neutralizeCell(namesOf(task.labelIds, board.labels)),
+      neutralizeCell(namesOf(task.assigneeIds, board.members)),
+      task.checklist
+        .map((item) => `[${item.done ? "x" : " "}] ${item.text}`)
+        .join("\n"),
+      task.createdAt.toISOString(),
+      task.updatedAt?.toISOString() ?? "",
+      String(task.comments.length),
+    ])
+  );
+  return toCsv([header, ...rows]);
+};
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Guesses the task field of each CSV column from its header
+ * @param headers - The header row
+ * @returns The mapping; unrecognized headers (and repeats) are ignored
+ */
+export const guessMapping = (headers: string[]): CsvMapping => {
+  const used = new Set<CsvField>();
+  return headers.map((header) => {
+    const name = normalize(header);
+    const field =
+      (Object.values(CsvField) as CsvField[]).find(
+        (item) =>
+          item.toLowerCase() === name ||
+          csvFieldNames[item].toLowerCase() === name
+      ) ?? headerAliases[name];
+    if (!field || used.has(field)) return undefined;
+    used.add(field);
+    return field;
+  });
+};
+
+/**
+ * Lists the different values of a field in the file
+ * @param rows - Data rows (without the header)
+ * @param mapping - Field of each column
+ * @param field - The field to look at
+ * @returns Trimmed values in the order they first appear (empty values included)
+ */
+export const distinctValues = (
+  rows: string[][],
+  mapping: CsvMapping,
+  field: CsvField
+): string[] => {
+  const index = mapping.indexOf(field);
+  if (index === -1) return [];
+  return [...new Set(rows.map((row) => readCell(row, index)))];
+};
+
+/**
+ * Picks board values for the statuses and priorities in a file
+ * Values match column titles (or IDs) and priority names regardless of case;
+ * anything else goes to the first column and medium priority.
+ * @param rows - Data rows (without the header)
+ * @param mapping - Field of each column
+ * @param board - The board the tasks are imported into
+ */
+export const guessValueMaps = (
+  rows: string[][],
+  mapping: CsvMapping,
+  board: Board
+): CsvValueMaps => {
+  const statuses: Record<string, TaskStatus> = {};
+  distinctValues(rows, mapping, CsvField.STATUS).forEach((value) => {
+    const column = board.columns.find(
+      (col) =>
+        normalize(col.title) === normalize(value) || col.id === value.trim()
+    );
+    statuses[value] = column?.id ?? board.columns[0].id;
+  });
+
+  const priorities: Record<string, TaskPriority> = {};
+  distinctValues(rows, mapping, CsvField.PRIORITY).forEach((value) => {
+    priorities[value] =
+      (Object.values(TaskPriority) as TaskPriority[]).find(
+        (priority) => priority === normalize(value)
+      ) ?? TaskPriority.MEDIUM;
+  });
+
+  return { statuses, priorities };
+};
+
+/**
+ * Reads a checklist written as one "[x] item" per line
+ */
+const parseChecklist = (value: string): ChecklistItem[] =>
+  value
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => ({
+      id: uuidv4(),
+      text: line.replace(CHECKED_PREFIX, "").replace(UNCHECKED_PREFIX, ""),
+      done: CHECKED_PREFIX.test(line),
+    }))
+    .filter((item) => item.text);
+
+/**
+ * Splits a list of names at the separators that aren't escaped
+ */
+const splitList = (value: string): string[] => {
+  const items: string[] = [];
+  let item = "";
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    const next = value[i + 1];
+    if (
+      char === LIST_ESCAPE &&
+      (next === LIST_SEPARATOR || next === LIST_ESCAPE)
+    ) {
+      item += next;
+      i++;
+    } else if (char === LIST_SEPARATOR) {
+      items.push(item);
+      item = "";
+    } else {
+      item += char;
+    }
+  }
+  return [...items, item];
+};
+
+/**
+ * Reads a list of names, leaving out repeats regardless of case
+ */
+const parseList = (value: string): string[] =>
+  splitList(value)
+    .map((item) => item.trim())
+    .filter(
+      (item, index, items) =>
+        item &&
+        items.findIndex(
+          (other) => other.toLowerCase() === item.toLowerCase()
+        ) === index
+    );
+
+/**
+ * Turns CSV rows into tasks to create
+ * @param rows - Data rows (without the header)
+ * @param mapping - Field of each column
+ * @param valueMaps - Board values for the statuses and priorities in the file
+ * @param board - The board the tasks are imported into
+ * @returns The tasks, and the rows that were skipped: no title, a start or
+ * due date that isn't a date, a start after the due date, or a column the
+ * board refuses the task in (a strict WIP limit, counting earlier rows, or a
+ * "done" column with an open checklist)
+ */
+export const buildTaskDrafts = (
+  rows: string[][],
+  mapping: CsvMapping,
+  valueMaps: CsvValueMaps,
+  board: Board
+): { drafts: TaskDraft[]; errors: CsvRowError[] } => {
+  const drafts: TaskDraft[] = [];
+  const errors: CsvRowError[] = [];
+  // Tasks each column will hold, including those of earlier rows
+  const taskCounts = new Map(
+    board.columns.map((column) => [column.id, column.tasks.length])
+  );
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const valueOf = (field: CsvField) => {
+      const column = mapping.indexOf(field);
+      return column === -1 ? "" : readCell(row, column);
+    };
+
+    const title = valueOf(CsvField.TITLE);
+    if (!title) {
+      errors.push({ row: rowNumber, message: "No title" });
+      return;
+    }
+    const startText = valueOf(CsvField.START_DATE);
+    const dueText = valueOf(CsvField.DUE_DATE);
+    // Plain dates are local days, like those entered in the app
+    const startDate = startText ? parseDateString(startText) : undefined;
+    const dueDate = dueText ? parseDateString(dueText) : undefined;
+    if (startText && !startDate) {
+      errors.push({
+        row: rowNumber,
+        message: `Start date "${startText}" is not a date`,
+      });
+      return;
+    }
+    if (dueText && !dueDate) {
+      errors.push({
+        row: rowNumber,
+        message: `Due date "${dueText}" is not a date`,
+      });
+      return;
+    }
+    if (startDate && dueDate && startDate.getTime() > dueDate.getTime()) {
+      errors.push({
+        row: rowNumber,
+        message: "Start date is after the due date",
+      });
+      return;
+    }
+
+    const column =
+      board.columns.find(
+        (col) => col.id === valueMaps.statuses[valueOf(CsvField.STATUS)]
+      ) ?? board.columns[0];
+    const checklist = parseChecklist(valueOf(CsvField.CHECKLIST));
+    // New tasks have no column yet; earlier rows count toward WIP limits
+    const taskCount = taskCounts.get(column.id) ?? 0;
+    const refusal =
+      getRefusalMessage(board, { status: "", checklist }, column.id) ??
+      (board.settings.strictWipLimits &&
+      column.wipLimit !== undefined &&
+      taskCount >= column.wipLimit
+        ? describeFullColumn(column)
+        : undefined);
+    if (refusal) {
+      errors.push({ row: rowNumber, message: refusal });
+      return;
+    }
+    taskCounts.set(column.id, taskCount + 1);
+
+    drafts.push({
+      title,
+      description: valueOf(CsvField.DESCRIPTION) || undefined,
+      status: column.id,
+      priority:
+        valueMaps.priorities[valueOf(CsvField.PRIORITY)] ?? TaskPriority.MEDIUM,
+      startDate,
+      dueDate,
+      labelNames: parseList(valueOf(CsvField.LABELS)),
+      assigneeNames: parseList(valueOf(CsvField.ASSIGNEES)),
+      checklist,
+    });
+  });
+
+  return { drafts, errors };
+};
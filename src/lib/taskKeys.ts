@@ -0,0 +1,66 @@
+/**
+ * Task key helpers
+ *
+ * Task keys look like JIRA issue keys ("WEB-42"): a per-board prefix and a
+ * sequential number taken from the board's counter.
+ */
+
+/** Prefix used for boards that haven't been given one */
+export const DEFAULT_KEY_PREFIX = "TASK";
+
+/** Longest prefix we accept, to keep keys readable on cards */
+const MAX_PREFIX_LENGTH = 10;
+
+/** Matches a key embedded at the start of a title by older app versions */
+const LEGACY_TITLE_KEY = /^([A-Z][A-Z0-9]*-\d+)\s+(.*)$/s;
+
+/**
+ * Builds a task key from a prefix and number
+ * @param prefix - Board key prefix (e.g. "WEB")
+ * @param number - Sequential task number
+ * @returns The task key (e.g. "WEB-42")
+ */
+export const formatTaskKey = (prefix: string, number: number): string =>
+  `${prefix}-${number}`;
+
+/**
+ * Cleans user input into a valid key prefix
+ * Uppercases the input and drops anything that isn't a letter or digit
+ * @param input - Raw prefix typed by the user
+ * @returns The normalized prefix (may be empty)
+ */
+export const normalizeKeyPrefix = (input: string): string =>
+  input
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "")
+    .slice(0, MAX_PREFIX_LENGTH);
+
+/**
+ * Checks whether a prefix can be used for task keys
+ * @param prefix - The prefix to check
+ * @returns True if the prefix starts with a letter and only has letters/digits
+ */
+export const isValidKeyPrefix = (prefix: string): boolean =>
+  /^[A-Z][A-Z0-9]*$/.test(prefix) && prefix.length <= MAX_PREFIX_LENGTH;
+
+/**
+ * Splits a legacy title such as "TASK-123 Fix login" into key and title
+ * @param title - Title that may start with an embedded key
+ * @returns The embedded key (if any) and the title without it
+ */
+export const splitLegacyTitle = (
+  title: string
+): { key?: string; title: string } => {
+  const match = LEGACY_TITLE_KEY.exec(title);
+  return match ? { key: match[1], title: match[2] } : { title };
+};
+
+/**
+ * Reads the number part of a task key
+ * @param key - A task key (e.g. "WEB-42")
+ * @returns The number (e.g. 42), or undefined if the key has no number
+ */
+export const parseTaskNumber = (key: string): number | undefined => {
+  const match = /-(\d+)$/.exec(key);
+  return match ? Number(match[1]) : undefined;
+};
@@ -0,0 +1,98 @@
+/**
+ * Task table
+ *
+ * Lists every task of a board as one row for the table view, and sorts the
+ * rows by a table column. Unlike the board sort, the table can also sort by
+ * key and by status (the order of the columns).
+ */
+
+import { SortField } from "../types";
+import type { Board, Column, Task } from "../types";
+import { compareByField } from "./sort";
+
+/**
+ * Table columns the rows can be sorted by
+ */
+export const TableField = {
+  KEY: "key",
+  TITLE: "title",
+  STATUS: "status",
+  PRIORITY: "priority",
+  DUE_DATE: "dueDate",
+  CREATED_AT: "createdAt",
+  UPDATED_AT: "updatedAt",
+} as const;
+
+export type TableField = (typeof TableField)[keyof typeof TableField];
+
+export interface TableSort {
+  field: TableField;
+  direction: "asc" | "desc";
+}
+
+/** Board order: columns left to right, tasks as the board shows them */
+export const BOARD_ORDER_SORT: TableSort = {
+  field: TableField.STATUS,
+  direction: "asc",
+};
+
+/**
+ * One row of the table
+ */
+export interface TableRow {
+  task: Task;
+  /** The column the task is in */
+  column: Column;
+  /** Position of the column on the board, for sorting by status */
+  columnIndex: number;
+}
+
+/**
+ * Lists the tasks of a board as table rows, in board order
+ * @param board - The board; pass a filtered board to list only matching tasks
+ */
+export const getTableRows = (board: Board): TableRow[] =>
+  board.columns.flatMap((column, columnIndex) =>
+    column.tasks.map((task) => ({ task, column, columnIndex }))
+  );
+
+/**
+ * Compares two rows by one table column in ascending order
+ * Keys compare by number ("WEB-9" before "WEB-10").
+ */
+const compareRows = (a: TableRow, b: TableRow, field: TableField): number => {
+  switch (field) {
+    case TableField.KEY:
+      return a.task.key.localeCompare(b.task.key, undefined, {
+        numeric: true,
+      });
+    case TableField.STATUS:
+      return a.columnIndex - b.columnIndex;
+    case TableField.TITLE:
+      return compareByField(a.task, b.task, SortField.TITLE);
+    case TableField.PRIORITY:
+      return compareByField(a.task, b.task, SortField.PRIORITY);
+    case TableField.DUE_DATE:
+      return compareByField(a.task, b.task, SortField.DUE_DATE);
+    case TableField.CREATED_AT:
+      return compareByField(a.task, b.task, SortField.CREATED_AT);
+    case TableField.UPDATED_AT:
+      return compareByField(a.task, b.task, SortField.UPDATED_AT);
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Sorts table rows
+ * @param rows - Rows in board order
+ * @param sort - Table column and direction to sort by
+ * @returns A sorted copy; ties keep the board order
+ */
+export const sortTableRows = (
+  rows: TableRow[],
+  sort: TableSort
+): TableRow[] => {
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return [...rows].sort((a, b) => sign * compareRows(a, b, sort.field));
+};
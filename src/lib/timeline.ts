@@ -0,0 +1,171 @@
+/**
+ * Timeline helpers
+ *
+ * Places tasks on a timeline as bars of whole days, from their start date to
+ * their due date. A task with only one of the two is a one-day bar. Bars can
+ * be moved or have either end dragged, which changes the task's dates.
+ */
+
+import type { Board, Task } from "../types";
+import { DAY_MS, addDays, startOfDay, startOfWeek } from "./dates";
+
+/**
+ * Ways a bar can be dragged
+ */
+export const BarDrag = {
+  /** The whole bar, keeping its length */
+  MOVE: "move",
+  /** The left end, changing the start date */
+  START: "start",
+  /** The right end, changing the due date */
+  END: "end",
+} as const;
+
+export type BarDrag = (typeof BarDrag)[keyof typeof BarDrag];
+
+/**
+ * The days a task covers, both ends included (at midnight)
+ */
+export interface TaskSpan {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Counts the days from one midnight to another
+ */
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+/**
+ * Gets the days a task covers
+ * @returns The span, or undefined if the task has neither a start nor a due date
+ */
+export const getTaskSpan = (task: Task): TaskSpan | undefined => {
+  const first = task.startDate ?? task.dueDate;
+  const last = task.dueDate ?? task.startDate;
+  if (!first || !last) return undefined;
+  // A start after the due date (e.g. from an import) still makes a bar
+  return first <= last
+    ? { start: startOfDay(first), end: startOfDay(last) }
+    : { start: startOfDay(last), end: startOfDay(first) };
+};
+
+/**
+ * Lists the tasks of a board that have a start or due date
+ * @param board - The board; pass a filtered board to show only matching tasks
+ * @returns Tasks with their spans, earliest start first (ties keep board order)
+ */
+export const getTimelineTasks = (
+  board: Board
+): Array<{ task: Task; span: TaskSpan }> =>
+  board.columns
+    .flatMap((column) => column.tasks)
+    .flatMap((task) => {
+      const span = getTaskSpan(task);
+      return span ? [{ task, span }] : [];
+    })
+    .sort(
+      (a, b) =>
+        a.span.start.getTime() - b.span.start.getTime() ||
+        a.span.end.getTime() - b.span.end.getTime()
+    );
+
+/**
+ * Gets the days the timeline shows: whole weeks from the earliest start to
+ * at least a week after the latest due date, always including today
+ * @param spans - Spans of the tasks shown
+ * @param now - Today
+ * @returns The first day and the number of days
+ */
+export const getTimelineRange = (
+  spans: TaskSpan[],
+  now: Date = new Date()
+): { first: Date; days: number } => {
+  const today = startOfDay(now);
+  const earliest = spans.reduce(
+    (min, span) => (span.start < min ? span.start : min),
+    today
+  );
+  const latest = spans.reduce(
+    (max, span) => (span.end > max ? span.end : max),
+    today
+  );
+  const first = startOfWeek(earliest);
+  const last = addDays(startOfWeek(latest), 13);
+  return { first, days: daysBetween(first, last) + 1 };
+};
+
+/**
+ * Works out the dates of a task after dragging its bar
+ * @param task - The task whose bar is dragged
+ * @param drag - Whether the bar is moved or one of its ends
+ * @param days - Whole days dragged (negative is earlier)
+ * @returns The new start and due date; an end is never dragged past the
+ * other. A one-day bar that gets longer gains the date it was missing.
+ */
+export const rescheduleTask = (
+  task: Task,
+  drag: BarDrag,
+  days: number
+): Pick<Task, "startDate" | "dueDate"> => {
+  const span = getTaskSpan(task);
+  if (!span) return { startDate: task.startDate, dueDate: task.dueDate };
+  const length = daysBetween(span.start, span.end);
+
+  switch (drag) {
+    case BarDrag.START:
+      return {
+        startDate: addDays(span.start, Math.min(days, length)),
+        dueDate: task.dueDate ?? span.end,
+      };
+    case BarDrag.END:
+      return {
+        startDate: task.startDate ?? span.start,
+        dueDate: addDays(task.dueDate ?? span.end, Math.max(days, -length)),
+      };
+    default:
+      return {
+        startDate: task.startDate && addDays(task.startDate, days),
+        dueDate: task.dueDate && addDays(task.dueDate, days),
+      };
+  }
+};
+
+/**
+ * Keeps a task's start on or before its due date when one of them changes
+ * @param task - The task before the change
+ * @param changes - The new start and/or due date
+ * @returns The dates to save: when only one date changes past the other, the
+ * other moves along by as many days (or onto the same day if it had no
+ * counterpart); when both change to an inverted pair, the current dates stay
+ */
+export const keepDatesInOrder = (
+  task: Pick<Task, "startDate" | "dueDate">,
+  changes: Partial<Pick<Task, "startDate" | "dueDate">>
+): Pick<Task, "startDate" | "dueDate"> => {
+  const { startDate, dueDate } = { ...task, ...changes };
+  if (!startDate || !dueDate || daysBetween(startDate, dueDate) >= 0) {
+    return { startDate, dueDate };
+  }
+
+  const movesStart = "startDate" in changes;
+  const movesDue = "dueDate" in changes;
+  if (movesDue && !movesStart) {
+    const days = task.dueDate ? daysBetween(task.dueDate, dueDate) : 0;
+    const moved = addDays(startDate, days);
+    return {
+      startDate: daysBetween(moved, dueDate) >= 0 ? moved : startOfDay(dueDate),
+      dueDate,
+    };
+  }
+  if (movesStart && !movesDue) {
+    const days = task.startDate ? daysBetween(task.startDate, startDate) : 0;
+    const moved = addDays(dueDate, days);
+    return {
+      startDate,
+      dueDate: daysBetween(startDate, moved) >= 0 ? moved : startDate,
+    };
+  }
+  return { startDate: task.startDate, dueDate: task.dueDate };
+};
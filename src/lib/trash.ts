@@ -0,0 +1,42 @@
+/**
+ * Trash helpers
+ *
+ * Deleted tasks wait in their board's trash until they are restored, deleted
+ * for good, or purged once they are older than the board's retention period.
+ */
+
+import type { Board } from "../types";
+import { DAY_MS } from "./dates";
+
+/** Retention for new boards and boards created before the trash existed */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** Retention periods offered in the trash panel (0 keeps items forever) */
+export const TRASH_RETENTION_OPTIONS = [1, 7, 30, 90, 0];
+
+/**
+ * Removes trashed tasks that are past the board's retention period
+ * @param board - The board to clean up
+ * @param now - Reference time (defaults to the current time)
+ * @returns The same board if nothing expired, otherwise a copy without the expired items
+ */
+export const purgeExpiredTrash = (board: Board, now = new Date()): Board => {
+  const { trashRetentionDays } = board.settings;
+  if (trashRetentionDays <= 0) return board;
+
+  const cutoff = now.getTime() - trashRetentionDays * DAY_MS;
+  const trash = board.trash.filter(
+    (entry) => entry.deletedAt.getTime() > cutoff
+  );
+  return trash.length === board.trash.length ? board : { ...board, trash };
+};
+
+/**
+ * Describes a retention period for display
+ * @param days - Retention in days (0 means forever)
+ * @returns A label like "7 days" or "Forever"
+ */
+export const formatRetention = (days: number): string => {
+  if (days <= 0) return "Forever";
+  return days === 1 ? "1 day" : `${days} days`;
+};
@@ -0,0 +1,208 @@
+/**
+ * Trello board import
+ *
+ * Reads the JSON export of a Trello board ("Print and export" > "Export as
+ * JSON"). Open lists become columns and open cards become tasks with their
+ * labels, members, checklists and due date. Start dates, attachments,
+ * comments, custom fields and the card link are kept in the description.
+ * Archived lists and cards are left out.
+ */
+
+import { ColumnColor, TaskPriority } from "../types";
+import type { ChecklistItem, ExternalBoard } from "../types";
+import { v4 as uuidv4 } from "uuid";
+import {
+  asArray,
+  asDate,
+  asRecord,
+  asText,
+  columnStyle,
+  withNotes,
+} from "./externalBoard";
+import { toDateInputValue } from "./dates";
+
+const SOURCE = "Trello";
+
+/** Trello label colors, by name without the "_light"/"_dark" variant */
+const trelloColors: Record<string, ColumnColor> = {
+  green: ColumnColor.GREEN,
+  lime: ColumnColor.GREEN,
+  yellow: ColumnColor.YELLOW,
+  orange: ColumnColor.ORANGE,
+  red: ColumnColor.RED,
+  purple: ColumnColor.PURPLE,
+  blue: ColumnColor.BLUE,
+  sky: ColumnColor.BLUE,
+  pink: ColumnColor.PINK,
+};
+
+type TrelloRecord = Record<string, unknown>;
+
+/**
+ * Tells whether parsed JSON looks like a Trello board export
+ */
+export const isTrelloExport = (data: unknown): boolean => {
+  const record = asRecord(data);
+  return Array.isArray(record.lists) && Array.isArray(record.cards);
+};
+
+/** Sorts Trello items by their position field */
+const byPosition = (a: TrelloRecord, b: TrelloRecord) =>
+  (Number(a.pos) || 0) - (Number(b.pos) || 0);
+
+/** Items of a list field that are objects and not archived */
+const openItems = (value: unknown): TrelloRecord[] =>
+  asArray(value)
+    .map(asRecord)
+    .filter((item) => item.closed !== true)
+    .sort(byPosition);
+
+/**
+ * Reads a Trello board export
+ * @param data - The parsed JSON file (see isTrelloExport)
+ * @returns The board to create
+ */
+export const readTrelloExport = (data: unknown): ExternalBoard => {
+  const file = asRecord(data);
+
+  // Unnamed labels are known by their color in Trello
+  const labels = new Map<string, { name: string; color: ColumnColor }>();
+  asArray(file.labels)
+    .map(asRecord)
+    .forEach((label) => {
+      const colorName = asText(label.color).replace(/_(light|dark)$/, "");
+      const name = asText(label.name) || colorName || "Label";
+      labels.set(asText(label.id), {
+        name,
+        color: trelloColors[colorName] ?? ColumnColor.GRAY,
+      });
+    });
+
+  const memberNames = new Map(
+    asArray(file.members)
+      .map(asRecord)
+      .map((member) => [
+        asText(member.id),
+        asText(member.fullName) || asText(member.username),
+      ])
+  );
+
+  const checklistsByCard = new Map<string, TrelloRecord[]>();
+  asArray(file.checklists)
+    .map(asRecord)
+    .sort(byPosition)
+    .forEach((checklist) => {
+      const cardId = asText(checklist.idCard);
+      checklistsByCard.set(cardId, [
+        ...(checklistsByCard.get(cardId) ?? []),
+        checklist,
+      ]);
+    });
+
+  // Comments are actions in the export, newest first
+  const commentsByCard = new Map<string, string[]>();
+  asArray(file.actions)
+    .map(asRecord)
+    .filter((action) => action.type === "commentCard")
+    .reverse()
+    .forEach((action) => {
+      const actionData = asRecord(action.data);
+      const cardId = asText(asRecord(actionData.card).id);
+      const author = asText(asRecord(action.memberCreator).fullName);
+      const date = asDate(action.date);
+      const comment = `${[author, date && toDateInputValue(date)]
+        .filter(Boolean)
+        .join(", ")}: ${asText(actionData.text)}`;
+      commentsByCard.set(cardId, [
+        ...(commentsByCard.get(cardId) ?? []),
+        comment,
+      ]);
+    });
+
+  const customFieldNames = new Map(
+    asArray(file.customFields)
+      .map(asRecord)
+      .map((field) => [asText(field.id), asText(field.name)])
+  );
+  const customFieldOptions = new Map(
+    asArray(file.customFields)
+      .flatMap((field) => asArray(asRecord(field).options))
+      .map(asRecord)
+      .map((option) => [asText(option.id), asText(asRecord(option.value).text)])
+  );
+
+  const readChecklist = (cardId: string): ChecklistItem[] => {
+    const checklists = checklistsByCard.get(cardId) ?? [];
+    return checklists.flatMap((checklist) =>
+      openItems(checklist.checkItems)
+        .filter((item) => asText(item.name))
+        .map((item) => ({
+          id: uuidv4(),
+          // Several checklists share one list, so items keep their checklist's name
+          text:
+            checklists.length > 1
+              ? `${asText(checklist.name)}: ${asText(item.name)}`
+              : asText(item.name),
+          done: item.state === "complete",
+        }))
+    );
+  };
+
+  const readNotes = (card: TrelloRecord): string[] => {
+    const notes: string[] = [];
+    const start = asDate(card.start);
+    if (start) notes.push(`Start: ${toDateInputValue(start)}`);
+    if (card.dueComplete === true) notes.push("Due date marked complete");
+    asArray(card.customFieldItems)
+      .map(asRecord)
+      .forEach((item) => {
+        const value = asRecord(item.value);
+        const text =
+          customFieldOptions.get(asText(item.idValue)) ??
+          (asText(value.text) ||
+            asText(value.number) ||
+            asText(value.date) ||
+            asText(value.checked));
+        const name = customFieldNames.get(asText(item.idCustomField));
+        if (name && text) notes.push(`${name}: ${text}`);
+      });
+    asArray(card.attachments)
+      .map(asRecord)
+      .forEach((attachment) =>
+        notes.push(
+          `Attachment: ${asText(attachment.name)} (${asText(attachment.url)})`
+        )
+      );
+    (commentsByCard.get(asText(card.id)) ?? []).forEach((comment) =>
+      notes.push(`Comment by ${comment}`)
+    );
+    const url = asText(card.shortUrl) || asText(card.url);
+    if (url) notes.push(`Card: ${url}`);
+    return notes;
+  };
+
+  const cards = openItems(file.cards);
+  return {
+    title: asText(file.name) || "Trello board",
+    labels: [...labels.values()],
+    columns: openItems(file.lists).map((list) => ({
+      title: asText(list.name) || "Untitled list",
+      ...columnStyle(asText(list.name)),
+      tasks: cards
+        .filter((card) => card.idList === list.id && asText(card.name))
+        .map((card) => ({
+          title: asText(card.name),
+          description: withNotes(asText(card.desc), SOURCE, readNotes(card)),
+          priority: TaskPriority.MEDIUM,
+          dueDate: asDate(card.due),
+          labelNames: asArray(card.idLabels)
+            .map((id) => labels.get(asText(id))?.name)
+            .filter((name): name is string => !!name),
+          assigneeNames: asArray(card.idMembers)
+            .map((id) => memberNames.get(asText(id)))
+            .filter((name): name is string => !!name),
+          checklist: readChecklist(asText(card.id)),
+        })),
+    })),
+  };
+};
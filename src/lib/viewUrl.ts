@@ -0,0 +1,134 @@
+/**
+ * View URL encoding
+ *
+ * The active board, saved view, filters, sort, swimlane grouping and layout
+ * are mirrored in the query string so a link reopens the board exactly as it
+ * was shown, e.g. `?board=…&view=…&priority=high,medium&sort=-dueDate&group=assignee`.
+ * The filters are encoded as well as the view ID, so a link still works
+ * after the view has been changed or deleted.
+ */
+
+import {
+  BoardLayout,
+  DuePreset,
+  GroupField,
+  SortField,
+  TaskPriority,
+} from "../types";
+import type { DateRange, TaskFilters, TaskSort } from "../types";
+import { EMPTY_FILTERS } from "./filters";
+import { MANUAL_SORT } from "./sort";
+import { fromDateInputValue, toDateInputValue } from "./dates";
+
+/**
+ * Everything a view link describes
+ */
+export interface ViewLocation {
+  boardId?: string;
+  viewId?: string;
+  filters: TaskFilters;
+  sort: TaskSort;
+  groupBy: GroupField;
+  layout: BoardLayout;
+}
+
+/** Separates the two ends of a date range ("2025-01-01..2025-01-31") */
+const RANGE_SEPARATOR = "..";
+
+const encodeRange = (range: DateRange) =>
+  range.from || range.to
+    ? `${toDateInputValue(range.from)}${RANGE_SEPARATOR}${toDateInputValue(range.to)}`
+    : "";
+
+const decodeRange = (value: string | null): DateRange => {
+  const [from = "", to = ""] = (value ?? "").split(RANGE_SEPARATOR);
+  return { from: fromDateInputValue(from), to: fromDateInputValue(to) };
+};
+
+/**
+ * Reads a comma-separated list, keeping only the allowed values
+ */
+const decodeList = <T extends string>(
+  value: string | null,
+  isAllowed: (item: string) => item is T
+): T[] => (value ? value.split(",").filter(isAllowed) : []);
+
+const isOneOf =
+  <T extends string>(options: Record<string, T>) =>
+  (item: string): item is T =>
+    (Object.values(options) as string[]).includes(item);
+
+/**
+ * Builds the query string for a view
+ * @param location - Board, view, filters, sort, grouping and layout to encode
+ * @returns Query parameters; empty filters are left out
+ */
+export const encodeViewLocation = (location: ViewLocation): URLSearchParams => {
+  const { boardId, viewId, filters, sort, groupBy, layout } = location;
+  const params = new URLSearchParams();
+  const setParam = (name: string, value: string | undefined) => {
+    if (value) params.set(name, value);
+  };
+
+  setParam("board", boardId);
+  setParam("view", viewId);
+  setParam("q", filters.search.trim());
+  setParam("status", filters.statuses.join(","));
+  setParam("priority", filters.priorities.join(","));
+  setParam("label", filters.labelIds.join(","));
+  setParam("assignee", filters.assignees.join(","));
+  setParam("due", filters.due.join(","));
+  setParam("created", encodeRange(filters.created));
+  setParam("updated", encodeRange(filters.updated));
+  if (sort.field !== SortField.MANUAL) {
+    params.set("sort", `${sort.direction === "desc" ? "-" : ""}${sort.field}`);
+  }
+  if (groupBy !== GroupField.NONE) params.set("group", groupBy);
+  if (layout !== BoardLayout.BOARD) params.set("layout", layout);
+  return params;
+};
+
+/**
+ * Reads a view from a query string
+ * @param params - Query parameters of the current URL
+ * @returns The described view; missing or invalid parts fall back to "no filter"
+ */
+export const decodeViewLocation = (params: URLSearchParams): ViewLocation => {
+  const sortParam = params.get("sort") ?? "";
+  const sortField = sortParam.replace(/^-/, "");
+  const groupParam = params.get("group") ?? "";
+  const layoutParam = params.get("layout") ?? "";
+
+  return {
+    boardId: params.get("board") ?? undefined,
+    viewId: params.get("view") ?? undefined,
+    filters: {
+      ...EMPTY_FILTERS,
+      search: params.get("q") ?? "",
+      statuses: decodeList(
+        params.get("status"),
+        (item): item is string => item !== ""
+      ),
+      priorities: decodeList(params.get("priority"), isOneOf(TaskPriority)),
+      labelIds: decodeList(
+        params.get("label"),
+        (item): item is string => item !== ""
+      ),
+      assignees: decodeList(
+        params.get("assignee"),
+        (item): item is string => item !== ""
+      ),
+      due: decodeList(params.get("due"), isOneOf(DuePreset)),
+      created: decodeRange(params.get("created")),
+      updated: decodeRange(params.get("updated")),
+    },
+    sort: isOneOf(SortField)(sortField)
+      ? {
+          field: sortField,
+          direction: sortParam.startsWith("-") ? "desc" : "asc",
+        }
+      : MANUAL_SORT,
+    groupBy: isOneOf(GroupField)(groupParam) ? groupParam : GroupField.NONE,
+    layout: isOneOf(BoardLayout)(layoutParam) ? layoutParam : BoardLayout.BOARD,
+  };
+};
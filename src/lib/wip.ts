@@ -0,0 +1,91 @@
+/**
+ * Work-in-progress (WIP) limit helpers
+ *
+ * A column may set the most tasks it should hold at once. Going past the
+ * limit is refused on boards with strict WIP limits, and only warned about
+ * on all others.
+ */
+
+import type { Board, Column, Task, TaskStatus } from "../types";
+import { isBlockedFromColumn } from "./checklist";
+
+/**
+ * Describes how full a column is compared to its limit
+ * @param column - The column (with all of its tasks, not a filtered view)
+ * @returns "under", "at" or "over"; columns without a limit are always "under"
+ */
+export const wipLoad = (column: Column): "under" | "at" | "over" => {
+  if (column.wipLimit === undefined) return "under";
+  if (column.tasks.length > column.wipLimit) return "over";
+  return column.tasks.length === column.wipLimit ? "at" : "under";
+};
+
+/**
+ * Finds the limited column a task would push past its limit
+ * @param board - The board the task belongs to
+ * @param task - The task being moved
+ * @param targetStatus - ID of the column the task should go to
+ * @returns The target column if it is already full, otherwise undefined.
+ * Moves within a column never count, since they don't add a task.
+ */
+export const findFullColumn = (
+  board: Board,
+  task: Pick<Task, "status">,
+  targetStatus: TaskStatus
+): Column | undefined => {
+  if (task.status === targetStatus) return undefined;
+  const column = board.columns.find((col) => col.id === targetStatus);
+  return column?.wipLimit !== undefined &&
+    column.tasks.length >= column.wipLimit
+    ? column
+    : undefined;
+};
+
+/**
+ * Describes a column that has no room left under its limit
+ */
+export const describeFullColumn = (column: Column): string =>
+  `${column.title} is at its WIP limit of ${column.wipLimit}`;
+
+/**
+ * Explains why a board refuses a task in a column: an open checklist for a
+ * "done" column (see isBlockedFromColumn), or a full column on boards with
+ * strict WIP limits
+ * @param board - The board the task belongs to
+ * @param task - The task being moved; new tasks have no key or column yet
+ * @param targetStatus - ID of the column the task should go to
+ * @returns The message to show, or undefined if the column takes the task
+ */
+export const getRefusalMessage = (
+  board: Board,
+  task: Pick<Task, "status" | "checklist"> & Partial<Pick<Task, "key">>,
+  targetStatus: TaskStatus
+): string | undefined => {
+  if (isBlockedFromColumn(board, task, targetStatus)) {
+    return `Check off the checklist of ${task.key || "this task"} before moving it to done`;
+  }
+  const fullColumn = findFullColumn(board, task, targetStatus);
+  return fullColumn && board.settings.strictWipLimits
+    ? describeFullColumn(fullColumn)
+    : undefined;
+};
+
+/**
+ * Warns about a column that a move has taken past its limit
+ * @param column - The column after the move
+ * @returns The message to show, or undefined if the column is within its limit
+ */
+export const getOverLimitWarning = (column: Column): string | undefined =>
+  wipLoad(column) === "over"
+    ? `${column.title} is over its WIP limit of ${column.wipLimit}`
+    : undefined;
+
+/**
+ * Cleans user input into a WIP limit
+ * @param input - Raw value typed by the user
+ * @returns A positive whole number, or undefined for "no limit"
+ */
+export const parseWipLimit = (input: string): number | undefined => {
+  const limit = Number.parseInt(input, 10);
+  return Number.isFinite(limit) && limit > 0 ? limit : undefined;
+};
@@ -0,0 +1,270 @@
+/**
+ * Board export files
+ *
+ * Boards are exported as JSON in the storage schema, wrapped with the format
+ * name and the storage version they were written with. Reading a file checks
+ * the wrapper, migrates boards from older versions like stored data, and
+ * validates them against the schema below, reporting every problem by field.
+ */
+
+import {
+  ActivityType,
+  ColumnCategory,
+  ColumnColor,
+  TaskPriority,
+} from "../types";
+import type { Board } from "../types";
+import { validateSchema } from "@/lib/schema";
+import type { Schema, SchemaError } from "@/lib/schema";
+import { STORAGE_VERSION, migrateKanbanState } from "./persistence";
+
+/** Identifies export files of this app */
+export const BOARD_FILE_FORMAT = "mini-kanban-boards";
+
+/**
+ * Short description of a board in a file, shown before importing it
+ */
+export interface BoardFileSummary {
+  title: string;
+  columns: number;
+  tasks: number;
+}
+
+/**
+ * Result of reading an export file
+ * Boards are only returned when the whole file is valid.
+ */
+export type BoardFileReadResult =
+  | { ok: true; boards: unknown[]; summaries: BoardFileSummary[] }
+  | { ok: false; errors: SchemaError[] };
+
+const values = <T extends string>(options: Record<string, T>) =>
+  Object.values(options);
+
+const string: Schema = { type: "string" };
+const optionalString: Schema = { type: "string", optional: true };
+const requiredText: Schema = { type: "string", nonEmpty: true };
+const color: Schema = { type: "enum", values: values(ColumnColor) };
+const optionalDate: Schema = { type: "date", optional: true };
+const idList: Schema = { type: "array", items: string, optional: true };
+
+const taskSchema: Schema = {
+  type: "object",
+  fields: {
+    id: requiredText,
+    key: optionalString,
+    title: string,
+    description: optionalString,
+    status: optionalString,
+    priority: { type: "enum", values: values(TaskPriority) },
+    createdAt: { type: "date" },
+    updatedAt: optionalDate,
+    startDate: optionalDate,
+    dueDate: optionalDate,
+    blockedByIds: idList,
+    labelIds: idList,
+    assigneeIds: idList,
+    checklist: {
+      type: "array",
+      optional: true,
+      items: {
+        type: "object",
+        fields: { id: optionalString, text: string, done: { type: "boolean" } },
+      },
+    },
+    comments: {
+      type: "array",
+      optional: true,
+      items: {
+        type: "object",
+        fields: {
+          id: requiredText,
+          parentId: optionalString,
+          authorId: optionalString,
+          text: string,
+          createdAt: { type: "date" },
+        },
+      },
+    },
+    activity: {
+      type: "array",
+      optional: true,
+      items: {
+        type: "object",
+        fields: {
+          type: { type: "enum", values: values(ActivityType) },
+          actorId: optionalString,
+          createdAt: { type: "date" },
+        },
+      },
+    },
+  },
+};
+
+/** Trash and archive entries wrap a task with where it came from */
+const storedTaskList = (dateField: string): Schema => ({
+  type: "array",
+  optional: true,
+  items: {
+    type: "object",
+    fields: {
+      task: taskSchema,
+      columnId: string,
+      [dateField]: { type: "date" },
+    },
+  },
+});
+
+const boardSchema: Schema = {
+  type: "object",
+  fields: {
+    id: requiredText,
+    title: requiredText,
+    archived: { type: "boolean", optional: true },
+    keyPrefix: optionalString,
+    nextTaskNumber: { type: "number", integer: true, min: 1, optional: true },
+    columns: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        fields: {
+          id: requiredText,
+          title: requiredText,
+          color: { ...color, optional: true },
+          category: {
+            type: "enum",
+            values: values(ColumnCategory),
+            optional: true,
+          },
+          wipLimit: { type: "number", integer: true, min: 1, optional: true },
+          tasks: { type: "array", items: taskSchema },
+        },
+      },
+    },
+    labels: {
+      type: "array",
+      optional: true,
+      items: {
+        type: "object",
+        fields: { id: requiredText, name: requiredText, color },
+      },
+    },
+    members: {
+      type: "array",
+      optional: true,
+      items: {
+        type: "object",
+        fields: {
+          id: requiredText,
+          name: requiredText,
+          initials: optionalString,
+          color,
+        },
+      },
+    },
+    trash: storedTaskList("deletedAt"),
+    archive: storedTaskList("archivedAt"),
+  },
+};
+
+const fileSchema: Schema = {
+  type: "object",
+  fields: {
+    boards: { type: "array", items: boardSchema, minItems: 1 },
+  },
+};
+
+/**
+ * Writes boards to an export file
+ * @param boards - The boards to export
+ * @param now - Export time recorded in the file
+ * @returns The file content (pretty-printed JSON)
+ */
+export const createBoardFile = (
+  boards: Board[],
+  now: Date = new Date()
+): string =>
+  JSON.stringify(
+    {
+      format: BOARD_FILE_FORMAT,
+      version: STORAGE_VERSION,
+      exportedAt: now.toISOString(),
+      boards,
+    },
+    null,
+    2
+  );
+
+/**
+ * Reads and validates an export file
+ * @param text - Content of the file
+ * @returns The boards (migrated to the current schema, not yet repaired) with
+ * a summary of each, or every problem found in the file
+ */
+export const readBoardFile = (text: string): BoardFileReadResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return {
+      ok: false,
+      errors: [{ path: "(file)", message: "is not valid JSON" }],
+    };
+  }
+
+  const file =
+    typeof data === "object" && data !== null && !Array.isArray(data)
+      ? (data as Record<string, unknown>)
+      : {};
+  if (file.format !== BOARD_FILE_FORMAT) {
+    return {
+      ok: false,
+      errors: [
+        {
+          path: "format",
+          message: `must be "${BOARD_FILE_FORMAT}"; this is not a board export of this app`,
+        },
+      ],
+    };
+  }
+  const { version } = file;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    return {
+      ok: false,
+      errors: [{ path: "version", message: "must be a whole number" }],
+    };
+  }
+  if (version > STORAGE_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        {
+          path: "version",
+          message: `is ${version}, but this app only reads up to version ${STORAGE_VERSION}; update the app first`,
+        },
+      ],
+    };
+  }
+
+  // Older files are upgraded like stored data before they are checked
+  const { boards } = migrateKanbanState({ boards: file.boards }, version);
+  const errors = validateSchema(fileSchema, { boards });
+  if (errors.length > 0) return { ok: false, errors };
+
+  const validBoards = boards as unknown as Array<
+    Pick<Board, "title" | "columns">
+  >;
+  return {
+    ok: true,
+    boards: validBoards,
+    summaries: validBoards.map((board) => ({
+      title: board.title,
+      columns: board.columns.length,
+      tasks: board.columns.reduce(
+        (total, column) => total + column.tasks.length,
+        0
+      ),
+    })),
+  };
+};
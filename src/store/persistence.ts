@@ -0,0 +1,961 @@
+/**
+ * Kanban Persistence Schema
+ *
+ * Everything needed to load the store from localStorage safely:
+ * - A JSON storage for the persisted part of the store
+ * - Step-by-step migrations from every older storage version
+ * - Validation that repairs broken records, or quarantines the ones that
+ *   can't be repaired, so a bad record never takes the whole board down
+ */
+
+import { createJSONStorage } from "zustand/middleware";
+import { v4 as uuidv4 } from "uuid";
+import {
+  ActivityType,
+  ColumnCategory,
+  ColumnColor,
+  DoneGrouping,
+  DuePreset,
+  GroupField,
+  MarkdownField,
+  SortField,
+  TaskPriority,
+} from "../types";
+import type {
+  ActivityEntry,
+  ArchivedTask,
+  Board,
+  BoardSettings,
+  ChecklistItem,
+  Column,
+  DateRange,
+  FieldChange,
+  Label,
+  MarkdownTemplate,
+  Member,
+  QuarantinedRecord,
+  SavedView,
+  Task,
+  TaskComment,
+  TaskFilters,
+  TaskSort,
+  TrashedTask,
+} from "../types";
+import { parseDate } from "@/lib/dates";
+import {
+  DEFAULT_KEY_PREFIX,
+  formatTaskKey,
+  isValidKeyPrefix,
+  parseTaskNumber,
+  splitLegacyTitle,
+} from "@/lib/taskKeys";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "@/lib/trash";
+import { DEFAULT_MARKDOWN_TEMPLATE } from "@/lib/markdown";
+import { deriveInitials, normalizeInitials } from "@/lib/members";
+
+/** Current storage schema version; bump it together with a new migration */
+export const STORAGE_VERSION = 16;
+
+/**
+ * The part of the store that is written to storage
+ */
+export interface PersistedKanbanState {
+  boards: Board[];
+  activeBoardId: string;
+  quarantine: QuarantinedRecord[];
+  currentMemberIds: Record<string, string>;
+}
+
+/**
+ * JSON storage for the persisted state
+ * Dates are stored as ISO strings; validation turns them back into Date
+ * objects at the fields known to hold them (see sanitizeKanbanState).
+ */
+export const kanbanStorage = createJSONStorage<PersistedKanbanState>(
+  () => localStorage
+);
+
+// ===== MIGRATIONS =====
+
+/**
+ * Loose shapes of data written by older versions. Every field is optional
+ * because old data may be missing anything the current types require.
+ */
+type LegacyTask = Partial<Task>;
+type LegacyColumn = Partial<Omit<Column, "tasks">> & {
+  status?: string;
+  tasks?: LegacyTask[];
+};
+type LegacyBoard = Partial<Omit<Board, "columns" | "settings">> & {
+  columns?: LegacyColumn[];
+  settings?: Partial<BoardSettings>;
+};
+interface LegacyState {
+  board?: LegacyBoard;
+  boards?: LegacyBoard[];
+  activeBoardId?: string;
+  quarantine?: QuarantinedRecord[];
+  currentMemberIds?: Record<string, string>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Maps the objects in a list, leaving malformed lists and entries untouched
+ * for validation to deal with later
+ */
+const mapObjects = <T>(list: T[] | undefined, fn: (item: T) => T) =>
+  Array.isArray(list)
+    ? list.map((item) => (isObject(item) ? fn(item) : item))
+    : list;
+
+/**
+ * Applies a function to every board's columns (skipping malformed boards)
+ */
+const mapColumns = (
+  state: LegacyState,
+  fn: (column: LegacyColumn) => LegacyColumn
+): LegacyState => ({
+  ...state,
+  boards: mapObjects(state.boards, (board) => ({
+    ...board,
+    columns: mapObjects(board.columns, fn),
+  })),
+});
+
+/**
+ * Migrations indexed by the version they upgrade FROM
+ * `migrations[n]` turns version n data into version n + 1 data.
+ */
+const migrations: Array<(state: LegacyState) => LegacyState> = [
+  // 0 -> 1: a single `board` became a list of boards
+  (state) => {
+    if (!state.board) return state;
+    const board = { ...state.board, archived: false };
+    return { boards: [board], activeBoardId: board.id };
+  },
+
+  // 1 -> 2: columns had a fixed `status` that tasks pointed at; tasks now
+  // point at the column ID and the old status becomes the column category
+  (state) =>
+    mapColumns(state, ({ status, ...column }) => {
+      const isKnownCategory = (
+        Object.values(ColumnCategory) as string[]
+      ).includes(status ?? "");
+      return {
+        ...column,
+        color: column.color ?? ColumnColor.GRAY,
+        category: isKnownCategory
+          ? (status as ColumnCategory)
+          : ColumnCategory.TODO,
+        tasks: mapObjects(column.tasks, (task) => ({
+          ...task,
+          status: column.id,
+        })),
+      };
+    }),
+
+  // 2 -> 3: tasks were sorted by date when rendering; freeze that order into
+  // the arrays so existing boards look the same as before
+  (state) =>
+    mapColumns(state, (column) => {
+      const lastTouched = (task: LegacyTask) =>
+        parseDate(task.updatedAt ?? task.createdAt)?.getTime() ?? 0;
+      return {
+        ...column,
+        tasks: Array.isArray(column.tasks)
+          ? [...column.tasks].sort((a, b) => lastTouched(b) - lastTouched(a))
+          : column.tasks,
+      };
+    }),
+
+  // 3 -> 4: a random "TASK-NNN" code was embedded at the start of each title;
+  // move it into `key` and start a per-board counter. Titles without a code,
+  // and codes that collided, get fresh sequential keys.
+  (state) => ({
+    ...state,
+    boards: mapObjects(state.boards, (board) => {
+      if (!Array.isArray(board.columns)) return board;
+
+      const splitTitles = board.columns
+        .filter(isObject)
+        .flatMap((column) =>
+          (Array.isArray(column.tasks) ? column.tasks : [])
+            .filter(isObject)
+            .map((task) => splitLegacyTitle(String(task.title ?? "")))
+        );
+      let nextTaskNumber =
+        Math.max(
+          0,
+          ...splitTitles.map((split) =>
+            split.key ? (parseTaskNumber(split.key) ?? 0) : 0
+          )
+        ) + 1;
+      const usedKeys = new Set<string>();
+
+      return {
+        ...board,
+        keyPrefix: board.keyPrefix ?? DEFAULT_KEY_PREFIX,
+        columns: mapObjects(board.columns, (column) => ({
+          ...column,
+          tasks: mapObjects(column.tasks, (task) => {
+            // Leave title-less tasks alone so validation can quarantine them
+            if (typeof task.title !== "string") return task;
+            const { key: legacyKey, title } = splitLegacyTitle(task.title);
+            let key = legacyKey;
+            if (!key || usedKeys.has(key)) {
+              key = formatTaskKey(DEFAULT_KEY_PREFIX, nextTaskNumber++);
+            }
+            usedKeys.add(key);
+            return { ...task, key, title };
+          }),
+        })),
+        nextTaskNumber,
+      };
+    }),
+  }),
+
+  // 4 -> 5: added the quarantine list
+  (state) => ({ ...state, quarantine: state.quarantine ?? [] }),
+
+  // 5 -> 6: deleting a task moves it to a per-board trash, purged after a
+  // retention period stored in the new board settings
+  (state) => ({
+    ...state,
+    boards: mapObjects(state.boards, (board) => ({
+      ...board,
+      trash: board.trash ?? [],
+      settings: board.settings ?? {
+        trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+      },
+    })),
+  }),
+
+  // 6 -> 7: finished tasks can be archived out of the columns
+  (state) => ({
+    ...state,
+    boards: mapObjects(state.boards, (board) => ({
+      ...board,
+      archive: board.archive ?? [],
+    })),
+  }),
+
+  // 7 -> 8: boards can have saved views (named filter and sort presets)
+  (state) => ({
+    ...state,
+    boards: mapObjects(state.boards, (board) => ({
+      ...board,
+      views: board.views ?? [],
+    })),
+  }),
+
+  // 8 -> 9: boards have a label catalog; tasks get their (empty) list of
+  // label IDs during validation
+  (state) => ({
+    ...state,
+    boards: mapObjects(state.boards, (board) => ({
+      ...board,
+      labels: board.labels ?? [],
+    })),
+  }),
+
+  // 9 -> 10: boards have members and this browser remembers who the user
+  // is on each board; tasks get their (empty) assignee lists during validation
+  (state) => ({
+    ...state,
+    currentMemberIds: state.currentMemberIds ?? {},
+    boards: mapObjects(state.boards, (board) => ({
+      ...board,
+      members: board.members ?? [],
+    })),
+  }),
+
+  // 10 -> 11: tasks have a checklist, and boards a setting that keeps tasks
+  // with open checklist items out of "done" columns; validation fills in an
+  // empty checklist and turns the setting off
+  (state) => state,
+
+  // 11 -> 12: tasks have comments and an activity log; validation fills in
+  // empty lists
+  (state) => state,
+
+  // 12 -> 13: columns can have a WIP limit (none for existing columns), and
+  // boards a strict-limits setting that validation turns off
+  (state) => state,
+
+  // 13 -> 14: saved views remember a swimlane grouping; validation gives
+  // existing views none
+  (state) => state,
+
+  // 14 -> 15: boards remember their Markdown export template; validation
+  // gives existing boards the default one
+  (state) => state,
+
+  // 15 -> 16: tasks can have a start date and be blocked by other tasks;
+  // validation fills in empty blocker lists
+  (state) => state,
+];
+
+/**
+ * Upgrades stored data from any older version to the current one,
+ * running each migration step in order
+ * @param persistedState - Raw state read from storage
+ * @param version - Version the state was written with
+ * @returns State in the current schema (not yet validated)
+ */
+export const migrateKanbanState = (
+  persistedState: unknown,
+  version: number
+): PersistedKanbanState => {
+  let state = (persistedState ?? {}) as LegacyState;
+  for (let step = version; step < STORAGE_VERSION; step++) {
+    state = migrations[step]?.(state) ?? state;
+  }
+  return state as PersistedKanbanState;
+};
+
+// ===== VALIDATION =====
+
+const isOneOf = <T extends string>(
+  options: Record<string, T>,
+  value: unknown
+): value is T => (Object.values(options) as unknown[]).includes(value);
+
+/**
+ * Keeps the entries of a stored list that pass a check
+ */
+const filterList = <T>(value: unknown, check: (item: unknown) => item is T) =>
+  Array.isArray(value) ? value.filter(check) : [];
+
+/**
+ * Repairs a stored date range, dropping ends that aren't dates
+ */
+const sanitizeDateRange = (raw: unknown): DateRange => {
+  const range = isObject(raw) ? raw : {};
+  return { from: parseDate(range.from), to: parseDate(range.to) };
+};
+
+/**
+ * Repairs the filters of a saved view; unknown values are dropped
+ */
+const sanitizeFilters = (raw: unknown): TaskFilters => {
+  const filters = isObject(raw) ? raw : {};
+  return {
+    statuses: filterList(
+      filters.statuses,
+      (item): item is string => typeof item === "string"
+    ),
+    priorities: filterList(filters.priorities, (item) =>
+      isOneOf(TaskPriority, item)
+    ),
+    labelIds: filterList(
+      filters.labelIds,
+      (item): item is string => typeof item === "string"
+    ),
+    assignees: filterList(
+      filters.assignees,
+      (item): item is string => typeof item === "string"
+    ),
+    due: filterList(filters.due, (item) => isOneOf(DuePreset, item)),
+    created: sanitizeDateRange(filters.created),
+    updated: sanitizeDateRange(filters.updated),
+    search: typeof filters.search === "string" ? filters.search : "",
+  };
+};
+
+/**
+ * Repairs the sort of a saved view, falling back to the manual order
+ */
+const sanitizeSort = (raw: unknown): TaskSort => {
+  const sort = isObject(raw) ? raw : {};
+  return {
+    field: isOneOf(SortField, sort.field) ? sort.field : SortField.MANUAL,
+    direction: sort.direction === "desc" ? "desc" : "asc",
+  };
+};
+
+/**
+ * Repairs a board's Markdown export template, falling back to the default
+ */
+const sanitizeMarkdownTemplate = (raw: unknown): MarkdownTemplate => {
+  if (!isObject(raw)) return DEFAULT_MARKDOWN_TEMPLATE;
+  return {
+    fields: Object.values(MarkdownField).filter(
+      (field) => Array.isArray(raw.fields) && raw.fields.includes(field)
+    ),
+    doneGrouping: isOneOf(DoneGrouping, raw.doneGrouping)
+      ? raw.doneGrouping
+      : DEFAULT_MARKDOWN_TEMPLATE.doneGrouping,
+  };
+};
+
+/**
+ * Repairs a task's checklist; items without text are dropped
+ */
+const sanitizeChecklist = (raw: unknown): ChecklistItem[] => {
+  const seenIds = new Set<string>();
+  return (Array.isArray(raw) ? raw : []).flatMap((rawItem) => {
+    if (!isObject(rawItem) || typeof rawItem.text !== "string") return [];
+
+    let itemId = typeof rawItem.id === "string" && rawItem.id ? rawItem.id : "";
+    if (!itemId || seenIds.has(itemId)) itemId = uuidv4();
+    seenIds.add(itemId);
+    return [{ id: itemId, text: rawItem.text, done: rawItem.done === true }];
+  });
+};
+
+/**
+ * Repairs a task's comments; comments without text are dropped, and so are
+ * replies whose thread is gone
+ */
+const sanitizeComments = (raw: unknown): TaskComment[] => {
+  const seenIds = new Set<string>();
+  const comments = (Array.isArray(raw) ? raw : []).flatMap((rawComment) => {
+    if (!isObject(rawComment) || typeof rawComment.text !== "string") {
+      return [];
+    }
+
+    let commentId =
+      typeof rawComment.id === "string" && rawComment.id ? rawComment.id : "";
+    if (!commentId || seenIds.has(commentId)) commentId = uuidv4();
+    seenIds.add(commentId);
+    const comment: TaskComment = {
+      id: commentId,
+      text: rawComment.text,
+      createdAt: parseDate(rawComment.createdAt) ?? new Date(),
+    };
+    if (typeof rawComment.parentId === "string") {
+      comment.parentId = rawComment.parentId;
+    }
+    if (typeof rawComment.authorId === "string") {
+      comment.authorId = rawComment.authorId;
+    }
+    return [comment];
+  });
+
+  // Threads are one level deep, so a reply must point at a top-level comment
+  const topLevelIds = new Set(
+    comments.filter((comment) => !comment.parentId).map((comment) => comment.id)
+  );
+  return comments.filter(
+    (comment) => !comment.parentId || topLevelIds.has(comment.parentId)
+  );
+};
+
+/**
+ * Repairs a task's activity log; entries of unknown kinds are dropped
+ */
+const sanitizeActivity = (raw: unknown): ActivityEntry[] =>
+  (Array.isArray(raw) ? raw : []).flatMap((rawEntry) => {
+    if (!isObject(rawEntry) || !isOneOf(ActivityType, rawEntry.type)) {
+      return [];
+    }
+
+    const entry: ActivityEntry = {
+      id:
+        typeof rawEntry.id === "string" && rawEntry.id ? rawEntry.id : uuidv4(),
+      type: rawEntry.type,
+      changes: filterList(
+        rawEntry.changes,
+        (change): change is FieldChange =>
+          isObject(change) &&
+          typeof change.field === "string" &&
+          typeof change.before === "string" &&
+          typeof change.after === "string"
+      ),
+      createdAt: parseDate(rawEntry.createdAt) ?? new Date(),
+    };
+    if (typeof rawEntry.actorId === "string") {
+      entry.actorId = rawEntry.actorId;
+    }
+    return [entry];
+  });
+
+/**
+ * Validates, repairs and quarantines a single board
+ * @param raw - Board as read from storage
+ * @param quarantine - Collects records that can't be repaired
+ * @param createFallbackBoard - Supplies default columns for boards that lost theirs
+ * @returns The repaired board
+ */
+const sanitizeBoard = (
+  raw: Record<string, unknown>,
+  quarantine: (record: Omit<QuarantinedRecord, "id" | "quarantinedAt">) => void,
+  createFallbackBoard: () => Board
+): Board => {
+  const boardId = typeof raw.id === "string" && raw.id ? raw.id : uuidv4();
+  const keyPrefix =
+    typeof raw.keyPrefix === "string" && isValidKeyPrefix(raw.keyPrefix)
+      ? raw.keyPrefix
+      : DEFAULT_KEY_PREFIX;
+  const seenTaskIds = new Set<string>();
+  const seenKeys = new Set<string>();
+  const seenColumnIds = new Set<string>();
+  const tasksNeedingKeys: Task[] = [];
+  let highestNumber = 0;
+
+  if (raw.labels !== undefined && !Array.isArray(raw.labels)) {
+    quarantine({
+      kind: "label",
+      reason: "Board labels were not a list",
+      data: raw.labels,
+      boardId,
+    });
+  }
+
+  const labels: Label[] = [];
+  (Array.isArray(raw.labels) ? raw.labels : []).forEach((rawLabel) => {
+    if (
+      !isObject(rawLabel) ||
+      typeof rawLabel.name !== "string" ||
+      !rawLabel.name
+    ) {
+      quarantine({
+        kind: "label",
+        reason: "Label had no name",
+        data: rawLabel,
+        boardId,
+      });
+      return;
+    }
+
+    // Tasks refer to labels by ID, so a label without one can't be kept
+    const labelId = typeof rawLabel.id === "string" ? rawLabel.id : "";
+    if (!labelId || labels.some((label) => label.id === labelId)) {
+      quarantine({
+        kind: "label",
+        reason: "Label had a missing or duplicate ID",
+        data: rawLabel,
+        boardId,
+      });
+      return;
+    }
+    labels.push({
+      id: labelId,
+      name: rawLabel.name,
+      color: isOneOf(ColumnColor, rawLabel.color)
+        ? rawLabel.color
+        : ColumnColor.GRAY,
+    });
+  });
+  const labelIds = new Set(labels.map((label) => label.id));
+
+  if (raw.members !== undefined && !Array.isArray(raw.members)) {
+    quarantine({
+      kind: "member",
+      reason: "Board members were not a list",
+      data: raw.members,
+      boardId,
+    });
+  }
+
+  const members: Member[] = [];
+  (Array.isArray(raw.members) ? raw.members : []).forEach((rawMember) => {
+    if (
+      !isObject(rawMember) ||
+      typeof rawMember.name !== "string" ||
+      !rawMember.name
+    ) {
+      quarantine({
+        kind: "member",
+        reason: "Member had no name",
+        data: rawMember,
+        boardId,
+      });
+      return;
+    }
+
+    // Tasks refer to members by ID, so a member without one can't be kept
+    const memberId = typeof rawMember.id === "string" ? rawMember.id : "";
+    if (!memberId || members.some((member) => member.id === memberId)) {
+      quarantine({
+        kind: "member",
+        reason: "Member had a missing or duplicate ID",
+        data: rawMember,
+        boardId,
+      });
+      return;
+    }
+    const initials =
+      typeof rawMember.initials === "string"
+        ? normalizeInitials(rawMember.initials)
+        : "";
+    members.push({
+      id: memberId,
+      name: rawMember.name,
+      initials: initials || deriveInitials(rawMember.name),
+      color: isOneOf(ColumnColor, rawMember.color)
+        ? rawMember.color
+        : ColumnColor.GRAY,
+    });
+  });
+  const memberIds = new Set(members.map((member) => member.id));
+
+  /**
+   * Repairs a task's fields, or quarantines it if it has no title
+   * Missing or duplicate keys are collected and renumbered once the
+   * highest existing key is known.
+   */
+  const repairTask = (rawTask: unknown, status: string): Task | undefined => {
+    // A task without a title has nothing worth showing; keep it aside
+    if (!isObject(rawTask) || typeof rawTask.title !== "string") {
+      quarantine({
+        kind: "task",
+        reason: "Task had no title",
+        data: rawTask,
+        boardId,
+      });
+      return undefined;
+    }
+
+    let taskId = typeof rawTask.id === "string" && rawTask.id ? rawTask.id : "";
+    if (!taskId || seenTaskIds.has(taskId)) taskId = uuidv4();
+    seenTaskIds.add(taskId);
+
+    const updatedAt = parseDate(rawTask.updatedAt);
+    const startDate = parseDate(rawTask.startDate);
+    const dueDate = parseDate(rawTask.dueDate);
+    const task: Task = {
+      id: taskId,
+      key: typeof rawTask.key === "string" ? rawTask.key : "",
+      title: rawTask.title,
+      description:
+        typeof rawTask.description === "string"
+          ? rawTask.description
+          : undefined,
+      status,
+      priority: isOneOf(TaskPriority, rawTask.priority)
+        ? rawTask.priority
+        : TaskPriority.MEDIUM,
+      createdAt: parseDate(rawTask.createdAt) ?? updatedAt ?? new Date(),
+      updatedAt,
+      startDate,
+      dueDate,
+      // Each blocker once, never the task itself (unknown IDs go below)
+      blockedByIds: Array.isArray(rawTask.blockedByIds)
+        ? [...new Set(rawTask.blockedByIds)].filter(
+            (id): id is string => typeof id === "string" && id !== taskId
+          )
+        : [],
+      // Only known labels, each once
+      labelIds: Array.isArray(rawTask.labelIds)
+        ? [...new Set(rawTask.labelIds)].filter(
+            (id): id is string => typeof id === "string" && labelIds.has(id)
+          )
+        : [],
+      // Only current members, each once
+      assigneeIds: Array.isArray(rawTask.assigneeIds)
+        ? [...new Set(rawTask.assigneeIds)].filter(
+            (id): id is string => typeof id === "string" && memberIds.has(id)
+          )
+        : [],
+      checklist: sanitizeChecklist(rawTask.checklist),
+      comments: sanitizeComments(rawTask.comments),
+      activity: sanitizeActivity(rawTask.activity),
+    };
+
+    // Keys must be unique; missing or duplicate ones get a fresh number below
+    if (!task.key || seenKeys.has(task.key)) {
+      tasksNeedingKeys.push(task);
+    } else {
+      seenKeys.add(task.key);
+      highestNumber = Math.max(highestNumber, parseTaskNumber(task.key) ?? 0);
+    }
+    return task;
+  };
+
+  if (raw.columns !== undefined && !Array.isArray(raw.columns)) {
+    quarantine({
+      kind: "column",
+      reason: "Board columns were not a list",
+      data: raw.columns,
+      boardId,
+    });
+  }
+
+  const columns: Column[] = [];
+  (Array.isArray(raw.columns) ? raw.columns : []).forEach((rawColumn) => {
+    if (!isObject(rawColumn)) {
+      quarantine({
+        kind: "column",
+        reason: "Column was not an object",
+        data: rawColumn,
+        boardId,
+      });
+      return;
+    }
+
+    // Repair the column's own fields
+    let columnId =
+      typeof rawColumn.id === "string" && rawColumn.id ? rawColumn.id : "";
+    if (!columnId || seenColumnIds.has(columnId)) columnId = uuidv4();
+    seenColumnIds.add(columnId);
+
+    if (rawColumn.tasks !== undefined && !Array.isArray(rawColumn.tasks)) {
+      quarantine({
+        kind: "task",
+        reason: "Column tasks were not a list",
+        data: rawColumn.tasks,
+        boardId,
+      });
+    }
+
+    const tasks: Task[] = [];
+    (Array.isArray(rawColumn.tasks) ? rawColumn.tasks : []).forEach(
+      (rawTask) => {
+        // Tasks always belong to the column they are stored in
+        const task = repairTask(rawTask, columnId);
+        if (task) tasks.push(task);
+      }
+    );
+
+    columns.push({
+      id: columnId,
+      title:
+        typeof rawColumn.title === "string" && rawColumn.title
+          ? rawColumn.title
+          : "Untitled column",
+      color: isOneOf(ColumnColor, rawColumn.color)
+        ? rawColumn.color
+        : ColumnColor.GRAY,
+      category: isOneOf(ColumnCategory, rawColumn.category)
+        ? rawColumn.category
+        : ColumnCategory.TODO,
+      // Anything but a positive whole number means "no limit"
+      ...(typeof rawColumn.wipLimit === "number" &&
+        Number.isInteger(rawColumn.wipLimit) &&
+        rawColumn.wipLimit > 0 && { wipLimit: rawColumn.wipLimit }),
+      tasks,
+    });
+  });
+
+  /**
+   * Repairs a list of tasks kept outside the columns (trash, archive)
+   * Their keys stay reserved so a restored task never clashes with another.
+   */
+  const repairStoredTasks = (rawList: unknown, listName: string) => {
+    if (rawList !== undefined && !Array.isArray(rawList)) {
+      quarantine({
+        kind: "task",
+        reason: `Board ${listName} was not a list`,
+        data: rawList,
+        boardId,
+      });
+    }
+
+    const entries: Array<{ entry: Record<string, unknown>; task: Task }> = [];
+    (Array.isArray(rawList) ? rawList : []).forEach((rawEntry) => {
+      if (!isObject(rawEntry) || typeof rawEntry.columnId !== "string") {
+        quarantine({
+          kind: "task",
+          reason: `Board ${listName} entry had no task`,
+          data: rawEntry,
+          boardId,
+        });
+        return;
+      }
+
+      const task = repairTask(rawEntry.task, rawEntry.columnId);
+      if (task) entries.push({ entry: rawEntry, task });
+    });
+    return entries;
+  };
+
+  const trash: TrashedTask[] = repairStoredTasks(raw.trash, "trash").map(
+    ({ entry, task }) => ({
+      task,
+      columnId: task.status,
+      index:
+        typeof entry.index === "number" && entry.index >= 0
+          ? Math.floor(entry.index)
+          : 0,
+      deletedAt: parseDate(entry.deletedAt) ?? new Date(),
+    })
+  );
+
+  const archive: ArchivedTask[] = repairStoredTasks(raw.archive, "archive").map(
+    ({ entry, task }) => ({
+      task,
+      columnId: task.status,
+      archivedAt: parseDate(entry.archivedAt) ?? new Date(),
+    })
+  );
+
+  if (raw.views !== undefined && !Array.isArray(raw.views)) {
+    quarantine({
+      kind: "view",
+      reason: "Board views were not a list",
+      data: raw.views,
+      boardId,
+    });
+  }
+
+  const seenViewIds = new Set<string>();
+  const views: SavedView[] = [];
+  (Array.isArray(raw.views) ? raw.views : []).forEach((rawView) => {
+    if (!isObject(rawView) || typeof rawView.name !== "string") {
+      quarantine({
+        kind: "view",
+        reason: "View had no name",
+        data: rawView,
+        boardId,
+      });
+      return;
+    }
+
+    let viewId = typeof rawView.id === "string" && rawView.id ? rawView.id : "";
+    if (!viewId || seenViewIds.has(viewId)) viewId = uuidv4();
+    seenViewIds.add(viewId);
+    views.push({
+      id: viewId,
+      name: rawView.name,
+      filters: sanitizeFilters(rawView.filters),
+      sort: sanitizeSort(rawView.sort),
+      groupBy: isOneOf(GroupField, rawView.groupBy)
+        ? rawView.groupBy
+        : GroupField.NONE,
+    });
+  });
+
+  const rawSettings = isObject(raw.settings) ? raw.settings : {};
+  const settings: BoardSettings = {
+    trashRetentionDays:
+      typeof rawSettings.trashRetentionDays === "number" &&
+      rawSettings.trashRetentionDays >= 0
+        ? Math.floor(rawSettings.trashRetentionDays)
+        : DEFAULT_TRASH_RETENTION_DAYS,
+    blockDoneWithOpenChecklist: rawSettings.blockDoneWithOpenChecklist === true,
+    strictWipLimits: rawSettings.strictWipLimits === true,
+    markdownTemplate: sanitizeMarkdownTemplate(rawSettings.markdownTemplate),
+  };
+
+  // The counter must stay ahead of every key already handed out
+  let nextTaskNumber = Math.max(
+    typeof raw.nextTaskNumber === "number" &&
+      Number.isFinite(raw.nextTaskNumber)
+      ? Math.floor(raw.nextTaskNumber)
+      : 1,
+    highestNumber + 1
+  );
+  tasksNeedingKeys.forEach((task) => {
+    task.key = formatTaskKey(keyPrefix, nextTaskNumber++);
+  });
+
+  // Blockers must be tasks of this board; links to tasks deleted for good go
+  [
+    ...columns.flatMap((column) => column.tasks),
+    ...trash.map((entry) => entry.task),
+    ...archive.map((entry) => entry.task),
+  ].forEach((task) => {
+    task.blockedByIds = task.blockedByIds.filter((id) => seenTaskIds.has(id));
+  });
+
+  return {
+    id: boardId,
+    title:
+      typeof raw.title === "string" && raw.title ? raw.title : "Untitled board",
+    archived: raw.archived === true,
+    keyPrefix,
+    nextTaskNumber,
+    trash,
+    archive,
+    views,
+    labels,
+    members,
+    settings,
+    // A board with no usable columns gets the default ones back
+    columns: columns.length > 0 ? columns : createFallbackBoard().columns,
+  };
+};
+
+/**
+ * Repairs boards read from an import file the same way as stored boards
+ * @param rawBoards - Boards from the file (already checked against its schema)
+ * @param createFallbackBoard - Supplies default columns for boards that lost theirs
+ * @returns The repaired boards; records that can't be repaired are left out
+ */
+export const sanitizeImportedBoards = (
+  rawBoards: unknown[],
+  createFallbackBoard: () => Board
+): Board[] =>
+  rawBoards
+    .filter(isObject)
+    .map((rawBoard) => sanitizeBoard(rawBoard, () => {}, createFallbackBoard));
+
+/**
+ * Validates stored state, repairing what it can and quarantining the rest
+ * @param persistedState - Migrated state read from storage (may be anything)
+ * @param createFallbackBoard - Creates a fresh board when none survive
+ * @returns State that is safe for the store to use
+ */
+export const sanitizeKanbanState = (
+  persistedState: unknown,
+  createFallbackBoard: () => Board
+): PersistedKanbanState => {
+  const state = isObject(persistedState) ? persistedState : {};
+  const quarantined: QuarantinedRecord[] = Array.isArray(state.quarantine)
+    ? state.quarantine.filter(isObject).map((record) => ({
+        ...(record as unknown as QuarantinedRecord),
+        quarantinedAt: parseDate(record.quarantinedAt) ?? new Date(),
+      }))
+    : [];
+  const quarantine = (
+    record: Omit<QuarantinedRecord, "id" | "quarantinedAt">
+  ) => {
+    quarantined.push({ ...record, id: uuidv4(), quarantinedAt: new Date() });
+  };
+
+  if (state.boards !== undefined && !Array.isArray(state.boards)) {
+    quarantine({
+      kind: "state",
+      reason: "Stored boards were not a list",
+      data: state.boards,
+    });
+  }
+
+  const boards: Board[] = [];
+  (Array.isArray(state.boards) ? state.boards : []).forEach((rawBoard) => {
+    if (!isObject(rawBoard)) {
+      quarantine({
+        kind: "board",
+        reason: "Board was not an object",
+        data: rawBoard,
+      });
+      return;
+    }
+    boards.push(sanitizeBoard(rawBoard, quarantine, createFallbackBoard));
+  });
+
+  // Never leave the store without an open board
+  if (!boards.some((board) => !board.archived)) {
+    boards.push(createFallbackBoard());
+  }
+
+  const activeBoard =
+    boards.find(
+      (board) => board.id === state.activeBoardId && !board.archived
+    ) ?? boards.find((board) => !board.archived);
+
+  // Forget current-user choices for boards or members that no longer exist
+  const rawCurrentMemberIds = isObject(state.currentMemberIds)
+    ? state.currentMemberIds
+    : {};
+  const currentMemberIds: Record<string, string> = {};
+  boards.forEach((board) => {
+    const memberId = rawCurrentMemberIds[board.id];
+    if (
+      typeof memberId === "string" &&
+      board.members.some((member) => member.id === memberId)
+    ) {
+      currentMemberIds[board.id] = memberId;
+    }
+  });
+
+  return {
+    boards,
+    activeBoardId: activeBoard?.id ?? boards[0].id,
+    quarantine: quarantined,
+    currentMemberIds,
+  };
+};
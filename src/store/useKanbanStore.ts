@@ -2,184 +2,1576 @@
  * Kanban Board State Management
  *
  * This module defines the Zustand store for managing the Kanban board state.
- * It handles task creation, updates, deletion, and movement between columns,
- * as well as persistence to localStorage.
+ * It handles multiple boards, task creation, updates, deletion, and movement
+ * between columns, as well as persistence to localStorage.
+ *
+ * Task actions always operate on the active board (see `activeBoardId`).
+ * Every change to the boards is recorded in a bounded undo/redo history.
  */
 
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { v4 as uuidv4 } from "uuid";
-import { TaskStatus, TaskPriority } from "../types";
-import type { Task, Board } from "../types";
+import {
+  ActivityType,
+  TaskPriority,
+  ColumnCategory,
+  ColumnColor,
+  BoardLayout,
+  GroupField,
+  ImportMode,
+} from "../types";
+import type {
+  Task,
+  Board,
+  BoardSettings,
+  Column,
+  ExternalBoard,
+  Label,
+  Member,
+  QuarantinedRecord,
+  SavedView,
+  TaskComment,
+  TaskDraft,
+  TaskFilters,
+  TaskSort,
+  TaskStatus,
+  TrashedTask,
+} from "../types";
+import {
+  DEFAULT_KEY_PREFIX,
+  formatTaskKey,
+  parseTaskNumber,
+} from "@/lib/taskKeys";
+import { DEFAULT_TRASH_RETENTION_DAYS, purgeExpiredTrash } from "@/lib/trash";
+import { findStaleDoneTasks } from "@/lib/archive";
+import { EMPTY_FILTERS, matchesFilters } from "@/lib/filters";
+import { deriveInitials } from "@/lib/members";
+import { getRefusalMessage } from "@/lib/wip";
+import { wouldCreateCycle } from "@/lib/dependencies";
+import { keepDatesInOrder } from "@/lib/timeline";
+import {
+  createActivity,
+  describeMove,
+  diffTasks,
+  withActivity,
+  withMoveActivity,
+} from "@/lib/activity";
+import { MANUAL_SORT, sortTasks } from "@/lib/sort";
+import { DEFAULT_MARKDOWN_TEMPLATE } from "@/lib/markdown";
+import {
+  STORAGE_VERSION,
+  kanbanStorage,
+  migrateKanbanState,
+  sanitizeImportedBoards,
+  sanitizeKanbanState,
+} from "./persistence";
+import type { PersistedKanbanState } from "./persistence";
+
+/** Maximum number of undo steps kept in memory */
+const HISTORY_LIMIT = 50;
+
+/**
+ * A point in the undo/redo history
+ */
+interface HistorySnapshot {
+  boards: Board[];
+  activeBoardId: string;
+}
+
+/**
+ * Task fields that can be set when creating a task, besides the basic ones
+ */
+type TaskDetails = Partial<
+  Pick<
+    Task,
+    "labelIds" | "assigneeIds" | "checklist" | "startDate" | "blockedByIds"
+  >
+>;
 
 /**
  * Interface defining the Kanban state and actions
  */
 interface KanbanState {
-  /** The main board containing columns and tasks */
-  board: Board;
+  /** All boards, including archived ones, each with its own columns and tasks */
+  boards: Board[];
+
+  /** ID of the board currently shown in the UI */
+  activeBoardId: string;
+
+  /** Stored records that failed validation on load and were set aside */
+  quarantine: QuarantinedRecord[];
+
+  /**
+   * Member the user of this browser is on each board, by board ID
+   * Remembered locally and left out of the undo history.
+   */
+  currentMemberIds: Record<string, string>;
+
+  /** Undo history, oldest first (in memory only, not persisted) */
+  past: HistorySnapshot[];
+
+  /** Redo history, most recent undo first */
+  future: HistorySnapshot[];
+
+  /** Current filters for the active board (in memory only, not persisted) */
+  filters: TaskFilters;
+
+  /** Current task order within columns (in memory only, not persisted) */
+  sort: TaskSort;
+
+  /** Task field the board is split into swimlanes by (in memory only, not persisted) */
+  groupBy: GroupField;
+
+  /** How the tasks are laid out, e.g. in columns or on a calendar (in memory only) */
+  layout: BoardLayout;
+
+  /** Saved view the current filters, sort and grouping came from, if unchanged since */
+  activeViewId?: string;
+
+  /**
+   * Discards all quarantined records
+   */
+  clearQuarantine: () => void;
 
-  /** Current status filter (undefined means no filter) */
-  filterByStatus?: TaskStatus;
+  /**
+   * Gets the board currently shown in the UI
+   * @returns The active board (falls back to the first board if the ID is stale)
+   */
+  getActiveBoard: () => Board;
+
+  /**
+   * Switches the UI to another board
+   * @param boardId - ID of the board to show
+   */
+  setActiveBoard: (boardId: string) => void;
+
+  /**
+   * Creates a new empty board with the default columns and switches to it
+   * @param title - The title of the board
+   * @param keyPrefix - Prefix for the board's task keys (defaults to "TASK")
+   * @returns The ID of the new board
+   */
+  createBoard: (title: string, keyPrefix?: string) => string;
+
+  /**
+   * Renames a board
+   * @param boardId - ID of the board to rename
+   * @param title - The new title
+   */
+  renameBoard: (boardId: string, title: string) => void;
+
+  /**
+   * Sets the prefix used for new task keys on a board
+   * @param boardId - ID of the board
+   * @param keyPrefix - The new prefix (e.g. "WEB")
+   * @remarks Existing task keys are left as they are so links to them stay valid
+   */
+  setBoardKeyPrefix: (boardId: string, keyPrefix: string) => void;
+
+  /**
+   * Copies a board with all of its columns and tasks and switches to the copy
+   * @param boardId - ID of the board to duplicate
+   * @returns The ID of the new board, or undefined if the source was not found
+   */
+  duplicateBoard: (boardId: string) => string | undefined;
+
+  /**
+   * Adds boards read from an export file and switches to the first of them
+   * @param rawBoards - Boards from the file (see readBoardFile); they are
+   * repaired like stored boards before use
+   * @param mode - Replace boards with the same ID, merge tasks by ID into the
+   * board with the same ID (or the active board), or add them as new boards
+   * @returns The IDs of the boards that were added or changed
+   */
+  importBoards: (rawBoards: unknown[], mode: ImportMode) => string[];
 
-  /** Current priority filter (undefined means no filter) */
-  filterByPriority?: TaskPriority;
+  /**
+   * Creates a board from another tool's export and switches to it
+   * @param external - The board read from the export (see trelloImport and
+   * githubImport)
+   * @returns The ID of the new board
+   * @remarks The board is built with the board, column, label and task
+   * actions, as a single undo step
+   */
+  importExternalBoard: (external: ExternalBoard) => string;
+
+  /**
+   * Archives or restores a board
+   * @param boardId - ID of the board
+   * @param archived - Whether the board should be archived (defaults to true)
+   * @remarks Archiving the active board switches to another open board
+   */
+  archiveBoard: (boardId: string, archived?: boolean) => void;
+
+  /**
+   * Permanently deletes a board and all of its tasks
+   * @param boardId - ID of the board to delete
+   * @remarks Deleting the last board leaves a fresh empty board in its place
+   */
+  deleteBoard: (boardId: string) => void;
+
+  /**
+   * Changes a board's settings
+   * @param boardId - ID of the board
+   * @param changes - The settings to update
+   * @remarks A shorter trash retention purges expired items right away
+   */
+  updateBoardSettings: (
+    boardId: string,
+    changes: Partial<BoardSettings>
+  ) => void;
+
+  /**
+   * Adds a column to the end of the active board
+   * @param title - The column title
+   * @param color - Accent color (defaults to gray)
+   * @param category - Workflow stage the column represents (defaults to TODO)
+   * @param wipLimit - Most tasks the column should hold (defaults to no limit)
+   * @returns The ID of the new column
+   */
+  addColumn: (
+    title: string,
+    color?: ColumnColor,
+    category?: ColumnCategory,
+    wipLimit?: number
+  ) => string;
+
+  /**
+   * Renames, recolors or recategorizes a column, or changes its WIP limit
+   * @param columnId - ID of the column to update
+   * @param changes - The column fields to update
+   */
+  updateColumn: (
+    columnId: string,
+    changes: Partial<Pick<Column, "title" | "color" | "category" | "wipLimit">>
+  ) => void;
+
+  /**
+   * Moves a column to a new position on the active board
+   * @param columnId - ID of the column to move
+   * @param toIndex - The column's new index
+   */
+  moveColumn: (columnId: string, toIndex: number) => void;
+
+  /**
+   * Deletes a column from the active board
+   * @param columnId - ID of the column to delete
+   * @param moveTasksTo - ID of the column that receives the deleted column's tasks;
+   * when omitted the tasks are moved to the trash
+   * @remarks The last remaining column cannot be deleted
+   */
+  deleteColumn: (columnId: string, moveTasksTo?: TaskStatus) => void;
+
+  /**
+   * Adds a label to the active board's catalog
+   * @param name - Label name (e.g. "bug")
+   * @param color - Chip color
+   * @returns The ID of the new label
+   */
+  addLabel: (name: string, color: ColumnColor) => string;
+
+  /**
+   * Renames or recolors a label; every task using it shows the change
+   * @param labelId - ID of the label
+   * @param changes - The label fields to update
+   */
+  updateLabel: (
+    labelId: string,
+    changes: Partial<Pick<Label, "name" | "color">>
+  ) => void;
+
+  /**
+   * Removes a label from the catalog and from every task, view and filter
+   * @param labelId - ID of the label to delete
+   */
+  deleteLabel: (labelId: string) => void;
+
+  /**
+   * Adds a member to the active board
+   * @param name - The member's name
+   * @param color - Avatar color
+   * @param initials - Avatar letters (derived from the name when omitted)
+   * @returns The ID of the new member
+   */
+  addMember: (name: string, color: ColumnColor, initials?: string) => string;
+
+  /**
+   * Renames a member or changes their avatar
+   * @param memberId - ID of the member
+   * @param changes - The member fields to update
+   */
+  updateMember: (
+    memberId: string,
+    changes: Partial<Pick<Member, "name" | "initials" | "color">>
+  ) => void;
+
+  /**
+   * Removes a member from the board, unassigning them from every task and
+   * dropping them from views and filters
+   * @param memberId - ID of the member to delete
+   */
+  deleteMember: (memberId: string) => void;
+
+  /**
+   * Remembers who the user of this browser is on the active board
+   * @param memberId - ID of a member, or undefined to forget the choice
+   */
+  setCurrentMember: (memberId: string | undefined) => void;
+
+  /**
+   * Gets the member set as the current user of the active board
+   * @returns The member, or undefined if none is set (or it was deleted)
+   */
+  getCurrentMember: () => Member | undefined;
 
   /**
    * Creates a new task in the specified column
    * @param title - The title of the task
    * @param description - Optional description of the task
-   * @param status - Task status/column (defaults to TODO)
+   * @param status - ID of the column to create the task in (defaults to the first column)
    * @param priority - Task priority level (defaults to MEDIUM)
    * @param dueDate - Optional due date for the task
+   * @param details - Optional further fields (labels, assignees, checklist, start date, blockers)
    */
   createTask: (
     title: string,
     description?: string,
     status?: TaskStatus,
     priority?: TaskPriority,
-    dueDate?: Date
+    dueDate?: Date,
+    details?: TaskDetails
   ) => void;
 
+  /**
+   * Creates tasks from outside data (e.g. a CSV file) on the active board
+   * @param drafts - The tasks to create, in order
+   * @returns The number of tasks created
+   * @remarks Labels and assignees are matched by name regardless of case;
+   * missing ones are added to the board. Drafts the board refuses in their
+   * column (see refusesTask) are left out. The import is a single undo step.
+   */
+  importTasks: (drafts: TaskDraft[]) => number;
+
   /**
    * Updates an existing task and moves it between columns if status changes
    * @param taskId - ID of the task to update
    * @param updatedTask - Partial task object with fields to update
-   * @remarks If the status field is updated, the task will be moved to the appropriate column
+   * @remarks If the status field is updated, the task will be moved to the appropriate column,
+   * unless the board refuses the task there (see refusesTask). Blockers that
+   * would form a cycle (see wouldCreateCycle) leave the blockers unchanged.
+   * The start date stays on or before the due date (see keepDatesInOrder).
    */
   updateTask: (taskId: string, updatedTask: Partial<Task>) => void;
 
   /**
-   * Deletes a task
+   * Moves a task to the active board's trash
    * @param taskId - ID of the task to delete
+   * @remarks The trash remembers the task's column and position for restoreTask
    */
   deleteTask: (taskId: string) => void;
 
+  /**
+   * Puts a trashed task back where it was deleted from
+   * @param taskId - ID of the trashed task
+   * @remarks Falls back to the first column if the original one is gone
+   */
+  restoreTask: (taskId: string) => void;
+
+  /**
+   * Removes a task from the trash for good
+   * @param taskId - ID of the trashed task
+   */
+  deleteTaskPermanently: (taskId: string) => void;
+
+  /**
+   * Permanently deletes everything in the active board's trash
+   */
+  emptyTrash: () => void;
+
+  /**
+   * Moves a task out of its column into the active board's archive
+   * @param taskId - ID of the task to archive
+   */
+  archiveTask: (taskId: string) => void;
+
+  /**
+   * Archives every task in a "done" column that hasn't changed for a while
+   * @param olderThanDays - Minimum number of days since the task last changed
+   * @returns The number of tasks archived
+   */
+  archiveDoneTasks: (olderThanDays: number) => number;
+
+  /**
+   * Puts an archived task back at the end of the column it was archived from
+   * @param taskId - ID of the archived task
+   * @remarks Falls back to the first column if the original one is gone
+   */
+  unarchiveTask: (taskId: string) => void;
+
+  /**
+   * Adds a comment to a task on the active board, written by the current user
+   * @param taskId - ID of the task
+   * @param text - The comment
+   * @param parentId - Comment being replied to; replies to replies join the
+   * top-level comment's thread
+   * @returns The ID of the new comment, or undefined if the task was not found
+   */
+  addComment: (
+    taskId: string,
+    text: string,
+    parentId?: string
+  ) => string | undefined;
+
+  /**
+   * Deletes a comment from a task, along with its replies
+   * @param taskId - ID of the task
+   * @param commentId - ID of the comment
+   */
+  deleteComment: (taskId: string, commentId: string) => void;
+
   /**
    * Moves a task to a different column
    * @param taskId - ID of the task to move
    * @param destinationStatus - Status representing the destination column
+   * @param index - Position in the destination column (defaults to the end)
+   * @remarks Does nothing if the board refuses the task in that column
+   * (see refusesTask)
    */
-  moveTask: (taskId: string, destinationStatus: TaskStatus) => void;
+  moveTask: (
+    taskId: string,
+    destinationStatus: TaskStatus,
+    index?: number
+  ) => void;
 
   /**
-   * Sets the status filter
-   * @param status - Status to filter by, undefined to clear the filter
+   * Places a task at an exact position, in its own column or another one
+   * @param taskId - ID of the task to place
+   * @param targetStatus - ID of the column the task should end up in
+   * @param index - Position within the target column (clamped to its bounds)
+   * @remarks The order of `column.tasks` is the persisted manual order
    */
-  setFilterStatus: (status?: TaskStatus) => void;
+  reorderTask: (
+    taskId: string,
+    targetStatus: TaskStatus,
+    index: number
+  ) => void;
 
   /**
-   * Sets the priority filter
-   * @param priority - Priority to filter by, undefined to clear the filter
+   * Changes some of the filters, keeping the others as they are
+   * @param changes - The filter fields to replace
    */
-  setFilterPriority: (priority?: TaskPriority) => void;
+  setFilters: (changes: Partial<TaskFilters>) => void;
 
   /**
    * Clears all filters
    */
   clearFilters: () => void;
 
+  /**
+   * Sets how tasks are ordered within each column
+   * @param sort - Field and direction; MANUAL shows the drag-and-drop order
+   */
+  setSort: (sort: TaskSort) => void;
+
+  /**
+   * Splits the board into swimlanes by a task field
+   * @param groupBy - The field; NONE shows a single row of columns
+   */
+  setGroupBy: (groupBy: GroupField) => void;
+
+  /**
+   * Switches how the tasks are laid out
+   * @param layout - The layout; filters apply to every layout
+   * @remarks The layout is kept when switching boards or views
+   */
+  setLayout: (layout: BoardLayout) => void;
+
+  /**
+   * Saves the current filters, sort and grouping as a named view of the active board
+   * @param name - Display name of the view
+   * @returns The ID of the new view, which becomes the active view
+   */
+  saveView: (name: string) => string;
+
+  /**
+   * Replaces the current filters, sort and grouping with those of a saved view
+   * @param viewId - ID of a view on the active board
+   */
+  applyView: (viewId: string) => void;
+
+  /**
+   * Removes a saved view from the active board
+   * @param viewId - ID of the view to delete
+   */
+  deleteView: (viewId: string) => void;
+
   /**
    * Gets tasks filtered by the current filters
    * @returns A new board with filtered tasks in each column
    */
   getFilteredBoard: () => Board;
+
+  /**
+   * Reverts the most recent change to the boards
+   */
+  undo: () => void;
+
+  /**
+   * Re-applies the most recently undone change
+   */
+  redo: () => void;
+
+  /**
+   * Starts grouping changes into a single history entry
+   * @remarks Used for drag gestures, which call moveTask many times
+   */
+  beginHistoryBatch: () => void;
+
+  /**
+   * Ends the current history group started by beginHistoryBatch
+   */
+  endHistoryBatch: () => void;
 }
 
 /**
- * Generates a JIRA-like task code (e.g., "TASK-123")
- * @returns A unique task code string
+ * Creates a board with the default three columns
+ * @param title - The title of the board
+ * @param keyPrefix - Prefix for the board's task keys
+ * @returns A new board with fresh IDs
  */
-const generateTaskCode = (): string => {
-  // Generate a random 3-digit number
-  const randomNum = Math.floor(Math.random() * 900) + 100;
-  return `TASK-${randomNum}`;
-};
-
-// Initial setup for the board with three columns
-const initialBoard: Board = {
+const createInitialBoard = (
+  title = "Kanban Board",
+  keyPrefix = DEFAULT_KEY_PREFIX
+): Board => ({
   id: uuidv4(),
-  title: "Kanban Board",
+  title,
+  archived: false,
+  keyPrefix,
+  nextTaskNumber: 1,
+  trash: [],
+  archive: [],
+  views: [],
+  labels: [],
+  members: [],
+  settings: {
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+    blockDoneWithOpenChecklist: false,
+    strictWipLimits: false,
+    markdownTemplate: DEFAULT_MARKDOWN_TEMPLATE,
+  },
   columns: [
     {
       id: uuidv4(),
       title: "To Do",
-      status: TaskStatus.TODO,
+      color: ColumnColor.GRAY,
+      category: ColumnCategory.TODO,
       tasks: [],
     },
     {
       id: uuidv4(),
       title: "In Progress",
-      status: TaskStatus.IN_PROGRESS,
+      color: ColumnColor.BLUE,
+      category: ColumnCategory.IN_PROGRESS,
       tasks: [],
     },
     {
       id: uuidv4(),
       title: "Done",
-      status: TaskStatus.DONE,
+      color: ColumnColor.GREEN,
+      category: ColumnCategory.DONE,
       tasks: [],
     },
   ],
+});
+
+/**
+ * Copies a board, giving the board, its columns and its tasks new IDs
+ * @param board - The board to copy
+ * @returns The copied board
+ */
+const cloneBoard = (board: Board): Board => {
+  // Tasks and saved views point at columns, so they must follow the new IDs
+  const columnIds = new Map(
+    board.columns.map((column) => [column.id, uuidv4()])
+  );
+  const newColumnId = (columnId: string) => columnIds.get(columnId) ?? columnId;
+  // Blockers point at tasks; links to tasks that stay behind are dropped
+  const taskIds = new Map(
+    board.columns.flatMap((column) =>
+      column.tasks.map((task) => [task.id, uuidv4()])
+    )
+  );
+
+  return {
+    ...board,
+    id: uuidv4(),
+    title: `${board.title} (copy)`,
+    archived: false,
+    // Deleted and archived tasks stay with the original board
+    trash: [],
+    archive: [],
+    views: board.views.map((view) => ({
+      ...view,
+      id: uuidv4(),
+      filters: {
+        ...view.filters,
+        statuses: view.filters.statuses.map(newColumnId),
+      },
+    })),
+    columns: board.columns.map((column) => ({
+      ...column,
+      id: newColumnId(column.id),
+      tasks: column.tasks.map((task) => ({
+        ...task,
+        id: taskIds.get(task.id) ?? uuidv4(),
+        status: newColumnId(column.id),
+        blockedByIds: task.blockedByIds.flatMap((id) => taskIds.get(id) ?? []),
+      })),
+    })),
+  };
 };
 
-// Create the store with persistence using localStorage
-export const useKanbanStore = create<KanbanState>()(
-  persist(
-    (set, get) => ({
-      // ===== STATE =====
-      board: initialBoard,
-      filterByStatus: undefined,
-      filterByPriority: undefined,
+/**
+ * Merges the tasks of an imported board into an existing board by task ID
+ *
+ * Tasks with a known ID replace the existing task (in place if they stay in
+ * the same column), other tasks are added to the end of their column. Missing
+ * columns, labels and members are added; the rest of the board is kept.
+ * Imported tasks whose key is taken by another task get a new key.
+ *
+ * @param target - The board to merge into
+ * @param incoming - The imported board
+ * @returns The merged board
+ */
+const mergeBoards = (target: Board, incoming: Board): Board => {
+  const incomingTasks = incoming.columns.flatMap((column) => column.tasks);
+  const incomingIds = new Set(incomingTasks.map((task) => task.id));
+
+  // Give imported tasks new keys where their key belongs to another task
+  const takenKeys = new Set(
+    [
+      ...target.columns.flatMap((column) => column.tasks),
+      ...target.trash.map((item) => item.task),
+      ...target.archive.map((item) => item.task),
+    ]
+      .filter((task) => !incomingIds.has(task.id))
+      .map((task) => task.key)
+  );
+  let nextTaskNumber = Math.max(
+    target.nextTaskNumber,
+    ...incomingTasks
+      .filter((task) => task.key.startsWith(`${target.keyPrefix}-`))
+      .map((task) => (parseTaskNumber(task.key) ?? 0) + 1)
+  );
+  const tasksById = new Map(
+    incomingTasks.map((task) => [
+      task.id,
+      takenKeys.has(task.key)
+        ? { ...task, key: formatTaskKey(target.keyPrefix, nextTaskNumber++) }
+        : task,
+    ])
+  );
+
+  // Replace known tasks that stay in their column, drop those that move
+  const placedIds = new Set<string>();
+  const existingColumns = target.columns.map((column) => ({
+    ...column,
+    tasks: column.tasks.flatMap((task) => {
+      const update = tasksById.get(task.id);
+      if (!update) return [task];
+      if (update.status !== column.id) return [];
+      placedIds.add(task.id);
+      return [update];
+    }),
+  }));
+  const newColumns = incoming.columns
+    .filter((column) => !target.columns.some((col) => col.id === column.id))
+    .map((column) => ({ ...column, tasks: [] }));
+
+  return {
+    ...target,
+    nextTaskNumber,
+    columns: [...existingColumns, ...newColumns].map((column) => ({
+      ...column,
+      tasks: [
+        ...column.tasks,
+        ...[...tasksById.values()].filter(
+          (task) => task.status === column.id && !placedIds.has(task.id)
+        ),
+      ],
+    })),
+    // The imported version of a task wins over a deleted or archived copy
+    trash: target.trash.filter((item) => !incomingIds.has(item.task.id)),
+    archive: target.archive.filter((item) => !incomingIds.has(item.task.id)),
+    labels: [
+      ...target.labels,
+      ...incoming.labels.filter(
+        (label) => !target.labels.some((other) => other.id === label.id)
+      ),
+    ],
+    members: [
+      ...target.members,
+      ...incoming.members.filter(
+        (member) => !target.members.some((other) => other.id === member.id)
+      ),
+    ],
+  };
+};
+
+/**
+ * Finds the active board in the state
+ * @returns The active board, or the first board if the active ID is stale
+ */
+const selectActiveBoard = (
+  state: Pick<KanbanState, "boards" | "activeBoardId">
+): Board =>
+  state.boards.find((board) => board.id === state.activeBoardId) ??
+  state.boards[0];
+
+/**
+ * Finds the member the user of this browser is on a board
+ * @returns The member's ID, or undefined if none is set or it was deleted
+ */
+const selectCurrentMemberId = (
+  state: Pick<KanbanState, "currentMemberIds">,
+  board: Board
+): string | undefined => {
+  const memberId = state.currentMemberIds[board.id];
+  return board.members.some((member) => member.id === memberId)
+    ? memberId
+    : undefined;
+};
+
+/**
+ * Checks the board rules that can keep a task out of a column: finished
+ * checklists for "done" columns, and strict WIP limits
+ * @param board - The board the task belongs to
+ * @param task - The task being moved (with its pending changes, if edited)
+ * @param targetStatus - ID of the column the task should go to
+ * @returns True if the move must not happen
+ */
+const refusesTask = (
+  board: Board,
+  task: Pick<Task, "status" | "checklist">,
+  targetStatus: TaskStatus
+): boolean => getRefusalMessage(board, task, targetStatus) !== undefined;
+
+/**
+ * Applies an update to the active board only
+ * @param state - Current store state
+ * @param updater - Receives the active board and returns its replacement
+ * @returns Partial state containing the updated boards list
+ */
+const updateActiveBoard = (
+  state: KanbanState,
+  updater: (board: Board) => Board
+): Pick<KanbanState, "boards"> => {
+  const activeBoard = selectActiveBoard(state);
+  return {
+    boards: state.boards.map((board) =>
+      board.id === activeBoard.id ? updater(board) : board
+    ),
+  };
+};
+
+/**
+ * Picks the board to show after the given board is hidden or removed
+ * @param boards - The remaining boards
+ * @param excludedId - ID of the board that is going away
+ * @returns ID of the first open board, if any
+ */
+const pickFallbackBoardId = (
+  boards: Board[],
+  excludedId: string
+): string | undefined =>
+  boards.find((board) => board.id !== excludedId && !board.archived)?.id;
+
+/**
+ * Builds trash entries for tasks removed from a column
+ * @param column - The column the tasks are removed from
+ * @param taskIds - IDs of the tasks to trash (defaults to all of the column's tasks)
+ * @param actorId - Member deleting the tasks, for the tasks' activity logs
+ * @returns One entry per task, remembering its position in the column
+ */
+const toTrash = (
+  column: Column,
+  taskIds?: string[],
+  actorId?: string
+): TrashedTask[] => {
+  const deletedAt = new Date();
+  // Only the tasks that go to the trash get a "deleted" entry
+  return column.tasks.flatMap((task, index) =>
+    !taskIds || taskIds.includes(task.id)
+      ? [
+          {
+            task: withActivity(
+              task,
+              createActivity(ActivityType.DELETED, actorId)
+            ),
+            columnId: column.id,
+            index,
+            deletedAt,
+          },
+        ]
+      : []
+  );
+};
+
+/**
+ * Removes a column from the status filter
+ * @param filters - Filters that may refer to the column
+ * @param columnId - ID of a deleted column
+ * @returns The filters without that column
+ */
+const withoutStatus = (
+  filters: TaskFilters,
+  columnId: TaskStatus
+): TaskFilters => ({
+  ...filters,
+  statuses: filters.statuses.filter((status) => status !== columnId),
+});
+
+/**
+ * Applies a change to every task a board keeps: in columns, trash and archive
+ * @param board - The board to update
+ * @param updater - Receives each task and returns its replacement
+ * @returns The board with updated tasks
+ */
+const mapBoardTasks = (board: Board, updater: (task: Task) => Task): Board => ({
+  ...board,
+  columns: board.columns.map((column) => ({
+    ...column,
+    tasks: column.tasks.map(updater),
+  })),
+  trash: board.trash.map((entry) => ({ ...entry, task: updater(entry.task) })),
+  archive: board.archive.map((entry) => ({
+    ...entry,
+    task: updater(entry.task),
+  })),
+});
+
+/**
+ * Removes a label from the label filter
+ * @param filters - Filters that may refer to the label
+ * @param labelId - ID of a deleted label
+ * @returns The filters without that label
+ */
+const withoutLabel = (filters: TaskFilters, labelId: string): TaskFilters => ({
+  ...filters,
+  labelIds: filters.labelIds.filter((id) => id !== labelId),
+});
+
+/**
+ * Removes a member from the assignee filter
+ * @param filters - Filters that may refer to the member
+ * @param memberId - ID of a deleted member
+ * @returns The filters without that member
+ */
+const withoutAssignee = (
+  filters: TaskFilters,
+  memberId: string
+): TaskFilters => ({
+  ...filters,
+  assignees: filters.assignees.filter((id) => id !== memberId),
+});
+
+/** Filter, sort and grouping state of a freshly opened board */
+const NO_FILTERS: Pick<
+  KanbanState,
+  "filters" | "sort" | "groupBy" | "activeViewId"
+> = {
+  filters: EMPTY_FILTERS,
+  sort: MANUAL_SORT,
+  groupBy: GroupField.NONE,
+  activeViewId: undefined,
+};
+
+const initialBoard = createInitialBoard();
+
+/** True while undo/redo is applying a snapshot (so it isn't recorded again) */
+let isTimeTravelling = false;
+
+/**
+ * Tracks an open history batch: all changes made while `depth > 0` share one
+ * entry, holding the state from before the batch started
+ */
+const historyBatch: {
+  depth: number;
+  snapshot?: HistorySnapshot;
+  recorded: boolean;
+  /** When the batch began; moves since then share one activity entry */
+  startedAt?: Date;
+} = { depth: 0, recorded: false };
+
+// Create the store with persistence using localStorage
+export const useKanbanStore = create<KanbanState>()(
+  persist(
+    (set, get) => ({
+      // ===== STATE =====
+      boards: [initialBoard],
+      activeBoardId: initialBoard.id,
+      quarantine: [],
+      currentMemberIds: {},
+      past: [],
+      future: [],
+      ...NO_FILTERS,
+      layout: BoardLayout.BOARD,
+
+      // ===== BOARD ACTIONS =====
+
+      clearQuarantine: () => {
+        set(() => ({ quarantine: [] }));
+      },
+
+      getActiveBoard: () => selectActiveBoard(get()),
+
+      /**
+       * Switches to another board and clears filters that belonged to the old one
+       */
+      setActiveBoard: (boardId) => {
+        set((state) => {
+          if (!state.boards.some((board) => board.id === boardId)) {
+            return state;
+          }
+          return {
+            activeBoardId: boardId,
+            ...NO_FILTERS,
+          };
+        });
+      },
+
+      /**
+       * Creates a new board and makes it the active one
+       */
+      createBoard: (title, keyPrefix) => {
+        const newBoard = createInitialBoard(title, keyPrefix);
+        set((state) => ({
+          boards: [...state.boards, newBoard],
+          activeBoardId: newBoard.id,
+          ...NO_FILTERS,
+        }));
+        return newBoard.id;
+      },
+
+      /**
+       * Renames a board
+       */
+      renameBoard: (boardId, title) => {
+        set((state) => ({
+          boards: state.boards.map((board) =>
+            board.id === boardId ? { ...board, title } : board
+          ),
+        }));
+      },
+
+      /**
+       * Changes the prefix for keys of tasks created from now on
+       */
+      setBoardKeyPrefix: (boardId, keyPrefix) => {
+        set((state) => ({
+          boards: state.boards.map((board) =>
+            board.id === boardId ? { ...board, keyPrefix } : board
+          ),
+        }));
+      },
+
+      /**
+       * Duplicates a board (with new IDs for everything) and switches to the copy
+       */
+      duplicateBoard: (boardId) => {
+        const source = get().boards.find((board) => board.id === boardId);
+        if (!source) return undefined;
+
+        const copy = cloneBoard(source);
+        set((state) => ({
+          boards: [...state.boards, copy],
+          activeBoardId: copy.id,
+          // Members keep their IDs in the copy, and so does the current user
+          currentMemberIds: state.currentMemberIds[boardId]
+            ? {
+                ...state.currentMemberIds,
+                [copy.id]: state.currentMemberIds[boardId],
+              }
+            : state.currentMemberIds,
+          ...NO_FILTERS,
+        }));
+        return copy.id;
+      },
+
+      /**
+       * Adds imported boards in the chosen mode and switches to the first one
+       */
+      importBoards: (rawBoards, mode) => {
+        const imported = sanitizeImportedBoards(rawBoards, createInitialBoard);
+        if (imported.length === 0) return [];
+
+        let boards = get().boards;
+        const changedIds: string[] = [];
+        imported.forEach((board) => {
+          const existing = boards.find((item) => item.id === board.id);
+          if (mode === ImportMode.NEW_BOARD) {
+            const copy = { ...cloneBoard(board), title: board.title };
+            boards = [...boards, copy];
+            changedIds.push(copy.id);
+          } else if (mode === ImportMode.MERGE) {
+            const target = existing ?? selectActiveBoard({ ...get(), boards });
+            boards = boards.map((item) =>
+              item.id === target.id ? mergeBoards(item, board) : item
+            );
+            changedIds.push(target.id);
+          } else {
+            boards = existing
+              ? boards.map((item) => (item.id === board.id ? board : item))
+              : [...boards, board];
+            changedIds.push(board.id);
+          }
+        });
+
+        const firstOpenId = changedIds.find((id) =>
+          boards.some((board) => board.id === id && !board.archived)
+        );
+        set((state) => ({
+          boards,
+          activeBoardId: firstOpenId ?? state.activeBoardId,
+          ...NO_FILTERS,
+        }));
+        return [...new Set(changedIds)];
+      },
+
+      /**
+       * Creates a new board, swaps its default columns for the imported ones
+       * and fills them
+       */
+      importExternalBoard: (external) => {
+        const {
+          beginHistoryBatch,
+          endHistoryBatch,
+          createBoard,
+          addColumn,
+          deleteColumn,
+          addLabel,
+          importTasks,
+        } = get();
+        beginHistoryBatch();
+        const boardId = createBoard(external.title);
+        // Labels first, so tasks find them with their colors
+        external.labels.forEach((label) => {
+          const exists = get()
+            .getActiveBoard()
+            .labels.some(
+              (item) => item.name.toLowerCase() === label.name.toLowerCase()
+            );
+          if (!exists) addLabel(label.name, label.color);
+        });
+        if (external.columns.length > 0) {
+          const defaultColumns = get().getActiveBoard().columns;
+          external.columns.forEach((column) => {
+            const columnId = addColumn(
+              column.title,
+              column.color,
+              column.category
+            );
+            importTasks(
+              column.tasks.map((task) => ({ ...task, status: columnId }))
+            );
+          });
+          defaultColumns.forEach((column) => deleteColumn(column.id));
+        }
+        endHistoryBatch();
+        return boardId;
+      },
+
+      /**
+       * Archives or restores a board
+       *
+       * When the active board gets archived, another open board becomes active.
+       * If there is none, a fresh board is created so the UI always has a board to show.
+       */
+      archiveBoard: (boardId, archived = true) => {
+        set((state) => {
+          const boards = state.boards.map((board) =>
+            board.id === boardId ? { ...board, archived } : board
+          );
+
+          if (!archived || state.activeBoardId !== boardId) {
+            return { boards };
+          }
+
+          const fallbackId = pickFallbackBoardId(boards, boardId);
+          if (fallbackId) {
+            return { boards, activeBoardId: fallbackId };
+          }
+
+          const freshBoard = createInitialBoard();
+          return {
+            boards: [...boards, freshBoard],
+            activeBoardId: freshBoard.id,
+          };
+        });
+      },
+
+      /**
+       * Deletes a board permanently
+       */
+      deleteBoard: (boardId) => {
+        set((state) => {
+          const boards = state.boards.filter((board) => board.id !== boardId);
+
+          if (state.activeBoardId !== boardId) {
+            return { boards };
+          }
+
+          const fallbackId = pickFallbackBoardId(boards, boardId);
+          if (fallbackId) {
+            return {
+              boards,
+              activeBoardId: fallbackId,
+              ...NO_FILTERS,
+            };
+          }
+
+          // Never leave the store without an open board
+          const freshBoard = createInitialBoard();
+          return {
+            boards: [...boards, freshBoard],
+            activeBoardId: freshBoard.id,
+            ...NO_FILTERS,
+          };
+        });
+      },
+
+      /**
+       * Updates a board's settings, purging trash that the new retention expires
+       */
+      updateBoardSettings: (boardId, changes) => {
+        set((state) => ({
+          boards: state.boards.map((board) =>
+            board.id === boardId
+              ? purgeExpiredTrash({
+                  ...board,
+                  settings: { ...board.settings, ...changes },
+                })
+              : board
+          ),
+        }));
+      },
+
+      // ===== COLUMN ACTIONS =====
+
+      /**
+       * Appends a new empty column to the active board
+       */
+      addColumn: (
+        title,
+        color = ColumnColor.GRAY,
+        category = ColumnCategory.TODO,
+        wipLimit
+      ) => {
+        const newColumn: Column = {
+          id: uuidv4(),
+          title,
+          color,
+          category,
+          ...(wipLimit !== undefined && { wipLimit }),
+          tasks: [],
+        };
+        set((state) =>
+          updateActiveBoard(state, (board) => ({
+            ...board,
+            columns: [...board.columns, newColumn],
+          }))
+        );
+        return newColumn.id;
+      },
+
+      /**
+       * Updates a column's title, color, category or WIP limit
+       */
+      updateColumn: (columnId, changes) => {
+        set((state) =>
+          updateActiveBoard(state, (board) => ({
+            ...board,
+            columns: board.columns.map((column) =>
+              column.id === columnId ? { ...column, ...changes } : column
+            ),
+          }))
+        );
+      },
+
+      /**
+       * Moves a column to another position (used by column header drag and drop)
+       */
+      moveColumn: (columnId, toIndex) => {
+        set((state) =>
+          updateActiveBoard(state, (board) => {
+            const fromIndex = board.columns.findIndex(
+              (column) => column.id === columnId
+            );
+            if (fromIndex === -1 || fromIndex === toIndex) {
+              return board;
+            }
+
+            const columns = [...board.columns];
+            const [movedColumn] = columns.splice(fromIndex, 1);
+            columns.splice(
+              Math.max(0, Math.min(toIndex, columns.length)),
+              0,
+              movedColumn
+            );
+            return { ...board, columns };
+          })
+        );
+      },
+
+      /**
+       * Deletes a column, moving its tasks into another column or to the trash
+       */
+      deleteColumn: (columnId, moveTasksTo) => {
+        set((state) => {
+          const update = updateActiveBoard(state, (board) => {
+            const columnToDelete = board.columns.find(
+              (column) => column.id === columnId
+            );
+
+            // A board always keeps at least one column for its tasks to live in
+            if (!columnToDelete || board.columns.length === 1) {
+              return board;
+            }
+
+            const remainingColumns = board.columns.filter(
+              (column) => column.id !== columnId
+            );
+            const isMovingTasks = remainingColumns.some(
+              (column) => column.id === moveTasksTo
+            );
+
+            return {
+              ...board,
+              trash: isMovingTasks
+                ? board.trash
+                : [
+                    ...toTrash(
+                      columnToDelete,
+                      undefined,
+                      selectCurrentMemberId(state, board)
+                    ),
+                    ...board.trash,
+                  ],
+              views: board.views.map((view) => ({
+                ...view,
+                filters: withoutStatus(view.filters, columnId),
+              })),
+              columns: remainingColumns.map((column) => {
+                if (column.id !== moveTasksTo) return column;
+
+                // Re-point the orphaned tasks at their new column
+                const move = describeMove(board, columnId, column.id);
+                const movedTasks = columnToDelete.tasks.map((task) =>
+                  withMoveActivity(
+                    { ...task, status: column.id, updatedAt: new Date() },
+                    move,
+                    selectCurrentMemberId(state, board)
+                  )
+                );
+                return { ...column, tasks: [...column.tasks, ...movedTasks] };
+              }),
+            };
+          });
+
+          // Don't keep filtering by a column that no longer exists
+          return {
+            ...update,
+            filters: withoutStatus(state.filters, columnId),
+          };
+        });
+      },
+
+      // ===== LABEL ACTIONS =====
+
+      /**
+       * Appends a label to the active board's catalog
+       */
+      addLabel: (name, color) => {
+        const newLabel: Label = { id: uuidv4(), name, color };
+        set((state) =>
+          updateActiveBoard(state, (board) => ({
+            ...board,
+            labels: [...board.labels, newLabel],
+          }))
+        );
+        return newLabel.id;
+      },
+
+      /**
+       * Updates a label's name or color (tasks refer to it by ID)
+       */
+      updateLabel: (labelId, changes) => {
+        set((state) =>
+          updateActiveBoard(state, (board) => ({
+            ...board,
+            labels: board.labels.map((label) =>
+              label.id === labelId ? { ...label, ...changes } : label
+            ),
+          }))
+        );
+      },
+
+      /**
+       * Deletes a label and detaches it from everything that refers to it
+       */
+      deleteLabel: (labelId) => {
+        set((state) => {
+          const update = updateActiveBoard(state, (board) => ({
+            ...mapBoardTasks(board, (task) =>
+              task.labelIds.includes(labelId)
+                ? {
+                    ...task,
+                    labelIds: task.labelIds.filter((id) => id !== labelId),
+                  }
+                : task
+            ),
+            labels: board.labels.filter((label) => label.id !== labelId),
+            views: board.views.map((view) => ({
+              ...view,
+              filters: withoutLabel(view.filters, labelId),
+            })),
+          }));
+          return { ...update, filters: withoutLabel(state.filters, labelId) };
+        });
+      },
+
+      // ===== MEMBER ACTIONS =====
+
+      /**
+       * Appends a member to the active board
+       */
+      addMember: (name, color, initials = deriveInitials(name)) => {
+        const newMember: Member = { id: uuidv4(), name, initials, color };
+        set((state) =>
+          updateActiveBoard(state, (board) => ({
+            ...board,
+            members: [...board.members, newMember],
+          }))
+        );
+        return newMember.id;
+      },
+
+      /**
+       * Updates a member's name or avatar (tasks refer to them by ID)
+       */
+      updateMember: (memberId, changes) => {
+        set((state) =>
+          updateActiveBoard(state, (board) => ({
+            ...board,
+            members: board.members.map((member) =>
+              member.id === memberId ? { ...member, ...changes } : member
+            ),
+          }))
+        );
+      },
+
+      /**
+       * Deletes a member and unassigns them from everything that refers to them
+       *
+       * The current-user choice is kept, so undoing the deletion brings it
+       * back; getCurrentMember ignores it while the member is gone.
+       */
+      deleteMember: (memberId) => {
+        set((state) => {
+          const update = updateActiveBoard(state, (board) => ({
+            ...mapBoardTasks(board, (task) =>
+              task.assigneeIds.includes(memberId)
+                ? {
+                    ...task,
+                    assigneeIds: task.assigneeIds.filter(
+                      (id) => id !== memberId
+                    ),
+                  }
+                : task
+            ),
+            members: board.members.filter((member) => member.id !== memberId),
+            views: board.views.map((view) => ({
+              ...view,
+              filters: withoutAssignee(view.filters, memberId),
+            })),
+          }));
+          return {
+            ...update,
+            filters: withoutAssignee(state.filters, memberId),
+          };
+        });
+      },
+
+      /**
+       * Stores or clears the current user of the active board
+       */
+      setCurrentMember: (memberId) => {
+        set((state) => {
+          const currentMemberIds = { ...state.currentMemberIds };
+          if (memberId) {
+            currentMemberIds[state.activeBoardId] = memberId;
+          } else {
+            delete currentMemberIds[state.activeBoardId];
+          }
+          return { currentMemberIds };
+        });
+      },
+
+      getCurrentMember: () => {
+        const board = selectActiveBoard(get());
+        const memberId = get().currentMemberIds[board.id];
+        return board.members.find((member) => member.id === memberId);
+      },
 
-      // ===== ACTIONS =====
+      // ===== TASK ACTIONS =====
 
       /**
        * Creates a new task and adds it to the specified column based on status
        *
-       * @param title - Task title (will be prefixed with a generated task code)
+       * @param title - Task title
        * @param description - Optional task description
-       * @param status - Which column to place the task in (default: TODO)
+       * @param status - ID of the column to place the task in (default: first column)
        * @param priority - Task priority level (default: MEDIUM)
        * @param dueDate - Optional due date for the task
+       * @param details - Optional further fields such as labels, assignees, checklist and blockers
        */
       createTask: (
         title,
         description,
-        status = TaskStatus.TODO,
+        status,
         priority = TaskPriority.MEDIUM,
-        dueDate
+        dueDate,
+        details
       ) => {
-        set((state) => {
-          // Create a new task with unique ID and generated code
-          const newTask: Task = {
-            id: uuidv4(),
-            title: `${generateTaskCode()} ${title}`,
-            description,
-            status,
-            priority,
-            createdAt: new Date(),
-            ...(dueDate && { dueDate }),
-          };
-
-          // Find the column that matches the task's status and add the task to it
-          const updatedColumns = state.board.columns.map((column) => {
-            if (column.status === status) {
-              return {
-                ...column,
-                tasks: [...column.tasks, newTask],
-              };
+        set((state) =>
+          updateActiveBoard(state, (board) => {
+            // Unknown or missing column IDs fall back to the first column
+            // so a task is never silently dropped
+            const targetColumn =
+              board.columns.find((column) => column.id === status) ??
+              board.columns[0];
+            if (!targetColumn) return board;
+            // New tasks have no column yet, so any limited column counts
+            if (
+              refusesTask(
+                board,
+                { status: "", checklist: details?.checklist ?? [] },
+                targetColumn.id
+              )
+            ) {
+              return board;
             }
-            return column;
-          });
 
-          // Return updated state
-          return {
-            board: {
-              ...state.board,
+            // Create a new task with unique ID and the board's next sequential key
+            const newTask: Task = {
+              id: uuidv4(),
+              key: formatTaskKey(board.keyPrefix, board.nextTaskNumber),
+              title,
+              description,
+              status: targetColumn.id,
+              priority,
+              createdAt: new Date(),
+              ...(details?.startDate && { startDate: details.startDate }),
+              ...(dueDate && { dueDate }),
+              blockedByIds: details?.blockedByIds ?? [],
+              labelIds: details?.labelIds ?? [],
+              assigneeIds: details?.assigneeIds ?? [],
+              checklist: details?.checklist ?? [],
+              comments: [],
+              activity: [
+                createActivity(
+                  ActivityType.CREATED,
+                  selectCurrentMemberId(state, board)
+                ),
+              ],
+            };
+
+            // Find the column that matches the task's status and add the task to it
+            const updatedColumns = board.columns.map((column) => {
+              if (column.id === targetColumn.id) {
+                return {
+                  ...column,
+                  tasks: [...column.tasks, newTask],
+                };
+              }
+              return column;
+            });
+
+            // Return updated board, advancing the key counter
+            return {
+              ...board,
+              nextTaskNumber: board.nextTaskNumber + 1,
               columns: updatedColumns,
-            },
-          };
+            };
+          })
+        );
+      },
+
+      /**
+       * Creates each draft with createTask, adding the labels and members it
+       * names that the board doesn't have yet
+       */
+      importTasks: (drafts) => {
+        const findOrAdd = (
+          names: string[],
+          items: Array<{ id: string; name: string }>,
+          add: (name: string) => string
+        ) =>
+          names.map(
+            (name) =>
+              items.find(
+                (item) => item.name.toLowerCase() === name.toLowerCase()
+              )?.id ?? add(name)
+          );
+
+        get().beginHistoryBatch();
+        let imported = 0;
+        drafts.forEach((draft) => {
+          // Checked against the tasks imported so far, like any other move
+          // into a column (new tasks have no column yet); unknown columns
+          // mean the first one, as in createTask
+          const board = get().getActiveBoard();
+          const status = board.columns.some((col) => col.id === draft.status)
+            ? draft.status
+            : board.columns[0]?.id;
+          if (
+            !status ||
+            refusesTask(
+              board,
+              { status: "", checklist: draft.checklist },
+              status
+            )
+          ) {
+            return;
+          }
+          const labelIds = findOrAdd(
+            draft.labelNames,
+            get().getActiveBoard().labels,
+            (name) => get().addLabel(name, ColumnColor.GRAY)
+          );
+          const assigneeIds = findOrAdd(
+            draft.assigneeNames,
+            get().getActiveBoard().members,
+            (name) => get().addMember(name, ColumnColor.BLUE)
+          );
+          get().createTask(
+            draft.title,
+            draft.description,
+            draft.status,
+            draft.priority,
+            draft.dueDate,
+            {
+              startDate: draft.startDate,
+              labelIds,
+              assigneeIds,
+              checklist: draft.checklist,
+            }
+          );
+          imported++;
         });
+        get().endHistoryBatch();
+        return imported;
       },
 
       /**
@@ -194,131 +1586,427 @@ export const useKanbanStore = create<KanbanState>()(
        * @param updatedTask - Object containing the fields to update
        */
       updateTask: (taskId, updatedTask) => {
-        set((state) => {
-          // Step 1: Find the task and its current column
-          let currentTask: Task | undefined;
-          let sourceColumnIndex = -1;
-
-          // Look through all columns to find the task
-          state.board.columns.forEach((column, index) => {
-            const task = column.tasks.find((t) => t.id === taskId);
-            if (task) {
-              currentTask = task;
-              sourceColumnIndex = index;
+        set((state) =>
+          updateActiveBoard(state, (board) => {
+            // Step 1: Find the task and its current column
+            let currentTask: Task | undefined;
+            let sourceColumnIndex = -1;
+
+            // Look through all columns to find the task
+            board.columns.forEach((column, index) => {
+              const task = column.tasks.find((t) => t.id === taskId);
+              if (task) {
+                currentTask = task;
+                sourceColumnIndex = index;
+              }
+            });
+
+            // If task not found, return board unchanged
+            if (!currentTask || sourceColumnIndex === -1) {
+              return board;
             }
-          });
 
-          // If task not found, return state unchanged
-          if (!currentTask || sourceColumnIndex === -1) {
-            return state;
-          } // Step 2: Check if the status is being changed (column movement needed)
-          if (updatedTask.status && updatedTask.status !== currentTask.status) {
-            // Status is changing - task needs to be moved to a different column
-
-            // Create a new columns array for immutable update
-            const updatedColumns = [...state.board.columns];
-
-            // Step 3: Remove the task from its source/current column
-            updatedColumns[sourceColumnIndex] = {
-              ...updatedColumns[sourceColumnIndex],
-              tasks: updatedColumns[sourceColumnIndex].tasks.filter(
-                (task) => task.id !== taskId
-              ),
+            // A status that doesn't match any column would orphan the task,
+            // so keep the task in its current column in that case. The same
+            // goes for columns the board refuses the task in.
+            const keepsColumn =
+              !board.columns.some((col) => col.id === updatedTask.status) ||
+              refusesTask(
+                board,
+                { ...currentTask, ...updatedTask, status: currentTask.status },
+                updatedTask.status ?? currentTask.status
+              );
+            // Blockers that would close a cycle are refused the same way
+            const keepsBlockers =
+              updatedTask.blockedByIds !== undefined &&
+              wouldCreateCycle(board, taskId, updatedTask.blockedByIds);
+            // A start after the due date moves the other date along
+            const datesChange =
+              "startDate" in updatedTask || "dueDate" in updatedTask;
+            const changes: Partial<Task> = {
+              ...updatedTask,
+              ...(keepsColumn && { status: currentTask.status }),
+              ...(keepsBlockers && { blockedByIds: currentTask.blockedByIds }),
+              ...(datesChange && keepDatesInOrder(currentTask, updatedTask)),
             };
 
-            // Step 4: Find the destination column based on the new status
-            const destinationColumnIndex = updatedColumns.findIndex(
-              (col) => col.status === updatedTask.status
-            );
+            // Log the edit: one entry for the changed fields, one for a move
+            const originalTask = currentTask;
+            const actorId = selectCurrentMemberId(state, board);
+            const withEditActivity = (task: Task): Task => {
+              const diffs = diffTasks(originalTask, task, board);
+              return withActivity(
+                task,
+                ...(diffs.length > 0
+                  ? [createActivity(ActivityType.UPDATED, actorId, diffs)]
+                  : []),
+                ...(task.status !== originalTask.status
+                  ? [
+                      createActivity(ActivityType.MOVED, actorId, [
+                        describeMove(board, originalTask.status, task.status),
+                      ]),
+                    ]
+                  : [])
+              );
+            };
+
+            // Step 2: Check if the status is being changed (column movement needed)
+            if (changes.status && changes.status !== currentTask.status) {
+              // Status is changing - task needs to be moved to a different column
+
+              // Create a new columns array for immutable update
+              const updatedColumns = [...board.columns];
+
+              // Step 3: Remove the task from its source/current column
+              updatedColumns[sourceColumnIndex] = {
+                ...updatedColumns[sourceColumnIndex],
+                tasks: updatedColumns[sourceColumnIndex].tasks.filter(
+                  (task) => task.id !== taskId
+                ),
+              };
+
+              // Step 4: Find the destination column based on the new status
+              const destinationColumnIndex = updatedColumns.findIndex(
+                (col) => col.id === changes.status
+              );
+
+              if (destinationColumnIndex !== -1) {
+                // Create the updated task with all new properties and timestamp
+                const movedTask: Task = withEditActivity({
+                  ...currentTask,
+                  ...changes,
+                  updatedAt: new Date(), // Update timestamp to reflect the change
+                });
+
+                // Add the updated task to the destination column
+                updatedColumns[destinationColumnIndex] = {
+                  ...updatedColumns[destinationColumnIndex],
+                  tasks: [
+                    ...updatedColumns[destinationColumnIndex].tasks,
+                    movedTask,
+                  ],
+                };
+              }
 
-            if (destinationColumnIndex !== -1) {
-              // Create the updated task with all new properties and timestamp
-              const movedTask: Task = {
-                ...currentTask,
-                ...updatedTask,
-                updatedAt: new Date(), // Update timestamp to reflect the change
+              // Return the updated board
+              return {
+                ...board,
+                columns: updatedColumns,
               };
+            } else {
+              // No status change - task stays in current column with updated properties
+              // This follows a simpler update path without column movement
+              const updatedColumns = board.columns.map((column) => {
+                // Find the task in this column (should only be in one column)
+                const taskIndex = column.tasks.findIndex(
+                  (task) => task.id === taskId
+                );
+
+                // If task is found in this column
+                if (taskIndex !== -1) {
+                  const updatedTasks = [...column.tasks];
 
-              // Add the updated task to the destination column
-              updatedColumns[destinationColumnIndex] = {
-                ...updatedColumns[destinationColumnIndex],
-                tasks: [
-                  ...updatedColumns[destinationColumnIndex].tasks,
-                  movedTask,
-                ],
+                  // Update the task with new properties and updatedAt timestamp
+                  updatedTasks[taskIndex] = withEditActivity({
+                    ...updatedTasks[taskIndex],
+                    ...changes,
+                    updatedAt: new Date(),
+                  });
+
+                  // Return the updated column
+                  return {
+                    ...column,
+                    tasks: updatedTasks,
+                  };
+                }
+
+                // Return the column unchanged if task not found
+                return column;
+              });
+
+              // Return updated board
+              return {
+                ...board,
+                columns: updatedColumns,
               };
             }
+          })
+        );
+      },
+
+      /**
+       * Moves a task from its column to the front of the board's trash
+       */
+      deleteTask: (taskId) => {
+        set((state) =>
+          updateActiveBoard(state, (board) => {
+            const column = board.columns.find((col) =>
+              col.tasks.some((task) => task.id === taskId)
+            );
+            if (!column) return board;
 
-            // Return the updated state
             return {
-              board: {
-                ...state.board,
-                columns: updatedColumns,
-              },
+              ...board,
+              trash: [
+                ...toTrash(
+                  column,
+                  [taskId],
+                  selectCurrentMemberId(state, board)
+                ),
+                ...board.trash,
+              ],
+              columns: board.columns.map((col) =>
+                col.id === column.id
+                  ? {
+                      ...col,
+                      tasks: col.tasks.filter((task) => task.id !== taskId),
+                    }
+                  : col
+              ),
             };
-          } else {
-            // No status change - task stays in current column with updated properties
-            // This follows a simpler update path without column movement
-            const updatedColumns = state.board.columns.map((column) => {
-              // Find the task in this column (should only be in one column)
-              const taskIndex = column.tasks.findIndex(
-                (task) => task.id === taskId
-              );
+          })
+        );
+      },
+
+      /**
+       * Takes a task out of the trash and re-inserts it at its old position
+       */
+      restoreTask: (taskId) => {
+        set((state) =>
+          updateActiveBoard(state, (board) => {
+            const entry = board.trash.find((item) => item.task.id === taskId);
+            if (!entry) return board;
 
-              // If task is found in this column
-              if (taskIndex !== -1) {
-                const updatedTasks = [...column.tasks];
+            // The original column may have been deleted in the meantime
+            const targetColumn =
+              board.columns.find((column) => column.id === entry.columnId) ??
+              board.columns[0];
+            if (!targetColumn) return board;
 
-                // Update the task with new properties and updatedAt timestamp
-                updatedTasks[taskIndex] = {
-                  ...updatedTasks[taskIndex],
-                  ...updatedTask,
+            const tasks = [...targetColumn.tasks];
+            tasks.splice(
+              Math.min(entry.index, tasks.length),
+              0,
+              withActivity(
+                {
+                  ...entry.task,
+                  status: targetColumn.id,
                   updatedAt: new Date(),
-                };
+                },
+                createActivity(
+                  ActivityType.RESTORED,
+                  selectCurrentMemberId(state, board)
+                )
+              )
+            );
 
-                // Return the updated column
-                return {
-                  ...column,
-                  tasks: updatedTasks,
-                };
-              }
+            return {
+              ...board,
+              trash: board.trash.filter((item) => item !== entry),
+              columns: board.columns.map((column) =>
+                column.id === targetColumn.id ? { ...column, tasks } : column
+              ),
+            };
+          })
+        );
+      },
 
-              // Return the column unchanged if task not found
-              return column;
-            });
+      /**
+       * Removes a single task from the trash
+       */
+      deleteTaskPermanently: (taskId) => {
+        set((state) =>
+          updateActiveBoard(state, (board) => ({
+            ...board,
+            trash: board.trash.filter((item) => item.task.id !== taskId),
+          }))
+        );
+      },
+
+      /**
+       * Removes every task from the trash
+       */
+      emptyTrash: () => {
+        set((state) =>
+          updateActiveBoard(state, (board) => ({ ...board, trash: [] }))
+        );
+      },
+
+      /**
+       * Moves a task from its column to the front of the board's archive
+       */
+      archiveTask: (taskId) => {
+        set((state) =>
+          updateActiveBoard(state, (board) => {
+            const column = board.columns.find((col) =>
+              col.tasks.some((task) => task.id === taskId)
+            );
+            const task = column?.tasks.find((t) => t.id === taskId);
+            if (!column || !task) return board;
 
-            // Return updated board state
             return {
-              board: {
-                ...state.board,
-                columns: updatedColumns,
-              },
+              ...board,
+              archive: [
+                {
+                  task: withActivity(
+                    task,
+                    createActivity(
+                      ActivityType.ARCHIVED,
+                      selectCurrentMemberId(state, board)
+                    )
+                  ),
+                  columnId: column.id,
+                  archivedAt: new Date(),
+                },
+                ...board.archive,
+              ],
+              columns: board.columns.map((col) =>
+                col.id === column.id
+                  ? { ...col, tasks: col.tasks.filter((t) => t.id !== taskId) }
+                  : col
+              ),
             };
-          }
-        });
+          })
+        );
       },
 
       /**
-       * Deletes a task from any column
+       * Archives stale done tasks in one change (a single undo step)
        */
-      deleteTask: (taskId) => {
-        set((state) => {
-          // Remove the task from all columns (it should only exist in one)
-          const updatedColumns = state.board.columns.map((column) => {
+      archiveDoneTasks: (olderThanDays) => {
+        const taskIds = findStaleDoneTasks(
+          selectActiveBoard(get()),
+          olderThanDays
+        );
+        if (taskIds.length === 0) return 0;
+
+        const archivedAt = new Date();
+        set((state) =>
+          updateActiveBoard(state, (board) => {
+            const archived = board.columns.flatMap((column) =>
+              column.tasks
+                .filter((task) => taskIds.includes(task.id))
+                .map((task) => ({
+                  task: withActivity(
+                    task,
+                    createActivity(
+                      ActivityType.ARCHIVED,
+                      selectCurrentMemberId(state, board)
+                    )
+                  ),
+                  columnId: column.id,
+                  archivedAt,
+                }))
+            );
             return {
-              ...column,
-              tasks: column.tasks.filter((task) => task.id !== taskId),
+              ...board,
+              archive: [...archived, ...board.archive],
+              columns: board.columns.map((column) => ({
+                ...column,
+                tasks: column.tasks.filter(
+                  (task) => !taskIds.includes(task.id)
+                ),
+              })),
             };
-          });
+          })
+        );
+        return taskIds.length;
+      },
 
-          // Return updated board state
-          return {
-            board: {
-              ...state.board,
-              columns: updatedColumns,
-            },
-          };
-        });
+      /**
+       * Takes a task out of the archive and appends it to its old column
+       */
+      unarchiveTask: (taskId) => {
+        set((state) =>
+          updateActiveBoard(state, (board) => {
+            const entry = board.archive.find((item) => item.task.id === taskId);
+            if (!entry) return board;
+
+            // The original column may have been deleted in the meantime
+            const targetColumn =
+              board.columns.find((column) => column.id === entry.columnId) ??
+              board.columns[0];
+            if (!targetColumn) return board;
+
+            return {
+              ...board,
+              archive: board.archive.filter((item) => item !== entry),
+              columns: board.columns.map((column) =>
+                column.id === targetColumn.id
+                  ? {
+                      ...column,
+                      tasks: [
+                        ...column.tasks,
+                        withActivity(
+                          {
+                            ...entry.task,
+                            status: targetColumn.id,
+                            updatedAt: new Date(),
+                          },
+                          createActivity(
+                            ActivityType.UNARCHIVED,
+                            selectCurrentMemberId(state, board)
+                          )
+                        ),
+                      ],
+                    }
+                  : column
+              ),
+            };
+          })
+        );
+      },
+
+      // ===== COMMENT ACTIONS =====
+
+      /**
+       * Appends a comment to a task's thread list
+       */
+      addComment: (taskId, text, parentId) => {
+        const board = selectActiveBoard(get());
+        const task = board.columns
+          .flatMap((column) => column.tasks)
+          .find((t) => t.id === taskId);
+        if (!task) return undefined;
+
+        // Threads are one level deep: a reply to a reply joins its thread
+        const parent = task.comments.find((c) => c.id === parentId);
+        const authorId = selectCurrentMemberId(get(), board);
+        const comment: TaskComment = {
+          id: uuidv4(),
+          ...(parent && { parentId: parent.parentId ?? parent.id }),
+          ...(authorId && { authorId }),
+          text,
+          createdAt: new Date(),
+        };
+        set((state) =>
+          updateActiveBoard(state, (activeBoard) =>
+            mapBoardTasks(activeBoard, (t) =>
+              t.id === taskId ? { ...t, comments: [...t.comments, comment] } : t
+            )
+          )
+        );
+        return comment.id;
+      },
+
+      /**
+       * Removes a comment and every reply to it
+       */
+      deleteComment: (taskId, commentId) => {
+        set((state) =>
+          updateActiveBoard(state, (board) =>
+            mapBoardTasks(board, (task) =>
+              task.id === taskId
+                ? {
+                    ...task,
+                    comments: task.comments.filter(
+                      (c) => c.id !== commentId && c.parentId !== commentId
+                    ),
+                  }
+                : task
+            )
+          )
+        );
       },
 
       /**
@@ -329,121 +2017,225 @@ export const useKanbanStore = create<KanbanState>()(
        * which also handles moving tasks between columns when status changes.
        *
        * @param taskId - The ID of the task to move
-       * @param destinationStatus - The status representing the destination column
+       * @param destinationStatus - ID of the destination column
+       * @param index - Where to drop the task (default: end of the column)
        */
-      moveTask: (taskId, destinationStatus) => {
-        set((state) => {
-          // Step 1: Find the task to move and its source column
-          let taskToMove: Task | undefined;
-          let sourceColumnIndex = -1;
-
-          // Look through all columns to find the task
-          state.board.columns.forEach((column, index) => {
-            const task = column.tasks.find((t) => t.id === taskId);
-            if (task) {
-              taskToMove = { ...task }; // Clone the task
-              sourceColumnIndex = index;
+      moveTask: (taskId, destinationStatus, index) => {
+        get().reorderTask(
+          taskId,
+          destinationStatus,
+          index ?? Number.POSITIVE_INFINITY
+        );
+      },
+
+      /**
+       * Places a task at an exact index in the target column
+       *
+       * The position of a task in its column's `tasks` array is its manual
+       * order; this is the only action that changes it. Moving to another
+       * column also updates the task's status and updatedAt timestamp, while
+       * reordering within the same column leaves the task itself untouched.
+       *
+       * @param taskId - The ID of the task to place
+       * @param targetStatus - ID of the column the task should end up in
+       * @param index - Target index (clamped to the column's bounds)
+       */
+      reorderTask: (taskId, targetStatus, index) => {
+        set((state) =>
+          updateActiveBoard(state, (board) => {
+            // Step 1: Find the task and its source column
+            const sourceColumn = board.columns.find((column) =>
+              column.tasks.some((task) => task.id === taskId)
+            );
+            const task = sourceColumn?.tasks.find((t) => t.id === taskId);
+            const targetColumn = board.columns.find(
+              (column) => column.id === targetStatus
+            );
+
+            // If task or target column not found, return board unchanged
+            if (!sourceColumn || !task || !targetColumn) {
+              return board;
             }
-          });
 
-          // If task not found, return state unchanged
-          if (!taskToMove || sourceColumnIndex === -1) {
-            return state;
-          }
+            const isSameColumn = sourceColumn.id === targetColumn.id;
 
-          // Step 2: Remove the task from the source column
-          const updatedColumns = [...state.board.columns];
-          updatedColumns[sourceColumnIndex] = {
-            ...updatedColumns[sourceColumnIndex],
-            tasks: updatedColumns[sourceColumnIndex].tasks.filter(
-              (task) => task.id !== taskId
-            ),
-          };
+            // Boards may refuse the task there (checklist or WIP rules)
+            if (refusesTask(board, task, targetColumn.id)) {
+              return board;
+            }
 
-          // Step 3: Find the destination column and add the task with updated status
-          const destinationColumnIndex = updatedColumns.findIndex(
-            (col) => col.status === destinationStatus
-          );
+            // Step 2: Build the target column's task list without the task
+            const targetTasks = targetColumn.tasks.filter(
+              (t) => t.id !== taskId
+            );
+            const clampedIndex = Math.max(
+              0,
+              Math.min(index, targetTasks.length)
+            );
 
-          if (destinationColumnIndex !== -1) {
-            // Update the task with new status and updatedAt timestamp
-            const updatedTask: Task = {
-              ...taskToMove,
-              status: destinationStatus,
-              updatedAt: new Date(),
-            };
+            // Nothing to do if the task is already at that position
+            if (
+              isSameColumn &&
+              sourceColumn.tasks.indexOf(task) === clampedIndex
+            ) {
+              return board;
+            }
 
-            // Add the updated task to the destination column
-            updatedColumns[destinationColumnIndex] = {
-              ...updatedColumns[destinationColumnIndex],
-              tasks: [
-                ...updatedColumns[destinationColumnIndex].tasks,
-                updatedTask,
-              ],
+            // Step 3: Insert the task at the requested position
+            targetTasks.splice(
+              clampedIndex,
+              0,
+              isSameColumn
+                ? task
+                : withMoveActivity(
+                    { ...task, status: targetColumn.id, updatedAt: new Date() },
+                    describeMove(board, sourceColumn.id, targetColumn.id),
+                    selectCurrentMemberId(state, board),
+                    // A drag gesture logs a single move (see beginHistoryBatch)
+                    historyBatch.depth > 0 ? historyBatch.startedAt : undefined
+                  )
+            );
+
+            // Return updated board
+            return {
+              ...board,
+              columns: board.columns.map((column) => {
+                if (column.id === targetColumn.id) {
+                  return { ...column, tasks: targetTasks };
+                }
+                if (column.id === sourceColumn.id) {
+                  return {
+                    ...column,
+                    tasks: column.tasks.filter((t) => t.id !== taskId),
+                  };
+                }
+                return column;
+              }),
             };
-          }
+          })
+        );
+      },
 
-          // Return updated board state
-          return {
-            board: {
-              ...state.board,
-              columns: updatedColumns,
-            },
-          };
-        });
+      /**
+       * Merges filter changes into the current filters
+       */
+      setFilters: (changes) => {
+        set((state) => ({
+          filters: { ...state.filters, ...changes },
+          activeViewId: undefined,
+        }));
       },
 
       /**
-       * Sets the status filter
-       * @param status - Status to filter by, undefined to clear the filter
+       * Clears all filters
        */
-      setFilterStatus: (status) => {
+      clearFilters: () => {
         set(() => ({
-          filterByStatus: status,
+          filters: EMPTY_FILTERS,
+          activeViewId: undefined,
         }));
       },
 
       /**
-       * Sets the priority filter
-       * @param priority - Priority to filter by, undefined to clear the filter
+       * Sets the display order of tasks within columns
        */
-      setFilterPriority: (priority) => {
+      setSort: (sort) => {
         set(() => ({
-          filterByPriority: priority,
+          sort,
+          activeViewId: undefined,
         }));
       },
 
       /**
-       * Clears all filters
+       * Sets the field the board is split into swimlanes by
        */
-      clearFilters: () => {
+      setGroupBy: (groupBy) => {
         set(() => ({
-          filterByStatus: undefined,
-          filterByPriority: undefined,
+          groupBy,
+          activeViewId: undefined,
+        }));
+      },
+
+      /**
+       * Sets how the tasks are laid out
+       */
+      setLayout: (layout) => {
+        set(() => ({ layout }));
+      },
+
+      // ===== SAVED VIEW ACTIONS =====
+
+      /**
+       * Stores the current filters, sort and grouping under a name on the active board
+       */
+      saveView: (name) => {
+        const { filters, sort, groupBy } = get();
+        const view: SavedView = { id: uuidv4(), name, filters, sort, groupBy };
+        set((state) => ({
+          ...updateActiveBoard(state, (board) => ({
+            ...board,
+            views: [...board.views, view],
+          })),
+          activeViewId: view.id,
+        }));
+        return view.id;
+      },
+
+      /**
+       * Loads a saved view's filters, sort and grouping
+       */
+      applyView: (viewId) => {
+        set((state) => {
+          const view = selectActiveBoard(state).views.find(
+            (item) => item.id === viewId
+          );
+          if (!view) return state;
+          return {
+            filters: view.filters,
+            sort: view.sort,
+            groupBy: view.groupBy,
+            activeViewId: view.id,
+          };
+        });
+      },
+
+      /**
+       * Deletes a saved view; the current filters stay as they are
+       */
+      deleteView: (viewId) => {
+        set((state) => ({
+          ...updateActiveBoard(state, (board) => ({
+            ...board,
+            views: board.views.filter((view) => view.id !== viewId),
+          })),
+          activeViewId:
+            state.activeViewId === viewId ? undefined : state.activeViewId,
         }));
       },
 
       /**
        * Gets tasks filtered by the current filters
+       *
+       * Archived and trashed tasks live outside the columns, so they never
+       * show up here. Tasks are ordered by the current sort.
+       *
        * @returns A new board with filtered tasks in each column
        */
       getFilteredBoard: () => {
-        const { board, filterByStatus, filterByPriority } = get();
+        const { filters, sort, getCurrentMember } = get();
+        const board = selectActiveBoard(get());
+        const now = new Date();
+        const currentMemberId = getCurrentMember()?.id;
 
         // Filter tasks based on the current filters
         const filteredColumns = board.columns.map((column) => {
-          const filteredTasks = column.tasks.filter((task) => {
-            const matchesStatus =
-              filterByStatus === undefined || task.status === filterByStatus;
-            const matchesPriority =
-              filterByPriority === undefined ||
-              task.priority === filterByPriority;
-            return matchesStatus && matchesPriority;
-          });
+          const filteredTasks = column.tasks.filter((task) =>
+            matchesFilters(task, column, filters, now, currentMemberId)
+          );
 
           return {
             ...column,
-            tasks: filteredTasks,
+            tasks: sortTasks(filteredTasks, sort),
           };
         });
 
@@ -452,19 +2244,121 @@ export const useKanbanStore = create<KanbanState>()(
           columns: filteredColumns,
         };
       },
+
+      // ===== HISTORY ACTIONS =====
+
+      /**
+       * Restores the last snapshot and pushes the current state onto the redo stack
+       */
+      undo: () => {
+        const { past, future, boards, activeBoardId } = get();
+        const previous = past[past.length - 1];
+        if (!previous) return;
+
+        isTimeTravelling = true;
+        set({
+          ...previous,
+          past: past.slice(0, -1),
+          future: [{ boards, activeBoardId }, ...future],
+        });
+        isTimeTravelling = false;
+      },
+
+      /**
+       * Restores the last undone snapshot and pushes the current state back onto the undo stack
+       */
+      redo: () => {
+        const { past, future, boards, activeBoardId } = get();
+        const [next, ...remaining] = future;
+        if (!next) return;
+
+        isTimeTravelling = true;
+        set({
+          ...next,
+          past: [...past, { boards, activeBoardId }].slice(-HISTORY_LIMIT),
+          future: remaining,
+        });
+        isTimeTravelling = false;
+      },
+
+      beginHistoryBatch: () => {
+        if (historyBatch.depth === 0) {
+          const { boards, activeBoardId } = get();
+          historyBatch.snapshot = { boards, activeBoardId };
+          historyBatch.recorded = false;
+          historyBatch.startedAt = new Date();
+        }
+        historyBatch.depth++;
+      },
+
+      endHistoryBatch: () => {
+        historyBatch.depth = Math.max(0, historyBatch.depth - 1);
+      },
     }),
     {
       name: "kanban-storage",
+      version: STORAGE_VERSION,
+      storage: kanbanStorage,
       // Optional: define which parts of the state should be stored
-      partialize: (state) => ({ board: state.board }),
-      // Handle potential issues with stored data
-      onRehydrateStorage: () => (state) => {
-        // Check if the stored data is valid
-        if (!state || !state.board || !Array.isArray(state.board.columns)) {
-          console.warn("Invalid stored data, using initial state instead");
-          return { board: initialBoard };
+      partialize: (state): PersistedKanbanState => ({
+        boards: state.boards,
+        activeBoardId: state.activeBoardId,
+        quarantine: state.quarantine,
+        currentMemberIds: state.currentMemberIds,
+      }),
+      // Versioned schema: older data is migrated step by step, then
+      // validated on every load (see ./persistence). Expired trash is
+      // purged at the same time.
+      migrate: migrateKanbanState,
+      merge: (persistedState, currentState) => {
+        if (persistedState === undefined) return currentState;
+        const sanitized = sanitizeKanbanState(
+          persistedState,
+          createInitialBoard
+        );
+        return {
+          ...currentState,
+          ...sanitized,
+          boards: sanitized.boards.map((board) => purgeExpiredTrash(board)),
+        };
+      },
+      // Report storage errors; invalid records are handled in merge
+      onRehydrateStorage: () => (state, error) => {
+        if (error) {
+          console.warn("Could not load stored data", error);
+        }
+        if (state?.quarantine.length) {
+          console.warn(
+            `${state.quarantine.length} stored record(s) failed validation and were quarantined`
+          );
         }
       },
     }
   )
 );
+
+/**
+ * Record history: whenever the boards change (outside of undo/redo), push the
+ * previous state onto the undo stack and clear the redo stack. Subscribing
+ * after creation means loading from storage is never recorded.
+ */
+useKanbanStore.subscribe((state, previousState) => {
+  if (isTimeTravelling || state.boards === previousState.boards) return;
+
+  let snapshot: HistorySnapshot = {
+    boards: previousState.boards,
+    activeBoardId: previousState.activeBoardId,
+  };
+
+  if (historyBatch.depth > 0) {
+    // Only the first change of a batch creates an entry
+    if (historyBatch.recorded || !historyBatch.snapshot) return;
+    snapshot = historyBatch.snapshot;
+    historyBatch.recorded = true;
+  }
+
+  useKanbanStore.setState({
+    past: [...state.past, snapshot].slice(-HISTORY_LIMIT),
+    future: [],
+  });
+});
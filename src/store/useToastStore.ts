@@ -0,0 +1,121 @@
+/**
+ * Toast Notifications State
+ *
+ * A tiny Zustand store for short-lived notifications shown at the bottom of
+ * the screen, optionally with an action button (e.g. "Undo").
+ */
+
+import { create } from "zustand";
+import { v4 as uuidv4 } from "uuid";
+import { useKanbanStore } from "./useKanbanStore";
+
+/** How long a toast stays on screen by default (ms) */
+const DEFAULT_DURATION = 5000;
+
+/**
+ * A single notification
+ */
+export interface Toast {
+  id: string;
+  /** Text shown in the toast */
+  message: string;
+  /** Optional visual style */
+  variant?: "default" | "warning";
+  /** Label of the optional action button */
+  actionLabel?: string;
+  /** Called when the action button is clicked (the toast closes afterwards) */
+  onAction?: () => void;
+}
+
+/**
+ * Interface defining the toast state and actions
+ */
+interface ToastState {
+  /** Toasts currently on screen, oldest first */
+  toasts: Toast[];
+
+  /**
+   * Shows a toast that closes itself after a while
+   * @param toast - The toast content (an ID is generated)
+   * @param duration - Time on screen in milliseconds
+   * @returns The ID of the new toast
+   */
+  showToast: (toast: Omit<Toast, "id">, duration?: number) => string;
+
+  /**
+   * Closes a toast
+   * @param toastId - ID of the toast to close
+   */
+  dismissToast: (toastId: string) => void;
+
+  /**
+   * Removes the action button of a toast, leaving its message on screen
+   * @param toastId - ID of the toast
+   */
+  removeToastAction: (toastId: string) => void;
+}
+
+export const useToastStore = create<ToastState>()((set, get) => ({
+  toasts: [],
+
+  showToast: (toast, duration = DEFAULT_DURATION) => {
+    const id = uuidv4();
+    set((state) => ({ toasts: [...state.toasts, { ...toast, id }] }));
+    setTimeout(() => get().dismissToast(id), duration);
+    return id;
+  },
+
+  dismissToast: (toastId) => {
+    set((state) => ({
+      toasts: state.toasts.filter((toast) => toast.id !== toastId),
+    }));
+  },
+
+  removeToastAction: (toastId) => {
+    set((state) => ({
+      toasts: state.toasts.map((toast) =>
+        toast.id === toastId
+          ? { ...toast, actionLabel: undefined, onAction: undefined }
+          : toast
+      ),
+    }));
+  },
+}));
+
+/**
+ * Shows a warning toast, e.g. when the board refuses a move
+ * @param message - What went wrong
+ */
+export const showWarningToast = (message: string): void => {
+  useToastStore.getState().showToast({ message, variant: "warning" });
+};
+
+/**
+ * Shows a toast with an "Undo" button that reverts the board change just made
+ * Use right after a destructive action (delete, archive, ...). The button
+ * only undoes that change: it goes away as soon as the history moves on
+ * (another change, an undo or a redo).
+ * @param message - What just happened (e.g. "Task deleted")
+ */
+export const showUndoToast = (message: string): void => {
+  const latestEntry = () => {
+    const { past } = useKanbanStore.getState();
+    return past[past.length - 1];
+  };
+  // The history entry recorded for the change this toast describes
+  const entry = latestEntry();
+
+  const toastId = useToastStore.getState().showToast({
+    message,
+    actionLabel: "Undo",
+    onAction: () => {
+      if (latestEntry() === entry) useKanbanStore.getState().undo();
+    },
+  });
+
+  const unsubscribe = useKanbanStore.subscribe((state, previousState) => {
+    if (state.past === previousState.past || latestEntry() === entry) return;
+    useToastStore.getState().removeToastAction(toastId);
+    unsubscribe();
+  });
+};
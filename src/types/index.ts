@@ -5,35 +5,163 @@ export const TaskPriority = {
 } as const;
 
 /**
- * Task status options representing the different columns on the Kanban board
- * This also determines task movement between columns when status is updated
+ * Workflow stage a column represents
+ * Columns are user-defined, so features that need to know whether a task is
+ * "done" (styling, reports, etc.) look at the category instead of the title
  */
-export const TaskStatus = {
+export const ColumnCategory = {
   BACKLOG: "backlog",
   TODO: "todo",
   IN_PROGRESS: "in_progress",
   DONE: "done",
 } as const;
 
+/**
+ * Accent colors a column can be given
+ */
+export const ColumnColor = {
+  GRAY: "gray",
+  BLUE: "blue",
+  GREEN: "green",
+  YELLOW: "yellow",
+  ORANGE: "orange",
+  RED: "red",
+  PURPLE: "purple",
+  PINK: "pink",
+} as const;
+
 // Type variants using TypeScript's keyof and typeof operators:
 export type TaskPriority = (typeof TaskPriority)[keyof typeof TaskPriority];
-export type TaskStatus = (typeof TaskStatus)[keyof typeof TaskStatus];
+export type ColumnCategory =
+  (typeof ColumnCategory)[keyof typeof ColumnCategory];
+export type ColumnColor = (typeof ColumnColor)[keyof typeof ColumnColor];
+
+/**
+ * Task status is the ID of the column the task belongs to
+ * Updating it moves the task between columns
+ */
+export type TaskStatus = string;
 
 export interface Task {
   id: string;
+  /** Human-readable key from the board's counter (e.g. "WEB-42") */
+  key: string;
   title: string;
   description?: string;
   status: TaskStatus;
   priority: TaskPriority;
   createdAt: Date;
   updatedAt?: Date;
+  /** Day work on the task is planned to begin (shown on the timeline) */
+  startDate?: Date;
   dueDate?: Date;
+  /** IDs of the tasks on the same board that must be done before this one */
+  blockedByIds: string[];
+  /** IDs of the board labels attached to the task */
+  labelIds: string[];
+  /** IDs of the board members the task is assigned to */
+  assigneeIds: string[];
+  /** Steps of the task, in order */
+  checklist: ChecklistItem[];
+  /** Discussion on the task, oldest first */
+  comments: TaskComment[];
+  /** What happened to the task, oldest first (written by the store actions) */
+  activity: ActivityEntry[];
 }
 
-export interface Column {
+/**
+ * One step of a task's checklist
+ */
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+/**
+ * A comment on a task
+ * Replies point at the top-level comment they belong to, so threads are one
+ * level deep.
+ */
+export interface TaskComment {
+  id: string;
+  /** Top-level comment this one replies to */
+  parentId?: string;
+  /** Member who wrote the comment (the current user at the time) */
+  authorId?: string;
+  text: string;
+  createdAt: Date;
+}
+
+/**
+ * Kinds of events recorded in a task's activity log
+ */
+export const ActivityType = {
+  CREATED: "created",
+  UPDATED: "updated",
+  MOVED: "moved",
+  ARCHIVED: "archived",
+  UNARCHIVED: "unarchived",
+  DELETED: "deleted",
+  RESTORED: "restored",
+} as const;
+
+export type ActivityType = (typeof ActivityType)[keyof typeof ActivityType];
+
+/**
+ * One changed field of a task, as shown at the time of the change
+ * (e.g. column titles rather than IDs, so the log reads well after renames)
+ */
+export interface FieldChange {
+  /** Task field name (e.g. "title", "status") */
+  field: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * An entry of a task's activity log
+ */
+export interface ActivityEntry {
+  id: string;
+  type: ActivityType;
+  /** Member who made the change (the current user at the time) */
+  actorId?: string;
+  /** Field diffs for UPDATED, and the column change for MOVED */
+  changes: FieldChange[];
+  createdAt: Date;
+}
+
+/**
+ * A tag from a board's label catalog (e.g. "bug", "frontend")
+ * Tasks refer to labels by ID, so renaming a label updates every task.
+ */
+export interface Label {
   id: string;
+  name: string;
+  color: ColumnColor;
+}
+
+/**
+ * A person working on a board, shown as an avatar on the tasks assigned to them
+ */
+export interface Member {
+  id: string;
+  name: string;
+  /** One or two letters shown in the avatar (e.g. "JD") */
+  initials: string;
+  color: ColumnColor;
+}
+
+export interface Column {
+  /** Tasks reference this ID through their `status` field */
+  id: TaskStatus;
   title: string;
-  status: TaskStatus;
+  color: ColumnColor;
+  category: ColumnCategory;
+  /** Most tasks the column should hold at once; undefined means no limit */
+  wipLimit?: number;
+  /** Tasks in manual order - the array index is the task's position */
   tasks: Task[];
 }
 
@@ -41,10 +169,276 @@ export interface Board {
   id: string;
   title: string;
   columns: Column[];
+  /** Archived boards are hidden from the board switcher but kept in storage */
+  archived: boolean;
+  /** Prefix for new task keys (e.g. "WEB" gives "WEB-42") */
+  keyPrefix: string;
+  /** Number the next task key will use; only ever goes up */
+  nextTaskNumber: number;
+  /** Deleted tasks that can still be restored, most recent first */
+  trash: TrashedTask[];
+  /** Tasks put away out of the columns, most recent first */
+  archive: ArchivedTask[];
+  /** Saved filter presets, in the order they were created */
+  views: SavedView[];
+  /** Label catalog tasks can pick from */
+  labels: Label[];
+  /** People tasks can be assigned to */
+  members: Member[];
+  settings: BoardSettings;
+}
+
+/**
+ * Per-board preferences
+ */
+export interface BoardSettings {
+  /** Days a deleted task stays in the trash before it is purged (0 = forever) */
+  trashRetentionDays: number;
+  /** Keep tasks with unchecked checklist items out of "done" columns */
+  blockDoneWithOpenChecklist: boolean;
+  /** Refuse moves past a column's WIP limit (instead of only warning) */
+  strictWipLimits: boolean;
+  /** Last template used to export the board as Markdown */
+  markdownTemplate: MarkdownTemplate;
+}
+
+/**
+ * Task fields a Markdown export can show besides the title
+ */
+export const MarkdownField = {
+  KEY: "key",
+  PRIORITY: "priority",
+  DUE_DATE: "dueDate",
+  DESCRIPTION: "description",
+  LABELS: "labels",
+  ASSIGNEES: "assignees",
+  CHECKLIST: "checklist",
+} as const;
+
+export type MarkdownField = (typeof MarkdownField)[keyof typeof MarkdownField];
+
+/**
+ * Where a Markdown export puts the tasks of "done" columns
+ * COLUMNS keeps them in their columns, SECTION gathers them in one section
+ * at the end, COUNT only says how many there are, HIDE leaves them out.
+ */
+export const DoneGrouping = {
+  COLUMNS: "columns",
+  SECTION: "section",
+  COUNT: "count",
+  HIDE: "hide",
+} as const;
+
+export type DoneGrouping = (typeof DoneGrouping)[keyof typeof DoneGrouping];
+
+/**
+ * What a Markdown export of a board shows
+ */
+export interface MarkdownTemplate {
+  fields: MarkdownField[];
+  doneGrouping: DoneGrouping;
+}
+
+/**
+ * A deleted task waiting in its board's trash
+ * Remembers where the task came from so it can be put back there.
+ */
+export interface TrashedTask {
+  task: Task;
+  /** Column the task was deleted from */
+  columnId: TaskStatus;
+  /** Position the task had in that column */
+  index: number;
+  deletedAt: Date;
 }
 
+/**
+ * A task moved out of the board into its archive
+ * Unlike trash, archived tasks are kept until they are un-archived.
+ */
+export interface ArchivedTask {
+  task: Task;
+  /** Column the task was archived from */
+  columnId: TaskStatus;
+  archivedAt: Date;
+}
+
+/**
+ * Quick filters on a task's due date
+ */
+export const DuePreset = {
+  OVERDUE: "overdue",
+  TODAY: "today",
+  THIS_WEEK: "this_week",
+  NONE: "none",
+} as const;
+
+export type DuePreset = (typeof DuePreset)[keyof typeof DuePreset];
+
+/**
+ * Assignee filter values besides member IDs
+ * ME stands for whoever is set as the current user of the board.
+ */
+export const AssigneeFilter = {
+  ME: "me",
+  UNASSIGNED: "unassigned",
+} as const;
+
+export type AssigneeFilter =
+  (typeof AssigneeFilter)[keyof typeof AssigneeFilter];
+
+/**
+ * An inclusive range of calendar days; a missing end is open-ended
+ */
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Everything the board can be filtered by
+ * Within a list any value may match (OR); different fields must all match (AND).
+ * An empty list or range means the field is not filtered.
+ */
+export interface TaskFilters {
+  /** Column IDs */
+  statuses: TaskStatus[];
+  priorities: TaskPriority[];
+  /** Label IDs; a task matches if it has any of them */
+  labelIds: string[];
+  /** Member IDs or AssigneeFilter values; a task matches if any applies */
+  assignees: string[];
+  due: DuePreset[];
+  created: DateRange;
+  updated: DateRange;
+  /** Full-text search over key, title and description ("" means no search) */
+  search: string;
+}
+
+/**
+ * Fields the tasks within a column can be sorted by
+ * MANUAL keeps the order the tasks were dragged into.
+ */
+export const SortField = {
+  MANUAL: "manual",
+  PRIORITY: "priority",
+  DUE_DATE: "dueDate",
+  CREATED_AT: "createdAt",
+  UPDATED_AT: "updatedAt",
+  TITLE: "title",
+} as const;
+
+export type SortField = (typeof SortField)[keyof typeof SortField];
+
+export interface TaskSort {
+  field: SortField;
+  direction: "asc" | "desc";
+}
+
+/**
+ * Task fields the board can be split into swimlanes by
+ * NONE shows a single row of columns.
+ */
+export const GroupField = {
+  NONE: "none",
+  PRIORITY: "priority",
+  DUE: "due",
+  ASSIGNEE: "assignee",
+  LABEL: "label",
+} as const;
+
+export type GroupField = (typeof GroupField)[keyof typeof GroupField];
+
+/**
+ * Ways the tasks of a board can be laid out
+ * BOARD shows columns (and swimlanes), CALENDAR places tasks on their due date,
+ * TABLE lists every task as a row, TIMELINE draws bars from start to due date.
+ */
+export const BoardLayout = {
+  BOARD: "board",
+  CALENDAR: "calendar",
+  TABLE: "table",
+  TIMELINE: "timeline",
+} as const;
+
+export type BoardLayout = (typeof BoardLayout)[keyof typeof BoardLayout];
+
+/**
+ * A named filter, sort and grouping preset of a board
+ */
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: TaskFilters;
+  sort: TaskSort;
+  groupBy: GroupField;
+}
+
+/**
+ * A task to create from outside data (e.g. a CSV file)
+ * Labels and assignees are given by name, since the data doesn't know the
+ * board's IDs; the store matches them to the board's labels and members.
+ */
+export interface TaskDraft {
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  startDate?: Date;
+  dueDate?: Date;
+  labelNames: string[];
+  assigneeNames: string[];
+  checklist: ChecklistItem[];
+}
+
+/**
+ * A board read from another tool's export (e.g. Trello), to be created as a
+ * new board. Tasks are listed under their column.
+ */
+export interface ExternalBoard {
+  title: string;
+  columns: Array<{
+    title: string;
+    color: ColumnColor;
+    category: ColumnCategory;
+    tasks: Array<Omit<TaskDraft, "status">>;
+  }>;
+  /** Labels with their colors; tasks refer to them by name */
+  labels: Array<Pick<Label, "name" | "color">>;
+}
+
+/**
+ * How boards from an import file are added to the existing ones
+ * REPLACE swaps boards with the same ID for the imported ones, MERGE adds and
+ * updates tasks by ID, NEW_BOARD adds copies with fresh IDs.
+ */
+export const ImportMode = {
+  REPLACE: "replace",
+  MERGE: "merge",
+  NEW_BOARD: "new_board",
+} as const;
+
+export type ImportMode = (typeof ImportMode)[keyof typeof ImportMode];
+
 export interface DragItem {
   type: string;
   id: string;
   status: TaskStatus;
 }
+
+/**
+ * Stored data that failed validation on load and couldn't be repaired
+ * Kept aside (instead of being dropped) so it can still be downloaded
+ */
+export interface QuarantinedRecord {
+  id: string;
+  /** What kind of record this was */
+  kind: "state" | "board" | "column" | "task" | "view" | "label" | "member";
+  /** Why the record was quarantined */
+  reason: string;
+  /** The raw record as it was found in storage */
+  data: unknown;
+  /** Board the record belonged to, if known */
+  boardId?: string;
+  quarantinedAt: Date;
+}